@@ -12,6 +12,9 @@ import { toChecksumAddress } from 'web3-utils'
 import { EncryptedKeystoreV3Json, SignedTransaction, TransactionConfig } from 'web3-core'
 
 import { Network } from './Network'
+import { IEncryptedData } from './Interfaces/IEncryption'
+import { eciesDecrypt, getPublicKey } from './Crypto'
+
 /**
  * Account class to hold a privatly owned account
  */
@@ -37,6 +40,17 @@ export class Account {
         return new Account(address, password, null, keyData)
     }
 
+    /**
+     * Return the address of the account that signed a message, see {@link sign}.
+     * @param message Message that was signed.
+     * @param signature Signature of the message.
+     * @returns The address of the account that signed the message.
+     */
+    public static recoverAddress(message: string, signature: string): string {
+        const web3 = new Web3()
+        return web3.eth.accounts.recover(message, signature)
+    }
+
     /**
      * Loads a new account object that has been already loaded on the network node.
      * @param network Network node that has the account.
@@ -124,6 +138,33 @@ export class Account {
         return web3.eth.accounts.signTransaction(transaction, data.privateKey)
     }
 
+    /**
+     * Sign a message using the private key of this account, see {@link recoverAddress}.
+     * @param message Message to sign.
+     * @returns The signature as a hex string.
+     */
+    public async sign(message: string): Promise<string> {
+        const web3 = new Web3()
+        return web3.eth.accounts.sign(message, await this.getPrivateKey()).signature
+    }
+
+    /**
+     * Return the public key of this account, this can be used by other users to encrypt data for this account.
+     * @returns The uncompressed secp256k1 public key as a hex string.
+     */
+    public async getPublicKey(): Promise<string> {
+        return getPublicKey(await this.getPrivateKey())
+    }
+
+    /**
+     * Decrypt data that has been encrypted for the public key of this account, see {@link getPublicKey}.
+     * @param encryptedData Data encrypted using ECIES.
+     * @returns The decrypted data.
+     */
+    public async decrypt(encryptedData: IEncryptedData): Promise<Buffer> {
+        return eciesDecrypt(await this.getPrivateKey(), encryptedData)
+    }
+
     public async unlock(web3: Web3): Promise<boolean> {
         if (typeof this.keyData === 'undefined') {
             return web3.eth.personal.unlockAccount(this.checksumAddress, this.password, null)
@@ -148,6 +189,19 @@ export class Account {
         this.keyData = web3.eth.accounts.encrypt(privateKey, password)
     }
 
+    /**
+     * @internal
+     * Return the private key of this account, using the accounts password and keyData.
+     */
+    protected async getPrivateKey(): Promise<string> {
+        if (!this.keyData) {
+            throw new Error(`Account: No key data for account ${this.checksumAddress}`)
+        }
+        const web3 = new Web3()
+        const data = await web3.eth.accounts.decrypt(this.keyData, this.password)
+        return data.privateKey
+    }
+
     /**
      * Test to see if this address string is equal, to the one saved in this account object.
      * @param address Addresse to compare against
@@ -0,0 +1,174 @@
+/*
+ *
+ *
+ *    Agent Manager class
+ *
+ *
+ *
+ */
+
+import { RemoteAgent } from './RemoteAgent'
+import { setDataLoader } from './Job'
+import { AssetBase } from '../Asset/Asset'
+import { IAgent } from '../Interfaces/IAgent'
+import { IAgentAuthentication } from '../Interfaces/IAgentAuthentication'
+import { IAgentManagerItem, IAgentManagerOptions } from '../Interfaces/IAgentManager'
+import { Network } from '../Network'
+import { Account } from '../Account'
+import { didParse, isDID } from '../Utils'
+
+const DEFAULT_AGENT_TTL = 5 * 60 * 1000
+
+/**
+ * Registry of agents. Agents are resolved by their URL, DID or an asset DID, and are cached for a time,
+ * so that the agent DDO is not resolved for each call. The authentication to use for each agent is also
+ * kept by the registry.
+ */
+export class AgentManager {
+    public network: Network
+    public options: IAgentManagerOptions
+
+    protected agentList: Map<string, IAgentManagerItem>
+    protected authenticationList: Map<string, IAgentAuthentication>
+
+    /**
+     * Return the key used to find an agent in the registry. For a DID or asset DID this is the agent DID,
+     * for a URL this is the URL without a trailing '/'.
+     * @param agentAddress URL, DID or asset DID of the agent.
+     * @returns Key of the agent.
+     */
+    public static getAgentKey(agentAddress: string): string {
+        if (isDID(agentAddress)) {
+            const didFragment = didParse(agentAddress)
+            return `did:${didFragment.method}:${didFragment.id}`.toLowerCase()
+        }
+        return agentAddress.replace(/\/+$/, '')
+    }
+
+    /**
+     * Construct a new AgentManager object.
+     * @param network Network to resolve an agent DID, if not set only a URL or an added agent can be resolved.
+     * @param options Options for the registry, such as the time to cache each agent.
+     */
+    constructor(network?: Network, options?: IAgentManagerOptions) {
+        this.network = network
+        this.options = options ? options : {}
+        this.agentList = new Map<string, IAgentManagerItem>()
+        this.authenticationList = new Map<string, IAgentAuthentication>()
+    }
+
+    /**
+     * Set the authentication to use for an agent. If the agent has already been resolved, the authentication
+     * of the cached agent is also changed.
+     * @param agentAddress URL, DID or asset DID of the agent.
+     * @param authentication Authentication to access the agent.
+     */
+    public setAuthentication(agentAddress: string, authentication: IAgentAuthentication): void {
+        const key = AgentManager.getAgentKey(agentAddress)
+        this.authenticationList.set(key, authentication)
+        const item = this.agentList.get(key)
+        if (item && item.agent instanceof RemoteAgent) {
+            item.agent.setAuthentication(authentication)
+        }
+    }
+
+    /**
+     * Get the authentication set for an agent.
+     * @param agentAddress URL, DID or asset DID of the agent.
+     * @returns The authentication for the agent, else null if none has been set.
+     */
+    public getAuthentication(agentAddress: string): IAgentAuthentication {
+        const authentication = this.authenticationList.get(AgentManager.getAgentKey(agentAddress))
+        return authentication ? authentication : null
+    }
+
+    /**
+     * Add an agent to the registry, the agent can then be found by it's DID or by the optional URL.
+     * An added agent is never removed from the cache.
+     * @param agent Agent to add, this can be a RemoteAgent or LocalAgent.
+     * @param url Optional URL of the agent.
+     */
+    public addAgent(agent: IAgent, url?: string): void {
+        const item: IAgentManagerItem = { agent: agent, expireTime: null }
+        this.agentList.set(AgentManager.getAgentKey(agent.ddo.id), item)
+        if (url) {
+            this.agentList.set(AgentManager.getAgentKey(url), item)
+        }
+    }
+
+    /**
+     * Remove an agent from the registry.
+     * @param agentAddress URL, DID or asset DID of the agent.
+     * @returns True if the agent was found and removed.
+     */
+    public removeAgent(agentAddress: string): boolean {
+        const item = this.agentList.get(AgentManager.getAgentKey(agentAddress))
+        if (!item) {
+            return false
+        }
+        this.agentList.forEach((value: IAgentManagerItem, key: string) => {
+            if (value === item) {
+                this.agentList.delete(key)
+            }
+        })
+        return true
+    }
+
+    /**
+     * Remove all of the agents from the registry. The authentication set for each agent is kept.
+     */
+    public clear(): void {
+        this.agentList.clear()
+    }
+
+    /**
+     * Get an agent from the registry, if the agent is not found or has expired, then the agent is resolved.
+     * @param agentAddress URL, DID or asset DID of the agent.
+     * @param isRefresh If true then always resolve the agent.
+     * @returns The agent found.
+     */
+    public async getAgent(agentAddress: string, isRefresh?: boolean): Promise<IAgent> {
+        const key = AgentManager.getAgentKey(agentAddress)
+        const item = this.agentList.get(key)
+        if (item && !isRefresh && (item.expireTime === null || item.expireTime > Date.now())) {
+            return item.agent
+        }
+        const agent = await RemoteAgent.createFromAddress(
+            key,
+            this.network,
+            this.getAuthentication(key),
+            this.options.remoteAgentOptions
+        )
+        if (!agent) {
+            throw new Error(`AgentManager: Unable to resolve agent ${agentAddress}`)
+        }
+        const agentKey = AgentManager.getAgentKey(agent.ddo.id)
+        if (!agent.authentication && this.authenticationList.has(agentKey)) {
+            agent.setAuthentication(this.authenticationList.get(agentKey))
+        }
+        const ttl = this.options.ttl !== undefined ? this.options.ttl : DEFAULT_AGENT_TTL
+        const newItem: IAgentManagerItem = { agent: agent, expireTime: Date.now() + ttl }
+        this.agentList.set(key, newItem)
+        this.agentList.set(agentKey, newItem)
+        return agent
+    }
+
+    /**
+     * Resolve an asset DID to the asset, using the agent in the DID path.
+     * @param assetDID Asset DID in the format `did:dep:<agentId>/<assetId>`.
+     * @param account Account of one of the recipients, needed to decrypt the data of an encrypted asset.
+     * @returns The asset read from the agent, using the metadata type. The data of a DataAsset is only downloaded when
+     * it is first read.
+     */
+    public async resolveAsset(assetDID: string, account?: Account): Promise<AssetBase> {
+        if (!isDID(assetDID) || !didParse(assetDID).path) {
+            throw new Error(`AgentManager: ${assetDID} is not an asset DID`)
+        }
+        const agent = await this.getAgent(assetDID)
+        const asset = await agent.getAsset(assetDID)
+        if (!asset) {
+            throw new Error(`AgentManager: Unable to find asset ${assetDID}`)
+        }
+        return setDataLoader(asset, agent, account)
+    }
+}
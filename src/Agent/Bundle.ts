@@ -0,0 +1,123 @@
+/*
+ *
+ *
+ *          Bundle functions to register and download a tree of assets
+ *
+ *
+ *
+ */
+
+import fs from 'fs'
+import { join as pathJoin } from 'path'
+
+import { AssetBase, DataAsset } from '../Asset/Asset'
+import { BundleAsset } from '../Asset/BundleAsset'
+import { IAgent } from '../Interfaces/IAgent'
+import { IBundleMap, IMetadataBundle } from '../Interfaces/IMetadata'
+import { IUploadOptions } from '../Interfaces/IUpload'
+import { Account } from '../Account'
+
+/**
+ * Throw an error if a bundle member name can not be used as a file or directory name.
+ * @param name Name of the member in the bundle.
+ */
+export function checkBundleMemberName(name: string): void {
+    if (!name || name == '.' || name == '..' || /[/\\]/.test(name)) {
+        throw new Error(`Bundle: Invalid member name '${name}', it can not be used as a file name`)
+    }
+}
+
+/**
+ * Create a bundle from a directory. Each file is added as a DataAsset, and each sub directory is added as a nested
+ * bundle. The file data is not read into memory, see {@link DataAsset.createFromFileStream}.
+ * @param name Name of the bundle asset.
+ * @param path Directory to read.
+ * @param metadata Extra metadata to add to the bundle asset metadata.
+ * @returns A BundleAsset with the member assets set, but not registered.
+ */
+export async function createBundleFromDirectory(
+    name: string,
+    path: string,
+    metadata?: string | IMetadataBundle
+): Promise<BundleAsset> {
+    const bundle = BundleAsset.create(name, {}, metadata)
+    const entryList = await fs.promises.readdir(path, { withFileTypes: true })
+    entryList.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))
+    for (const entry of entryList) {
+        const filename = pathJoin(path, entry.name)
+        if (entry.isDirectory()) {
+            bundle.setMemberAsset(entry.name, await createBundleFromDirectory(entry.name, filename))
+        } else if (entry.isFile()) {
+            bundle.setMemberAsset(entry.name, await DataAsset.createFromFileStream(entry.name, filename))
+        }
+    }
+    return bundle
+}
+
+/**
+ * Register a bundle and all of it's member assets with an agent. Nested bundles are registered first, and the
+ * data of each DataAsset member is uploaded. Members and nested bundles that already have a DID are not registered again.
+ * The bundle is then registered with the assetId of each member set in the bundle contents.
+ * @param agent Agent to register the assets with.
+ * @param bundle Bundle to register, with the member assets set.
+ * @param options Upload options to use for each DataAsset member.
+ * @returns A new registered BundleAsset, with the registered member assets.
+ */
+export async function registerBundle(agent: IAgent, bundle: BundleAsset, options?: IUploadOptions): Promise<BundleAsset> {
+    const contents: IBundleMap = { ...bundle.assetList }
+    const memberList: { [name: string]: AssetBase } = {}
+    for (const name of Object.keys(bundle.memberList)) {
+        let member = bundle.memberList[name]
+        if (!member.did) {
+            if (member instanceof BundleAsset) {
+                member = await registerBundle(agent, member, options)
+            } else {
+                await agent.registerAsset(member)
+                if (member instanceof DataAsset) {
+                    await agent.uploadAsset(member, options)
+                }
+            }
+        }
+        contents[name] = { assetID: member.getAssetId() }
+        memberList[name] = member
+    }
+    const registeredBundle = new BundleAsset({ ...bundle.metadata, contents: contents }, undefined, contents)
+    registeredBundle.memberList = memberList
+    await agent.registerAsset(registeredBundle)
+    return registeredBundle
+}
+
+/**
+ * Download a bundle and all of it's member assets into a directory. The data of each DataAsset member is saved
+ * to a file with the member name, and each nested bundle is saved to a sub directory. Other asset types have no
+ * data so no file is saved.
+ * @param agent Agent to download the assets from.
+ * @param bundleDIDorId Asset DID or assetId of the bundle.
+ * @param path Directory to save the bundle too, this is created if it does not exist.
+ * @param account Account of one of the recipients, needed to decrypt the encrypted DataAsset members.
+ * @returns The BundleAsset, with the downloaded member assets set.
+ */
+export async function downloadBundle(agent: IAgent, bundleDIDorId: string, path: string, account?: Account): Promise<BundleAsset> {
+    const bundle = await agent.getAsset(bundleDIDorId)
+    if (!(bundle instanceof BundleAsset)) {
+        throw new Error(`Bundle: Asset ${bundleDIDorId} is not a bundle`)
+    }
+    await fs.promises.mkdir(path, { recursive: true })
+    for (const name of Object.keys(bundle.assetList)) {
+        checkBundleMemberName(name)
+        const assetId = bundle.getAsset(name)
+        const member = await agent.getAsset(assetId)
+        if (!member) {
+            throw new Error(`Bundle: Unable to find member ${name} asset ${assetId}`)
+        }
+        const filename = pathJoin(path, name)
+        if (member instanceof BundleAsset) {
+            bundle.setMemberAsset(name, await downloadBundle(agent, member.did, filename, account))
+        } else if (member instanceof DataAsset) {
+            bundle.setMemberAsset(name, await agent.downloadAsset(member.did, filename, account))
+        } else {
+            bundle.setMemberAsset(name, member)
+        }
+    }
+    return bundle
+}
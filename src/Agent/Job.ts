@@ -0,0 +1,250 @@
+/*
+ *
+ *
+ *          Job functions for async invokes
+ *
+ *
+ *
+ */
+
+import { AssetBase, DataAsset, OperationAsset } from '../Asset/Asset'
+import { Account } from '../Account'
+import { DDO } from '../DDO/DDO'
+import { IAgent } from '../Interfaces/IAgent'
+import { IAgentAuthentication } from '../Interfaces/IAgentAuthentication'
+import { IInvokeOptions, IInvokeResult, IJobResult, IWaitForJobOptions } from '../Interfaces/IInvoke'
+import { IOperationParamList } from '../Interfaces/IMetadata'
+import { didParse, extractAssetId, isDID } from '../Utils'
+
+const DEFAULT_POLL_INTERVAL = 500
+const DEFAULT_MAX_POLL_INTERVAL = 10000
+const DEFAULT_BACKOFF_FACTOR = 2
+
+export interface IGetJob {
+    (jobId: string): Promise<IInvokeResult>
+}
+
+export interface ICreateAgent {
+    (ddo: DDO, authentication?: IAgentAuthentication): IAgent
+}
+
+/**
+ * Convert an invoke result returned by an agent to a typed job result.
+ * @param invokeResult Invoke result returned by the agent.
+ * @param jobId Job id to use if the invoke result does not have a `job-id`.
+ * @returns Job result with a status of 'succeeded', 'failed' or 'running'.
+ * @throws Error if there is no invoke result, the job is not known by the agent or has been removed.
+ */
+export function createJobResult(invokeResult: IInvokeResult, jobId?: string): IJobResult {
+    if (!invokeResult) {
+        throw new Error(`Job: Job ${jobId} not found`)
+    }
+    const safeJobId = invokeResult['job-id'] ? invokeResult['job-id'] : jobId
+    const status = invokeResult.status ? invokeResult.status.toLowerCase() : 'running'
+    if (status == 'succeeded' || status == 'completed') {
+        return { status: 'succeeded', jobId: safeJobId, outputs: invokeResult.outputs }
+    }
+    if (status == 'failed' || status == 'error') {
+        return { status: 'failed', jobId: safeJobId, error: invokeResult.error ? invokeResult.error : 'Job failed' }
+    }
+    return { status: 'running', jobId: safeJobId }
+}
+
+/**
+ * Poll a job until it has finished, the timeout has been reached or the wait has been aborted.
+ * The job is polled straight away, and the delay between each poll is increased by the backoff factor, up to
+ * the maximum poll interval.
+ * @param getJob Function to get the current state of the job from the agent.
+ * @param jobId Job id string or the InvokeResult returned by the async invoke call.
+ * @param options Options to control the polling.
+ * @returns The succeeded or failed job result, or the running job result if the timeout has been reached.
+ * @throws Error if the job is not found.
+ */
+export async function waitForJob(
+    getJob: IGetJob,
+    jobId: string | IInvokeResult,
+    options?: IWaitForJobOptions
+): Promise<IJobResult> {
+    const safeOptions = options ? options : {}
+    const safeJobId = typeof jobId === 'string' ? jobId : jobId['job-id']
+    const maxPollInterval = safeOptions.maxPollInterval !== undefined ? safeOptions.maxPollInterval : DEFAULT_MAX_POLL_INTERVAL
+    const backoffFactor = safeOptions.backoffFactor !== undefined ? safeOptions.backoffFactor : DEFAULT_BACKOFF_FACTOR
+    const endTime = safeOptions.timeout !== undefined ? Date.now() + safeOptions.timeout : undefined
+    let pollInterval = safeOptions.pollInterval !== undefined ? safeOptions.pollInterval : DEFAULT_POLL_INTERVAL
+    let lastStatus: string
+    for (;;) {
+        checkAborted(safeJobId, safeOptions.signal)
+        const job = createJobResult(await getJob(safeJobId), safeJobId)
+        if (safeOptions.onProgress) {
+            safeOptions.onProgress(job)
+        }
+        if (job.status != lastStatus && safeOptions.onStatusChange) {
+            safeOptions.onStatusChange(job)
+        }
+        lastStatus = job.status
+        if (job.status != 'running') {
+            return job
+        }
+        let delay = pollInterval
+        if (endTime !== undefined) {
+            const remaining = endTime - Date.now()
+            if (remaining <= 0) {
+                return job
+            }
+            delay = Math.min(delay, remaining)
+        }
+        await sleep(delay, safeJobId, safeOptions.signal)
+        pollInterval = Math.min(pollInterval * backoffFactor, maxPollInterval)
+    }
+}
+
+/**
+ * Return the asset DID or assetId of an output value, if the value is an asset reference.
+ * An asset reference is an object with a `did` field. If the output parameter is declared with the type `asset`,
+ * then the value can also be the asset DID or assetId string.
+ * @param value Output value to check.
+ * @param isAssetType True if the output parameter is declared with the type `asset`.
+ * @returns The asset DID or assetId, or null if the value is not an asset reference.
+ */
+export function getAssetReference(value: unknown, isAssetType?: boolean): string {
+    if (isAssetType && typeof value === 'string') {
+        return value
+    }
+    if (value && typeof value === 'object' && typeof value['did'] === 'string') {
+        if (isAssetType || (isDID(value['did']) && didParse(value['did']).path)) {
+            return value['did']
+        }
+    }
+    return null
+}
+
+/**
+ * Resolve an asset reference to an asset object. Assets held by other agents are resolved using the network.
+ * The data of a data asset is only downloaded when it is first needed.
+ * @param assetDIDorId Asset DID or assetId, an assetId is resolved using the agent.
+ * @param agent Agent that returned the asset reference.
+ * @param options Invoke options with the network and authentication to use for other agents.
+ * @param createAgent Function to create the agent for an asset held by another agent.
+ * @returns The asset object, using the metadata type, see {@link createAsset}.
+ */
+export async function resolveAssetReference(
+    assetDIDorId: string,
+    agent: IAgent,
+    options: IInvokeOptions,
+    createAgent?: ICreateAgent
+): Promise<AssetBase> {
+    const assetId = extractAssetId(assetDIDorId)
+    let sourceAgent = agent
+    if (isDID(assetDIDorId) && didParse(assetDIDorId).id != didParse(agent.ddo.id).id) {
+        if (!options.network) {
+            throw new Error(`Job: Unable to resolve asset ${assetDIDorId}, no network to resolve the agent`)
+        }
+        const ddo = await options.network.resolveAgent(assetDIDorId, null, null, options.authentication)
+        if (!ddo) {
+            throw new Error(`Job: Unable to resolve the agent for asset ${assetDIDorId}`)
+        }
+        if (!createAgent) {
+            throw new Error(`Job: Unable to resolve asset ${assetDIDorId}, no function to create the agent`)
+        }
+        sourceAgent = createAgent(ddo, options.authentication)
+    }
+    const asset = await sourceAgent.getAsset(assetId)
+    if (!asset) {
+        throw new Error(`Job: Unable to resolve asset ${assetDIDorId}`)
+    }
+    return setDataLoader(asset, sourceAgent)
+}
+
+/**
+ * Set the data loader of a DataAsset read from an agent, so that the data is only downloaded from the agent
+ * when it is first read.
+ * @param asset Asset read from the agent.
+ * @param agent Agent that the asset was read from.
+ * @param account Account of one of the recipients, needed to decrypt an encrypted asset.
+ * @returns The asset.
+ */
+export function setDataLoader(asset: AssetBase, agent: IAgent, account?: Account): AssetBase {
+    if (asset instanceof DataAsset && !asset.data && !asset.dataFilename) {
+        asset.dataLoader = async () => (await agent.downloadAsset(asset.getAssetId(), undefined, account)).getData()
+    }
+    return asset
+}
+
+/**
+ * Replace the asset references in the invoke outputs with asset objects.
+ * @param outputs Outputs returned by the operation.
+ * @param outputParamList Declared outputs of the operation, if not set any object with an asset `did` field
+ * is resolved.
+ * @param agent Agent that returned the outputs.
+ * @param options Invoke options with the network and authentication to use for other agents.
+ * @param createAgent Function to create the agent for an asset held by another agent.
+ * @returns A copy of the outputs with the asset references resolved.
+ */
+export async function resolveOutputAssets(
+    outputs: unknown,
+    outputParamList: IOperationParamList,
+    agent: IAgent,
+    options: IInvokeOptions,
+    createAgent?: ICreateAgent
+): Promise<unknown> {
+    if (!outputs || typeof outputs !== 'object' || Array.isArray(outputs)) {
+        return outputs
+    }
+    const result = { ...outputs }
+    for (const name of Object.keys(result)) {
+        const param = outputParamList ? outputParamList[name] : null
+        const assetReference = getAssetReference(result[name], param && param.type == 'asset')
+        if (assetReference) {
+            result[name] = await resolveAssetReference(assetReference, agent, options, createAgent)
+        }
+    }
+    return result
+}
+
+/**
+ * Resolve the asset references in the outputs of an invoke result, if the `resolveAssets` option is set.
+ * @param result Invoke result returned by the agent.
+ * @param operation Operation that was invoked, used to find the declared asset outputs.
+ * @param agent Agent that returned the result.
+ * @param options Invoke options.
+ * @param createAgent Function to create the agent for an asset held by another agent.
+ * @returns The invoke result, with the asset references in the outputs resolved.
+ */
+export async function resolveInvokeResult(
+    result: IInvokeResult,
+    operation: OperationAsset,
+    agent: IAgent,
+    options?: IInvokeOptions,
+    createAgent?: ICreateAgent
+): Promise<IInvokeResult> {
+    if (!options || !options.resolveAssets || !result || !result.outputs) {
+        return result
+    }
+    const operationData = operation ? operation.metadata.operation : null
+    const outputParamList = operationData ? operationData.outputs : null
+    return { ...result, outputs: await resolveOutputAssets(result.outputs, outputParamList, agent, options, createAgent) }
+}
+
+function checkAborted(jobId: string, signal: AbortSignal): void {
+    if (signal && signal.aborted) {
+        throw new Error(`Job: Wait for job ${jobId} aborted`)
+    }
+}
+
+function sleep(milliseconds: number, jobId: string, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer)
+            reject(new Error(`Job: Wait for job ${jobId} aborted`))
+        }
+        const timer = setTimeout(() => {
+            if (signal) {
+                signal.removeEventListener('abort', onAbort)
+            }
+            resolve()
+        }, milliseconds)
+        if (signal) {
+            signal.addEventListener('abort', onAbort)
+        }
+    })
+}
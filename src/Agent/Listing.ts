@@ -0,0 +1,227 @@
+/*
+ *
+ *
+ *          Listing functions for the market service
+ *
+ *
+ *
+ */
+
+import { IAgent } from '../Interfaces/IAgent'
+import { IListingData, IListingInfo, IListingInfoError, ListingStatus } from '../Interfaces/IListing'
+import { toCanonicalJSON, toWei } from '../Utils'
+
+const DEFAULT_LISTING_CURRENCY = 'DEX'
+const LISTING_CURRENCY_LIST = ['DEX', 'ETH']
+
+export class ListingInfoValidationError extends Error {
+    public errors: Array<IListingInfoError>
+    constructor(message: string, errors: Array<IListingInfoError>) {
+        super(`${message}: ${errors.map((error) => `${error.name}: ${error.message}`).join(', ')}`)
+        Object.setPrototypeOf(this, ListingInfoValidationError.prototype)
+        this.name = 'ListingInfoValidationError'
+        this.errors = errors
+    }
+}
+
+/**
+ * List of the listing status values that each listing status can be changed too.
+ */
+const LISTING_STATUS_TRANSITIONS = {
+    [ListingStatus.Unpublished]: [ListingStatus.Published, ListingStatus.Archived],
+    [ListingStatus.Published]: [ListingStatus.Unpublished, ListingStatus.Archived],
+    [ListingStatus.Archived]: [ListingStatus.Unpublished],
+}
+
+/**
+ * List of the listing status values that a listing can be deleted from.
+ */
+const LISTING_DELETE_STATUS_LIST = [ListingStatus.Unpublished, ListingStatus.Archived]
+
+/**
+ * Return true if a listing can change from one status to another. Setting the same status is always allowed.
+ * @param fromStatus Current status of the listing.
+ * @param toStatus New status of the listing.
+ */
+export function isListingStatusChangeAllowed(fromStatus: string, toStatus: string): boolean {
+    if (fromStatus == toStatus) {
+        return true
+    }
+    const statusList = LISTING_STATUS_TRANSITIONS[fromStatus]
+    return statusList ? statusList.indexOf(toStatus) >= 0 : false
+}
+
+/**
+ * Throw an error if the listing cannot change from one status to another.
+ * @param listingData Listing to check, this has the current status.
+ * @param toStatus New status of the listing.
+ */
+export function checkListingStatusChange(listingData: IListingData, toStatus: string): void {
+    if (!isListingStatusChangeAllowed(listingData.status, toStatus)) {
+        throw new Error(`Listing: Unable to change listing ${listingData.id} status from '${listingData.status}' to '${toStatus}'`)
+    }
+}
+
+/**
+ * Throw an error if the listing cannot be deleted, only unpublished or archived listings can be deleted.
+ * @param listingData Listing to check.
+ */
+export function checkListingDelete(listingData: IListingData): void {
+    if (LISTING_DELETE_STATUS_LIST.indexOf(<ListingStatus>listingData.status) < 0) {
+        throw new Error(`Listing: Unable to delete listing ${listingData.id} with the status '${listingData.status}'`)
+    }
+}
+
+/**
+ * Change the status of a listing, after checking that the status change is allowed.
+ * @param agent Agent that holds the listing.
+ * @param listing Listing id or the listing data returned by the agent.
+ * @param status New status of the listing.
+ * @returns The updated listing data.
+ */
+export async function changeListingStatus(
+    agent: IAgent,
+    listing: string | IListingData,
+    status: ListingStatus
+): Promise<IListingData> {
+    const listingId = typeof listing === 'string' ? listing : listing.id
+    const listingData = await agent.getListing(listingId)
+    if (!listingData) {
+        throw new Error(`Listing: Unable to change listing status, listing ${listingId} not found`)
+    }
+    checkListingStatusChange(listingData, status)
+    listingData.status = status
+    return agent.updateListing(listingData)
+}
+
+/**
+ * Validate the listing info. The price is optional, a listing without a price cannot be purchased.
+ * @param listingInfo Listing info to validate.
+ * @returns A list of errors, or an empty list if the listing info is valid.
+ */
+export function validateListingInfo(listingInfo: IListingInfo): Array<IListingInfoError> {
+    if (!listingInfo || typeof listingInfo !== 'object') {
+        return [{ name: 'info', message: 'must be an object' }]
+    }
+    const errors: Array<IListingInfoError> = []
+    const price = listingInfo.price
+    if (isListingPriced(listingInfo)) {
+        if (!(typeof price === 'number' || typeof price === 'string') || !(Number(price) >= 0)) {
+            errors.push({ name: 'price', message: 'must be a number that is zero or more' })
+        } else {
+            try {
+                toWei(price)
+            } catch (error) {
+                errors.push({ name: 'price', message: 'cannot be converted to wei' })
+            }
+        }
+    }
+    const currency = listingInfo.currency
+    if (currency !== undefined && (typeof currency !== 'string' || !isListingCurrency(currency))) {
+        errors.push({ name: 'currency', message: `must be one of ${LISTING_CURRENCY_LIST.join(', ')} or a token address` })
+    }
+    const paymentAddress = listingInfo.paymentAddress
+    if (paymentAddress !== undefined && !/^0x[0-9a-f]{40}$/i.test(paymentAddress)) {
+        errors.push({ name: 'paymentAddress', message: 'must be an account address' })
+    }
+    const license = listingInfo.license
+    if (license !== undefined && (!license || typeof license.name !== 'string' || !license.name)) {
+        errors.push({ name: 'license.name', message: 'is required' })
+    }
+    for (const name of ['validFrom', 'validTo']) {
+        if (listingInfo[name] !== undefined && isNaN(Date.parse(<string>listingInfo[name]))) {
+            errors.push({ name: name, message: 'must be an ISO date' })
+        }
+    }
+    if (listingInfo.validFrom && listingInfo.validTo && Date.parse(listingInfo.validTo) <= Date.parse(listingInfo.validFrom)) {
+        errors.push({ name: 'validTo', message: 'must be after validFrom' })
+    }
+    const access = listingInfo.access
+    if (access !== undefined) {
+        if (!access || typeof access !== 'object') {
+            errors.push({ name: 'access', message: 'must be an object' })
+        } else {
+            if (access.type !== undefined && typeof access.type !== 'string') {
+                errors.push({ name: 'access.type', message: 'must be a string' })
+            }
+            if (access.duration !== undefined && !(typeof access.duration === 'number' && access.duration > 0)) {
+                errors.push({ name: 'access.duration', message: 'must be a number of seconds more than zero' })
+            }
+            if (access.maxDownloads !== undefined && !(Number.isInteger(access.maxDownloads) && access.maxDownloads > 0)) {
+                errors.push({ name: 'access.maxDownloads', message: 'must be an integer more than zero' })
+            }
+        }
+    }
+    return errors
+}
+
+/**
+ * Throw an error if the listing info is not valid.
+ * @param listingInfo Listing info to validate.
+ * @throws ListingInfoValidationError with a list of the invalid fields.
+ */
+export function checkListingInfo(listingInfo: IListingInfo): void {
+    const errors = validateListingInfo(listingInfo)
+    if (errors.length > 0) {
+        throw new ListingInfoValidationError('Listing: Invalid listing info', errors)
+    }
+}
+
+/**
+ * Return true if the listing info has been changed, the keys of the info can be in any order.
+ * @param fromListingInfo Listing info saved by the agent.
+ * @param toListingInfo New listing info.
+ */
+export function isListingInfoChanged(fromListingInfo: IListingInfo, toListingInfo: IListingInfo): boolean {
+    return toCanonicalJSON(fromListingInfo) !== toCanonicalJSON(toListingInfo)
+}
+
+/**
+ * Return true if the currency is a known currency or a token contract address.
+ * @param currency Currency symbol or token contract address.
+ */
+export function isListingCurrency(currency: string): boolean {
+    return LISTING_CURRENCY_LIST.indexOf(currency.toUpperCase()) >= 0 || /^0x[0-9a-f]{40}$/i.test(currency)
+}
+
+/**
+ * Return the currency of the listing, defaults to 'DEX' if not set.
+ * @param listingInfo Listing info of the listing.
+ */
+export function getListingCurrency(listingInfo: IListingInfo): string {
+    return listingInfo.currency ? listingInfo.currency : DEFAULT_LISTING_CURRENCY
+}
+
+/**
+ * Return true if the listing has a price set.
+ * @param listingInfo Listing info of the listing.
+ */
+export function isListingPriced(listingInfo: IListingInfo): boolean {
+    const price = listingInfo.price
+    return price !== undefined && price !== null && price !== ''
+}
+
+/**
+ * Return the price of the listing in wei.
+ * @param listingInfo Listing info of the listing.
+ * @returns The price in wei as a string.
+ */
+export function getListingPriceWei(listingInfo: IListingInfo): string {
+    return toWei(listingInfo.price)
+}
+
+/**
+ * Return true if the listing is valid at the time given.
+ * @param listingInfo Listing info of the listing.
+ * @param date Date to check, defaults to now.
+ */
+export function isListingValid(listingInfo: IListingInfo, date?: Date): boolean {
+    const time = date ? date.getTime() : Date.now()
+    if (listingInfo.validFrom && time < Date.parse(listingInfo.validFrom)) {
+        return false
+    }
+    if (listingInfo.validTo && time > Date.parse(listingInfo.validTo)) {
+        return false
+    }
+    return true
+}
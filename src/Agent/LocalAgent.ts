@@ -0,0 +1,770 @@
+/**
+ *
+ *
+ *    Local Agent class
+ *
+ *
+ *
+ */
+
+import { randomHex } from 'web3-utils'
+
+import { AgentBase } from './AgentBase'
+import { RemoteAgent } from './RemoteAgent'
+import { resolveInvokeResult, waitForJob } from './Job'
+import {
+    changeListingStatus,
+    checkListingDelete,
+    checkListingInfo,
+    checkListingStatusChange,
+    isListingInfoChanged,
+} from './Listing'
+import { downloadBundle, registerBundle } from './Bundle'
+import { getAssetVersionList, getLatestAssetVersion, registerAssetVersion } from './Version'
+import { purchaseAsset, verifyPurchasePayment } from './Purchase'
+import { AssetBase, DataAsset, OperationAsset } from '../Asset/Asset'
+import { BundleAsset } from '../Asset/BundleAsset'
+import { IAgent } from '../Interfaces/IAgent'
+import { IAgentAuthentication } from '../Interfaces/IAgentAuthentication'
+import { IAgentStorage } from '../Interfaces/IAgentStorage'
+import { IAssetFilter } from '../Interfaces/IAsset'
+import { IMetadataList } from '../Interfaces/IMetadata'
+import { IListingData, IListingFilter, IListingInfo, IListingHistoryItem, ListingStatus } from '../Interfaces/IListing'
+import { IInvokeOptions, IInvokeResult, IJobResult, IOperationHandler, IWaitForJobOptions } from '../Interfaces/IInvoke'
+import { IUploadOptions, IAssetChunkList } from '../Interfaces/IUpload'
+import { IPurchaseData, IPurchaseProof, IPurchaseResult } from '../Interfaces/IPurchase'
+import { ITrustLevel, ITrustPolicy, TrustSubjectType } from '../Interfaces/ITrust'
+import { extractAssetId, removeLeadingHexZero } from '../Utils'
+import { calculateAssetDataHash } from '../Crypto'
+import { DDO } from '../DDO/DDO'
+import { MemoryAgentStorage } from '../Storage/MemoryAgentStorage'
+import { filterMetadataList } from '../Asset/AssetFilter'
+import { createAsset } from '../Asset/AssetFactory'
+import { Account } from '../Account'
+import { Network } from '../Network'
+
+const DEFAULT_TRUST_POLICY: ITrustPolicy = {
+    minLevel: 0,
+    maxLevel: 10,
+    defaultLevel: 0,
+}
+
+export class LocalAgent extends AgentBase implements IAgent {
+    /**
+     * Authentication data, the username is used as the `userid` for any listings created by this agent.
+     */
+    public authentication: IAgentAuthentication
+
+    /**
+     * Storage used to save the assets, data, listings and jobs.
+     */
+    public storage: IAgentStorage
+
+    /**
+     * Network used to verify the payments of purchases sent to this agent, see {@link addPurchase}.
+     */
+    public network: Network
+
+    /**
+     * Trust policy of this agent, this sets the range of trust levels that can be given to users and assets.
+     */
+    public trustPolicy: ITrustPolicy
+
+    protected operationList: Map<string, IOperationHandler>
+    protected pendingPurchaseTxHashList: Set<string>
+
+    /**
+     * Create a new LocalAgent object.
+     * @param did Optional DID to assign to the agent, if not provided a random DID is used.
+     * @param authentication Optional authentication data, the username is used as the owner of any listings.
+     * @param storage Optional storage to use, defaults to storing everything in memory.
+     * @returns a new LocalAgent object
+     * @category Static Create
+     */
+    public static create(did?: string, authentication?: IAgentAuthentication, storage?: IAgentStorage): LocalAgent {
+        return new LocalAgent(DDO.create(did), authentication, storage)
+    }
+
+    /**
+     * @internal
+     * Deep copy a JSON object, so that the callers cannot change the data held by the agent.
+     */
+    protected static copyObject<T>(value: T): T {
+        if (value === undefined) {
+            return value
+        }
+        return JSON.parse(JSON.stringify(value))
+    }
+
+    /**
+     * Construct a new LocalAgent object. All assets, data, listings and jobs are saved in the storage object,
+     * by default these are held in memory for the life time of this object.
+     * @param ddo DDO to use for this agent, if not provided an empty DDO with a random DID is used.
+     * @param authentication Authentication data for this agent.
+     * @param storage Storage to use for this agent, defaults to a {@link MemoryAgentStorage} object.
+     */
+    constructor(ddo?: DDO, authentication?: IAgentAuthentication, storage?: IAgentStorage) {
+        super(ddo ? ddo : DDO.create())
+        this.authentication = authentication
+        this.storage = storage ? storage : new MemoryAgentStorage()
+        this.operationList = new Map<string, IOperationHandler>()
+        this.pendingPurchaseTxHashList = new Set<string>()
+        this.trustPolicy = { ...DEFAULT_TRUST_POLICY }
+    }
+
+    /**
+     * Register a new asset with this agent.
+     * @param asset Asset to register.
+     * @returns The asset with the DID and assetId set
+     */
+    public async registerAsset(asset: AssetBase): Promise<AssetBase> {
+        const assetId = asset.calculateAssetId()
+        await this.storage.saveMetadata(assetId, asset.metadataText)
+        asset.did = this.generateDIDForAsset(assetId)
+        return asset
+    }
+
+    /**
+     * Get an asset from the agent.
+     * @param assetId This can be a full assetDID `<agentDID>/<assetId>` or just an assetId
+     * @returns The asset found saved in the agent, else null for not found. The asset is a DataAsset, OperationAsset,
+     * BundleAsset or an asset of a registered type, using the metadata `type`, see {@link createAsset}.
+     */
+    public async getAsset(assetId: string): Promise<AssetBase> {
+        const safeAssetId = extractAssetId(assetId)
+        const metadataText = await this.storage.readMetadata(safeAssetId)
+        if (!metadataText) {
+            return null
+        }
+        return createAsset(metadataText, this.generateDIDForAsset(safeAssetId))
+    }
+
+    /**
+     * Get a page of the assets registered with the agent.
+     * @param from Index of the first asset to return, defaults to 0.
+     * @param size Maximum number of assets to return, defaults to all of the assets.
+     * @returns A list of DataAsset, OperationAsset or AssetBase objects.
+     */
+    public async listAssets(from?: number, size?: number): Promise<Array<AssetBase>> {
+        return this.searchAssets({ from: from, size: size })
+    }
+
+    /**
+     * Search for assets registered with the agent.
+     * @param filter Filter on the asset text, type, tags, creator and date created, with paging.
+     * @returns A list of DataAsset, OperationAsset or AssetBase objects that match the filter.
+     */
+    public async searchAssets(filter?: IAssetFilter): Promise<Array<AssetBase>> {
+        const metadataList: IMetadataList = {}
+        const metadataTextList = new Map<string, string>()
+        for (const assetId of await this.storage.getMetadataIdList()) {
+            const metadataText = await this.storage.readMetadata(assetId)
+            metadataList[assetId] = JSON.parse(metadataText)
+            metadataTextList.set(assetId, metadataText)
+        }
+        const result = filterMetadataList(metadataList, filter)
+        return Object.keys(result).map((assetId) => createAsset(metadataTextList.get(assetId), this.generateDIDForAsset(assetId)))
+    }
+
+    /**
+     * Upload data asset's data. The asset must have been registered with this agent.
+     * @param asset Data asset data to upload.
+     * @param options Upload options, only the `onProgress` callback is used, since the data is saved in one chunk.
+     * @return True if uploaded
+     * @throws Error if the asset has no data to upload.
+     */
+    public async uploadAsset(asset: DataAsset, options?: IUploadOptions): Promise<boolean> {
+        const assetId = asset.getAssetId()
+        const data = await asset.getStoredData()
+        if (data === null) {
+            throw new Error(`LocalAgent: Asset ${assetId} has no data to upload`)
+        }
+        await this.uploadAssetData(assetId, data)
+        if (options && options.onProgress) {
+            options.onProgress({ assetId: assetId, bytesSent: data.length, totalBytes: data.length, chunkIndex: 0, chunkCount: 1 })
+        }
+        return true
+    }
+
+    /**
+     * Save the asset data as it is stored, if the asset data is compressed then this is the compressed data.
+     * The asset must have been registered with this agent.
+     * @param assetDIDorId AssetDID or assetId of the asset.
+     * @param data Stored data of the asset, see {@link DataAsset.getStoredData}.
+     * @return True if saved
+     */
+    public async uploadAssetData(assetDIDorId: string, data: Buffer): Promise<boolean> {
+        const assetId = extractAssetId(assetDIDorId)
+        await this.checkAssetRegistered(assetId)
+        await this.storage.saveAssetData(assetId, data)
+        return true
+    }
+
+    /**
+     * Read the asset data as it is stored, if the asset data is compressed then this is the compressed data.
+     * @param assetDIDorId AssetDID or assetId of the asset.
+     * @returns The stored data, or null if no data has been saved.
+     */
+    public async downloadAssetData(assetDIDorId: string): Promise<Buffer> {
+        const data = await this.storage.readAssetData(extractAssetId(assetDIDorId))
+        return data ? data : null
+    }
+
+    /**
+     * Save a chunk of the asset data. When all of the chunks have been saved, call {@link completeAssetChunks}
+     * to join the chunks together as the asset data.
+     * @param assetDIDorId AssetDID or assetId of the asset.
+     * @param index Index of the chunk, starting from 0.
+     * @param data Chunk data.
+     * @param hash Optional hash of the chunk data, if provided the chunk data must match the hash.
+     * @returns The hash of the saved chunk data.
+     */
+    public async uploadAssetChunk(assetDIDorId: string, index: number, data: Buffer, hash?: string): Promise<string> {
+        const assetId = extractAssetId(assetDIDorId)
+        await this.checkAssetRegistered(assetId)
+        const dataHash = calculateAssetDataHash(data)
+        if (hash && hash != dataHash) {
+            throw new Error(`LocalAgent: Asset ${assetId} chunk ${index} hash does not match the chunk data`)
+        }
+        await this.storage.saveAssetDataChunk(assetId, index, data)
+        return dataHash
+    }
+
+    /**
+     * Get the list of asset data chunks that have been saved.
+     * @param assetDIDorId AssetDID or assetId of the asset.
+     * @returns A list of chunk index -> chunk hash.
+     */
+    public async getAssetChunkList(assetDIDorId: string): Promise<IAssetChunkList> {
+        const assetId = extractAssetId(assetDIDorId)
+        const chunkList: IAssetChunkList = {}
+        for (const index of await this.storage.getAssetDataChunkIndexList(assetId)) {
+            chunkList[index] = calculateAssetDataHash(await this.storage.readAssetDataChunk(assetId, index))
+        }
+        return chunkList
+    }
+
+    /**
+     * Join the saved asset data chunks together, and save the result as the asset data.
+     * @param assetDIDorId AssetDID or assetId of the asset.
+     * @param chunkCount Number of chunks to join, all of the chunks must have been saved.
+     * @return True if the asset data has been saved.
+     */
+    public async completeAssetChunks(assetDIDorId: string, chunkCount: number): Promise<boolean> {
+        const assetId = extractAssetId(assetDIDorId)
+        await this.checkAssetRegistered(assetId)
+        const chunks: Array<Buffer> = []
+        for (let index = 0; index < chunkCount; index++) {
+            const chunk = await this.storage.readAssetDataChunk(assetId, index)
+            if (!chunk) {
+                throw new Error(`LocalAgent: Asset ${assetId} chunk ${index} has not been uploaded`)
+            }
+            chunks.push(chunk)
+        }
+        await this.storage.saveAssetData(assetId, Buffer.concat(chunks))
+        await this.storage.deleteAssetDataChunks(assetId)
+        return true
+    }
+
+    /**
+     * Download the assets data from the agent.
+     * @param assetDIDorId AssetDID or assetId of the asset to download
+     * @param filename Optional filename to save the data too, if set the asset `dataFilename` is set to the filename.
+     * @param account Account of one of the recipients, needed to decrypt an encrypted asset.
+     * @returns DataAsset with the data downloaded, or null for no asset found.
+     * @throws Error if the asset is not a DataAsset.
+     */
+    public async downloadAsset(assetDIDorId: string, filename?: string, account?: Account): Promise<DataAsset> {
+        const assetId = extractAssetId(assetDIDorId)
+        const asset = await this.getAsset(assetId)
+        if (!asset) {
+            return null
+        }
+        if (!(asset instanceof DataAsset)) {
+            throw new Error(`LocalAgent: Asset ${assetId} is not a data asset`)
+        }
+        const data = await this.downloadAssetData(assetId)
+        if (data) {
+            await asset.setStoredData(data, account)
+        }
+        if (filename && data) {
+            await asset.saveToFile(filename)
+            asset.data = undefined
+            asset.dataFilename = filename
+        }
+        return asset
+    }
+
+    /**
+     * Register a bundle and all of it's member assets with the agent, nested bundles are also registered.
+     * The data of each DataAsset member is uploaded.
+     * @param bundle Bundle to register, with the member assets set, see {@link BundleAsset.setMemberAsset}.
+     * @param options Upload options to use for each DataAsset member.
+     * @returns A new registered BundleAsset, with the assetId of each member set in the bundle contents.
+     */
+    public async registerBundle(bundle: BundleAsset, options?: IUploadOptions): Promise<BundleAsset> {
+        return registerBundle(this, bundle, options)
+    }
+
+    /**
+     * Download a bundle and all of it's member assets into a directory. DataAsset members are saved as files and
+     * nested bundles are saved as sub directories.
+     * @param bundleDIDorId Asset DID or assetId of the bundle.
+     * @param path Directory to save the bundle too.
+     * @param account Account of one of the recipients, needed to decrypt the encrypted DataAsset members.
+     * @returns The BundleAsset, with the downloaded member assets set.
+     */
+    public async downloadBundle(bundleDIDorId: string, path: string, account?: Account): Promise<BundleAsset> {
+        return downloadBundle(this, bundleDIDorId, path, account)
+    }
+
+    /**
+     * Register a new version of an asset with the agent. A 'previous-version' link is added to the asset metadata,
+     * and the new version can be anchored on the network using the provenance contract.
+     * @param asset Asset with the metadata of the new version.
+     * @param previousAssetDIDorId Asset DID or assetId of the previous version, this must be registered with the agent.
+     * @param network Network to anchor the new version on, if not set the version is not anchored.
+     * @param account Account to register the provenance of the new version with.
+     * @returns The registered asset of the new version.
+     */
+    public async registerAssetVersion(
+        asset: AssetBase,
+        previousAssetDIDorId: string,
+        network?: Network,
+        account?: Account
+    ): Promise<AssetBase> {
+        return registerAssetVersion(this, asset, previousAssetDIDorId, network, account)
+    }
+
+    /**
+     * Return the version history of an asset, by following the 'previous-version' links.
+     * @param assetDIDorId Asset DID or assetId of the asset.
+     * @returns A list of the asset versions, starting with the asset and ending with the oldest version found.
+     */
+    public async getAssetVersionList(assetDIDorId: string): Promise<Array<AssetBase>> {
+        return getAssetVersionList(this, assetDIDorId)
+    }
+
+    /**
+     * Return the latest version of an asset that is registered with the agent.
+     * @param assetDIDorId Asset DID or assetId of any version of the asset.
+     * @returns The latest version of the asset.
+     */
+    public async getLatestAssetVersion(assetDIDorId: string): Promise<AssetBase> {
+        return getLatestAssetVersion(this, assetDIDorId)
+    }
+
+    /**
+     * Create a new listing on the agent.
+     * @param listingInfo The listing information, with the price, currency, licence, validity period and access terms.
+     * @param assedDIDorId Asset DID or assetId for the associtated asset for this listing.
+     * @param userId Optional user id of the owner of the listing, defaults to the authentication username.
+     * @returns A listing data object, the `.info` property contains the `listingInfo`.
+     * @throws ListingInfoValidationError if the listing info is not valid.
+     */
+    public async createListing(listingInfo: IListingInfo, assetDIDorId: string, userId?: string): Promise<IListingData> {
+        checkListingInfo(listingInfo)
+        const assetId = extractAssetId(assetDIDorId)
+        const timestamp = new Date(Date.now()).toISOString()
+        const listingData: IListingData = {
+            id: removeLeadingHexZero(randomHex(32)),
+            assetid: assetId,
+            userid: userId ? userId : this.authentication ? this.authentication.username : null,
+            trust_level: (await this.getAssetTrustLevel(assetId)).level,
+            status: ListingStatus.Unpublished,
+            info: LocalAgent.copyObject(listingInfo),
+            ctime: timestamp,
+            utime: timestamp,
+        }
+        await this.storage.saveListing(listingData)
+        await this.storage.addListingHistory({
+            listingid: listingData.id,
+            status: listingData.status,
+            userid: listingData.userid,
+            time: timestamp,
+        })
+        return listingData
+    }
+
+    /**
+     * Update a listing. You need to get the listingData by calling the @{link getListing} or {@link createListing}.
+     * Only the `status`, `agreement` and `info` fields can be changed, and the status can only be changed
+     * to a status that is allowed from the current status.
+     * @param listingData The full listing data object that was returned after a @{link getListing} or {@link createListing}.
+     * @returns a new updated IListingData object.
+     * @throws ListingInfoValidationError if the listing info has been changed and is not valid.
+     */
+    public async updateListing(listingData: IListingData): Promise<IListingData> {
+        const savedListingData = await this.storage.readListing(listingData.id)
+        if (!savedListingData) {
+            throw new Error(`LocalAgent: Unable to update listing, listing ${listingData.id} not found`)
+        }
+        checkListingStatusChange(savedListingData, listingData.status)
+        if (isListingInfoChanged(savedListingData.info, listingData.info)) {
+            checkListingInfo(listingData.info)
+        }
+        const isStatusChanged = savedListingData.status != listingData.status
+        savedListingData.status = listingData.status
+        savedListingData.agreement = listingData.agreement
+        savedListingData.info = LocalAgent.copyObject(listingData.info)
+        savedListingData.utime = new Date(Date.now()).toISOString()
+        await this.storage.saveListing(savedListingData)
+        if (isStatusChanged) {
+            await this.storage.addListingHistory({
+                listingid: savedListingData.id,
+                status: savedListingData.status,
+                userid: savedListingData.userid,
+                time: savedListingData.utime,
+            })
+        }
+        return savedListingData
+    }
+
+    /**
+     * Publish a listing, so that it can be found and purchased.
+     * @param listing Listing id or the listing data.
+     * @returns The updated listing data.
+     */
+    public async publishListing(listing: string | IListingData): Promise<IListingData> {
+        return changeListingStatus(this, listing, ListingStatus.Published)
+    }
+
+    /**
+     * Unpublish a listing, so that it can be changed or deleted.
+     * @param listing Listing id or the listing data.
+     * @returns The updated listing data.
+     */
+    public async unpublishListing(listing: string | IListingData): Promise<IListingData> {
+        return changeListingStatus(this, listing, ListingStatus.Unpublished)
+    }
+
+    /**
+     * Archive a listing that is no longer used.
+     * @param listing Listing id or the listing data.
+     * @returns The updated listing data.
+     */
+    public async archiveListing(listing: string | IListingData): Promise<IListingData> {
+        return changeListingStatus(this, listing, ListingStatus.Archived)
+    }
+
+    /**
+     * Delete a listing, only unpublished or archived listings can be deleted.
+     * @param listing Listing id or the listing data.
+     * @returns True if the listing was deleted.
+     */
+    public async deleteListing(listing: string | IListingData): Promise<boolean> {
+        const listingId = typeof listing === 'string' ? listing : listing.id
+        const listingData = await this.storage.readListing(listingId)
+        if (!listingData) {
+            throw new Error(`LocalAgent: Unable to delete listing, listing ${listingId} not found`)
+        }
+        checkListingDelete(listingData)
+        await this.storage.deleteListing(listingId)
+        return true
+    }
+
+    /**
+     * Get the history of status changes of a listing.
+     * @param listingId Listing id of the listing.
+     * @returns A list of status changes, oldest first.
+     */
+    public async getListingHistory(listingId: string): Promise<Array<IListingHistoryItem>> {
+        return this.storage.getListingHistory(listingId)
+    }
+
+    /**
+     * Get a listing from the agent.
+     * @param listingId Id of the listing data.
+     * @returns a valid IListingData Object, or null if not found.
+     */
+    public async getListing(listingId: string): Promise<IListingData> {
+        return this.storage.readListing(listingId)
+    }
+
+    /**
+     * Get a list of listing data objects.
+     * @param filter The filter to use to get a list of listing data items.
+     * @returns an Array of IListingData items found using the filter.
+     */
+    public async getListingList(filter?: IListingFilter): Promise<Array<IListingData>> {
+        const userid = filter && (filter.userid || filter.username)
+        const minTrustLevel = filter && filter.minTrustLevel !== undefined ? filter.minTrustLevel : null
+        let result = (await this.storage.getListingList()).filter((listingData: IListingData) => {
+            return (!userid || listingData.userid == userid) && (minTrustLevel === null || listingData.trust_level >= minTrustLevel)
+        })
+        if (filter) {
+            const from = filter.from ? filter.from : 0
+            const size = filter.size ? filter.size : result.length
+            result = result.slice(from, from + size)
+        }
+        return result
+    }
+
+    /**
+     * Get the trust policy of this agent.
+     */
+    public async getTrustPolicy(): Promise<ITrustPolicy> {
+        return LocalAgent.copyObject(this.trustPolicy)
+    }
+
+    /**
+     * Get the trust level of a user.
+     * @param userId User id of the user.
+     * @returns The trust level of the user, or the default trust level of the policy if not set.
+     */
+    public async getUserTrustLevel(userId: string): Promise<ITrustLevel> {
+        return this.readTrustLevel('user', userId)
+    }
+
+    /**
+     * Set the trust level of a user.
+     * @param userId User id of the user.
+     * @param level Trust level, this must be within the range of the trust policy.
+     * @returns The new trust level of the user.
+     */
+    public async setUserTrustLevel(userId: string, level: number): Promise<ITrustLevel> {
+        return this.saveTrustLevel('user', userId, level)
+    }
+
+    /**
+     * Get the trust level of an asset.
+     * @param assetDIDorId Asset DID or assetId of the asset.
+     * @returns The trust level of the asset, or the default trust level of the policy if not set.
+     */
+    public async getAssetTrustLevel(assetDIDorId: string): Promise<ITrustLevel> {
+        return this.readTrustLevel('asset', extractAssetId(assetDIDorId))
+    }
+
+    /**
+     * Set the trust level of an asset. The trust level of the listings for this asset are also changed.
+     * @param assetDIDorId Asset DID or assetId of the asset.
+     * @param level Trust level, this must be within the range of the trust policy.
+     * @returns The new trust level of the asset.
+     */
+    public async setAssetTrustLevel(assetDIDorId: string, level: number): Promise<ITrustLevel> {
+        const assetId = extractAssetId(assetDIDorId)
+        const trustLevel = await this.saveTrustLevel('asset', assetId, level)
+        for (const listingData of await this.storage.getListingList()) {
+            if (listingData.assetid == assetId) {
+                listingData.trust_level = level
+                await this.storage.saveListing(listingData)
+            }
+        }
+        return trustLevel
+    }
+
+    /**
+     * Record a purchase of a listing. The payment is verified using the agent `network`, the payment must be
+     * for the listing price, sent to the listing payment address with the listing id and asset id as references.
+     * The proof must be signed by the account that sent the payment, and each payment transaction can only be
+     * used for one purchase.
+     * @param proof Purchase proof of the payment made by the purchaser, see {@link signPurchaseProof}.
+     * @param userId Optional user id of the purchaser, defaults to the authentication username.
+     * @returns The purchase data.
+     */
+    public async addPurchase(proof: IPurchaseProof, userId?: string): Promise<IPurchaseData> {
+        if (!this.network) {
+            throw new Error('LocalAgent: Unable to verify the purchase payment, no network has been set')
+        }
+        const listingData = await this.storage.readListing(proof.listingid)
+        if (!listingData) {
+            throw new Error(`LocalAgent: Unable to add purchase, listing ${proof.listingid} not found`)
+        }
+        const txHash = String(proof.txHash).toLowerCase()
+        if (this.pendingPurchaseTxHashList.has(txHash)) {
+            throw new Error(`LocalAgent: The purchase payment ${proof.txHash} has already been used`)
+        }
+        this.pendingPurchaseTxHashList.add(txHash)
+        try {
+            if (await this.isPurchaseTxHashUsed(txHash)) {
+                throw new Error(`LocalAgent: The purchase payment ${proof.txHash} has already been used`)
+            }
+            if (!(await verifyPurchasePayment(this.network, listingData, proof))) {
+                throw new Error(`LocalAgent: Unable to verify the purchase payment for listing ${proof.listingid}`)
+            }
+            const purchaseData: IPurchaseData = {
+                id: removeLeadingHexZero(randomHex(32)),
+                listingid: listingData.id,
+                userid: userId ? userId : this.authentication ? this.authentication.username : null,
+                status: 'paid',
+                info: LocalAgent.copyObject(proof),
+                ctime: new Date(Date.now()).toISOString(),
+            }
+            await this.storage.savePurchase(purchaseData)
+            return purchaseData
+        } finally {
+            this.pendingPurchaseTxHashList.delete(txHash)
+        }
+    }
+
+    /**
+     * Get a purchase from the agent.
+     * @param purchaseId Purchase id returned by {@link addPurchase}.
+     * @returns The purchase data, or null if not found.
+     */
+    public async getPurchase(purchaseId: string): Promise<IPurchaseData> {
+        return this.storage.readPurchase(purchaseId)
+    }
+
+    /**
+     * @internal
+     * Return true if a saved purchase has been paid with the payment transaction.
+     */
+    protected async isPurchaseTxHashUsed(txHash: string): Promise<boolean> {
+        const purchaseList = await this.storage.getPurchaseList()
+        return purchaseList.some((purchaseData) => purchaseData.info.txHash && purchaseData.info.txHash.toLowerCase() == txHash)
+    }
+
+    /**
+     * Purchase a listed asset from this agent, by paying the listing price on the network.
+     * @param network Network to send the payment on.
+     * @param account Account of the purchaser, this account pays for the listing and signs the purchase proof.
+     * @param listing Listing id or the listing data.
+     * @returns The purchase data and the purchased asset.
+     */
+    public async purchaseAsset(network: Network, account: Account, listing: string | IListingData): Promise<IPurchaseResult> {
+        return purchaseAsset(this, network, account, listing)
+    }
+
+    /**
+     * Register an operation that can be called using {@link invoke}. The operation asset is
+     * registered with this agent, and the handler is called with the inputs of each invoke.
+     * @param asset Operation asset to register.
+     * @param handler Function to call for each invoke of this operation. The returned value is used as the `outputs`.
+     * @returns The registered operation asset with the DID and assetId set.
+     */
+    public async registerOperation(asset: OperationAsset, handler: IOperationHandler): Promise<OperationAsset> {
+        await this.registerAsset(asset)
+        this.operationList.set(asset.getAssetId(), handler)
+        return asset
+    }
+
+    /**
+     * Invoke an operation on this agent. The operation must be registered using {@link registerOperation}.
+     * @param asset AssetId or AssetDID as a string, or OperationAsset.
+     * @param inputs Object for the invoke service to be passed.
+     * @Param isAsync If true run the invokable service as async, defaults to False - run as a sync service.
+     * @param options Invoke options, set `resolveAssets` to replace asset references in the outputs with asset objects.
+     * @returns The `outputs` and `status`, if the invoke is sync, else for async just return the `job-id`
+     * @throws OperationValidationError if the operation does not allow the invoke mode, or the inputs or
+     * the returned outputs do not match the operation's declared parameters.
+     */
+    public async invoke(
+        asset: string | OperationAsset,
+        inputs?: unknown,
+        isAsync?: boolean,
+        options?: IInvokeOptions
+    ): Promise<IInvokeResult> {
+        let assetId
+        if (typeof asset == 'string') {
+            assetId = extractAssetId(asset)
+        } else {
+            assetId = asset.getAssetId()
+        }
+        const handler = this.operationList.get(assetId)
+        if (!handler) {
+            throw new Error(`LocalAgent: Unable to call invoke, operation ${assetId} not found`)
+        }
+        const operation = await this.getAsset(assetId)
+        if (!(operation instanceof OperationAsset)) {
+            throw new Error(`LocalAgent: Unable to call invoke, asset ${assetId} is not an operation`)
+        }
+        operation.checkInvoke(inputs, isAsync)
+        const jobId = removeLeadingHexZero(randomHex(32))
+        const job: IInvokeResult = { 'job-id': jobId, status: 'running' }
+        await this.storage.saveJob(job)
+        const jobRun = this.runJob(job, handler, LocalAgent.copyObject(inputs))
+        if (isAsync) {
+            return { 'job-id': jobId }
+        }
+        await jobRun
+        const result = await this.getJob(jobId)
+        if (result.status == 'succeeded') {
+            operation.checkOutputs(result.outputs)
+        }
+        return resolveInvokeResult(result, operation, this, options, RemoteAgent.createFromDDO)
+    }
+
+    /**
+     * Get a job from the agent.
+     * @param jobId Job id string or the InvokeResult returned by the async invoke call.
+     * @param options Invoke options, set `resolveAssets` to replace asset references in the outputs with asset objects.
+     * @returns A new InovkeResult on the status and results of the job, or null if not found.
+     */
+    public async getJob(jobId: string | IInvokeResult, options?: IInvokeOptions): Promise<IInvokeResult> {
+        let safeJobId
+        if (typeof jobId === 'string') {
+            safeJobId = jobId
+        } else {
+            safeJobId = jobId['job-id']
+        }
+        return resolveInvokeResult(await this.storage.readJob(safeJobId), null, this, options, RemoteAgent.createFromDDO)
+    }
+
+    /**
+     * Wait for an async invoke job to finish, polling the agent with an increasing delay between each poll.
+     * @param jobId Job id string or the InvokeResult returned by the async invoke call.
+     * @param options Poll interval, backoff, timeout, abort signal and event callbacks.
+     * @returns The succeeded or failed job result, or the running job result if the timeout has been reached.
+     */
+    public async waitForJob(jobId: string | IInvokeResult, options?: IWaitForJobOptions): Promise<IJobResult> {
+        return waitForJob((safeJobId) => this.getJob(safeJobId), jobId, options)
+    }
+
+    /**
+     * @internal
+     * Read a trust level, if not found return the default trust level of the policy.
+     */
+    protected async readTrustLevel(type: TrustSubjectType, subject: string): Promise<ITrustLevel> {
+        const trustLevel = await this.storage.readTrustLevel(type, subject)
+        if (trustLevel) {
+            return trustLevel
+        }
+        return { type: type, subject: subject, level: this.trustPolicy.defaultLevel, utime: null }
+    }
+
+    /**
+     * @internal
+     * Save a trust level, after checking that the level is within the range of the trust policy.
+     */
+    protected async saveTrustLevel(type: TrustSubjectType, subject: string, level: number): Promise<ITrustLevel> {
+        if (!Number.isInteger(level) || level < this.trustPolicy.minLevel || level > this.trustPolicy.maxLevel) {
+            throw new Error(
+                `LocalAgent: Trust level ${level} must be an integer from ${this.trustPolicy.minLevel} to ${this.trustPolicy.maxLevel}`
+            )
+        }
+        const trustLevel: ITrustLevel = {
+            type: type,
+            subject: subject,
+            level: level,
+            utime: new Date(Date.now()).toISOString(),
+        }
+        await this.storage.saveTrustLevel(trustLevel)
+        return trustLevel
+    }
+
+    /**
+     * @internal
+     * Throw an error if the asset has not been registered with this agent.
+     */
+    protected async checkAssetRegistered(assetId: string): Promise<void> {
+        if (!(await this.storage.readMetadata(assetId))) {
+            throw new Error(`LocalAgent: Unable to upload asset data, asset ${assetId} is not registered`)
+        }
+    }
+
+    /**
+     * @internal
+     * Run the operation handler and save the outputs or error to the job record.
+     */
+    protected async runJob(job: IInvokeResult, handler: IOperationHandler, inputs: unknown): Promise<void> {
+        try {
+            job.outputs = LocalAgent.copyObject(await handler(inputs))
+            job.status = 'succeeded'
+        } catch (error) {
+            job.error = error.message
+            job.status = 'failed'
+        }
+        await this.storage.saveJob(job)
+    }
+}
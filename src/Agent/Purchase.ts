@@ -0,0 +1,191 @@
+/*
+ *
+ *
+ *          Purchase functions for the market service
+ *
+ *
+ *
+ */
+
+import { EventData } from 'web3-eth-contract'
+
+import { Account } from '../Account'
+import { IAgent } from '../Interfaces/IAgent'
+import { IListingData, ListingStatus } from '../Interfaces/IListing'
+import { IPurchaseProof, IPurchaseResult } from '../Interfaces/IPurchase'
+import { Network } from '../Network'
+import { toCanonicalJSON } from '../Utils'
+import { getListingCurrency, isListingPriced, isListingValid } from './Listing'
+
+/**
+ * Convert a listing id or asset id to a reference that is saved on-chain with the payment.
+ * A 32 byte hex id is used as the reference bytes, any other id is used as text.
+ * @param id Listing id or asset id.
+ */
+export function toPurchaseReference(id: string): string {
+    if (/^(0x)?[0-9a-f]{64}$/i.test(id)) {
+        return id.replace(/^(0x)?/i, '0x')
+    }
+    return id
+}
+
+/**
+ * Check that the listing can be purchased, and return the payment proof to send the payment with.
+ * @param listingData Listing to purchase.
+ * @param account Account of the purchaser.
+ * @returns A purchase proof with the payment details.
+ */
+export function createPurchaseProof(listingData: IListingData, account: Account): IPurchaseProof {
+    const info = listingData.info
+    if (listingData.status != ListingStatus.Published) {
+        throw new Error(`Purchase: Listing ${listingData.id} is not published`)
+    }
+    if (!isListingPriced(info)) {
+        throw new Error(`Purchase: Listing ${listingData.id} does not have a price`)
+    }
+    if (!isListingValid(info)) {
+        throw new Error(`Purchase: Listing ${listingData.id} is not valid at this time`)
+    }
+    if (getListingCurrency(info).toUpperCase() != 'DEX') {
+        throw new Error(`Purchase: Listing ${listingData.id} currency ${info.currency} is not supported`)
+    }
+    if (!info.paymentAddress) {
+        throw new Error(`Purchase: Listing ${listingData.id} does not have a payment address`)
+    }
+    return {
+        listingid: listingData.id,
+        assetid: listingData.assetid,
+        fromAddress: account.address,
+        toAddress: info.paymentAddress,
+        amount: String(info.price),
+        reference1: toPurchaseReference(listingData.id),
+        reference2: toPurchaseReference(listingData.assetid),
+    }
+}
+
+/**
+ * Return the message that the purchaser signs, this is the purchase proof with the payment transaction hash.
+ * @param proof Purchase proof, the signature is not included in the message.
+ */
+export function getPurchaseProofMessage(proof: IPurchaseProof): string {
+    const message = { ...proof }
+    delete message.signature
+    return toCanonicalJSON(message)
+}
+
+/**
+ * Add the payment transaction hash to the purchase proof, and sign the proof with the account that paid for the listing.
+ * @param proof Purchase proof returned by {@link createPurchaseProof}.
+ * @param account Account of the purchaser, this must be the account that sent the payment.
+ * @param txHash Hash of the payment transaction.
+ * @returns A copy of the purchase proof with the transaction hash and signature.
+ */
+export async function signPurchaseProof(proof: IPurchaseProof, account: Account, txHash: string): Promise<IPurchaseProof> {
+    const signedProof = { ...proof, txHash: txHash }
+    signedProof.signature = await account.sign(getPurchaseProofMessage(signedProof))
+    return signedProof
+}
+
+/**
+ * Return true if the purchase proof has been signed by the account that sent the payment.
+ * @param proof Purchase proof sent by the purchaser.
+ */
+export function isPurchaseProofSigned(proof: IPurchaseProof): boolean {
+    if (!proof.txHash || !proof.signature) {
+        return false
+    }
+    try {
+        const address = Account.recoverAddress(getPurchaseProofMessage(proof), proof.signature)
+        return address.toLowerCase() == proof.fromAddress.toLowerCase()
+    } catch (error) {
+        return false
+    }
+}
+
+/**
+ * Check that the purchase proof matches the listing, the payment must be for the listing price,
+ * sent to the listing payment address with the listing id and asset id as references.
+ * @param listingData Listing that has been purchased.
+ * @param proof Purchase proof sent by the purchaser.
+ * @returns True if the proof matches the listing.
+ */
+export function isPurchaseProofMatch(listingData: IListingData, proof: IPurchaseProof): boolean {
+    const info = listingData.info
+    return (
+        proof.listingid == listingData.id &&
+        proof.assetid == listingData.assetid &&
+        Number(proof.amount) == Number(info.price) &&
+        !!info.paymentAddress &&
+        proof.toAddress.toLowerCase() == info.paymentAddress.toLowerCase() &&
+        proof.reference1 == toPurchaseReference(listingData.id) &&
+        proof.reference2 == toPurchaseReference(listingData.assetid)
+    )
+}
+
+/**
+ * Get the on-chain payment events for the purchase proof.
+ * @param network Network to search for the payment.
+ * @param proof Purchase proof sent by the purchaser.
+ * @returns The list of token sent events that match the proof.
+ */
+export async function getPurchasePaymentEvents(network: Network, proof: IPurchaseProof): Promise<EventData[]> {
+    return network.getTokenEventLogs(proof.fromAddress, proof.toAddress, proof.amount, proof.reference1, proof.reference2)
+}
+
+/**
+ * Verify a purchase for the seller, the proof must match the listing and be signed by the purchaser,
+ * and the payment must have been made on-chain in the transaction given in the proof.
+ * The seller must also check that the proof has not been used before, see {@link LocalAgent.addPurchase}.
+ * @param network Network to search for the payment.
+ * @param listingData Listing that has been purchased.
+ * @param proof Purchase proof sent by the purchaser.
+ * @returns True if the payment has been made for the listing.
+ */
+export async function verifyPurchasePayment(network: Network, listingData: IListingData, proof: IPurchaseProof): Promise<boolean> {
+    if (!isPurchaseProofMatch(listingData, proof) || !isPurchaseProofSigned(proof)) {
+        return false
+    }
+    const eventList = await getPurchasePaymentEvents(network, proof)
+    return !!eventList && eventList.some((event) => event.transactionHash.toLowerCase() == proof.txHash.toLowerCase())
+}
+
+/**
+ * Purchase a listed asset. The listing price is paid using the network direct purchase contract, with the listing id
+ * and asset id as the payment references. The payment proof is then signed with the transaction hash and sent to the agent,
+ * and the purchased asset is returned.
+ * @param agent Agent that holds the listing.
+ * @param network Network to send the payment on.
+ * @param account Account of the purchaser, this account pays for the listing and signs the purchase proof. The account
+ * is also used to decrypt the data of an encrypted asset, so it must be one of the asset recipients.
+ * @param listing Listing id or the listing data.
+ * @returns The purchase data recorded by the agent and the purchased asset, with the data for a data asset.
+ */
+export async function purchaseAsset(
+    agent: IAgent,
+    network: Network,
+    account: Account,
+    listing: string | IListingData
+): Promise<IPurchaseResult> {
+    const listingId = typeof listing === 'string' ? listing : listing.id
+    const listingData = await agent.getListing(listingId)
+    if (!listingData) {
+        throw new Error(`Purchase: Listing ${listingId} not found`)
+    }
+    const proof = createPurchaseProof(listingData, account)
+    const receipt = await network.sendTokenWithLogReceipt(
+        account,
+        proof.toAddress,
+        proof.amount,
+        proof.reference1,
+        proof.reference2
+    )
+    if (!receipt || !receipt.status) {
+        throw new Error(`Purchase: Unable to send the payment for listing ${listingId}`)
+    }
+    const purchase = await agent.addPurchase(await signPurchaseProof(proof, account, receipt.transactionHash))
+    let asset = await agent.getAsset(listingData.assetid)
+    if (asset && asset.metadata.type == 'dataset') {
+        asset = await agent.downloadAsset(listingData.assetid, undefined, account)
+    }
+    return { purchase: purchase, asset: asset }
+}
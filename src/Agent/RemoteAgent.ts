@@ -7,35 +7,80 @@
  *
  */
 
+import fs from 'fs'
 import urljoin from 'url-join'
+import { Readable, Transform, pipeline } from 'stream'
 
-import { RemoteAgentAdapter } from '../Middleware/RemoteAgentAdapter'
+import { RemoteAgentAdapter, RemoteAgentAdapterError } from '../Middleware/RemoteAgentAdapter'
+import { HTTPTransport } from '../Middleware/HTTPTransport'
+import { FileAssetCache } from '../Storage/FileAssetCache'
 import { AgentBase } from './AgentBase'
-//import { IAsset } from 'starfish/Interfaces/IAsset'
-import { AssetBase, DataAsset, OperationAsset } from '../Asset/Asset'
+import { resolveInvokeResult, waitForJob } from './Job'
+import {
+    changeListingStatus,
+    checkListingDelete,
+    checkListingInfo,
+    checkListingStatusChange,
+    isListingInfoChanged,
+} from './Listing'
+import { downloadBundle, registerBundle } from './Bundle'
+import { getAssetVersionList, getLatestAssetVersion, registerAssetVersion } from './Version'
+import { purchaseAsset } from './Purchase'
+import { IAgent } from '../Interfaces/IAgent'
+import { AssetBase, AssetIntegrityError, DataAsset, OperationAsset } from '../Asset/Asset'
+import { BundleAsset } from '../Asset/BundleAsset'
 import { IAgentAuthentication } from '../Interfaces/IAgentAuthentication'
-import { IListingData, IListingFilter } from '../Interfaces/IListing'
-import { IInvokeResult } from '../Interfaces/IInvoke'
-import { isDID, extractAssetId } from '../Utils'
+import { IAssetFilter } from '../Interfaces/IAsset'
+import { IMetadata, IMetadataList } from '../Interfaces/IMetadata'
+import { IAgentCapabilities, IRemoteAgentOptions, IServiceCapability } from '../Interfaces/IRemoteAgent'
+import { IListingData, IListingFilter, IListingInfo, IListingHistoryItem, ListingStatus } from '../Interfaces/IListing'
+import { IInvokeOptions, IInvokeResult, IJobResult, IWaitForJobOptions } from '../Interfaces/IInvoke'
+import { IUploadOptions, IUploadState } from '../Interfaces/IUpload'
+import { IPurchaseData, IPurchaseProof, IPurchaseResult } from '../Interfaces/IPurchase'
+import { ITrustLevel, ITrustPolicy } from '../Interfaces/ITrust'
+import { isDID, extractAssetId, toCanonicalJSON, toIdHex } from '../Utils'
+import { calculateAssetId, calculateAssetDataHash, createAssetDataHashStream } from '../Crypto'
 import { Network } from '../Network'
+import { Account } from '../Account'
 import { DDO } from '../DDO/DDO'
+import { IDDOService } from '../Interfaces/IDDO'
+import { filterMetadataList } from '../Asset/AssetFilter'
+import { createAsset } from '../Asset/AssetFactory'
+import { createDecompressStream } from '../Asset/Compression'
+import { checkMetadata } from '../Asset/MetadataValidator'
 
-export class RemoteAgent extends AgentBase {
+const DEFAULT_ASSET_PAGE_SIZE = 100
+
+export class RemoteAgent extends AgentBase implements IAgent {
     /**
-     *
+     * Authentication data used to access the agent, please use {@link setAuthentication} to change.
      */
     public authentication: IAgentAuthentication
 
+    public options: IRemoteAgentOptions
+
+    protected adapter: RemoteAgentAdapter
+    protected cache: FileAssetCache
+    protected cachedToken: string
+    protected cachedTokenKey: string
+    protected capabilities: IAgentCapabilities
+    protected isPagingSupported: boolean
+
     /**
      * Using the provided URL resolve the Agent DDO and return the DDO as a JSON text. Some agents require login access
      * to obtain their internal DDO record to resolve.
      * @param url URL of the agent to get the DDO and resolve.
      * @param authentication Authentication interface to set if the Agent requires authentication access to it's api.
+     * @param options Options to use to access the agent, such as the HTTP transport settings.
      * @returns String of the DDO JSON text or null if the agent is not found or the authentication is invalid.
      */
-    public static async resolveURL(url: string, authentication?: IAgentAuthentication): Promise<string> {
+    public static async resolveURL(
+        url: string,
+        authentication?: IAgentAuthentication,
+        options?: IRemoteAgentOptions
+    ): Promise<string> {
         let token = null
-        const adapter = RemoteAgentAdapter.getInstance()
+        const adapter = RemoteAgent.createAdapter(options)
         if (authentication) {
             token = authentication.token
             if (!token) {
@@ -52,13 +97,15 @@ export class RemoteAgent extends AgentBase {
      * @param agentAddress URL, DID or Asset DID of the agent to resolve.
      * @param network Network object to resolve all DID's. If non provided only a URL resolve will work.
      * @param authentication For URL resolving you need to provide an optional authentication data to access the remote agent.
+     * @param options Options for the agent, such as the HTTP transport settings.
      * @returns RemoteAgent object if successful or null
      * @category Static Create
      */
     public static async createFromAddress(
         agentAddress: string,
         network?: Network,
-        authentication?: IAgentAuthentication
+        authentication?: IAgentAuthentication,
+        options?: IRemoteAgentOptions
     ): Promise<RemoteAgent> {
         let ddo = null
         if (isDID(agentAddress)) {
@@ -66,26 +113,151 @@ export class RemoteAgent extends AgentBase {
                 ddo = await network.resolveAgent(agentAddress)
             }
         } else {
-            const ddoText = await RemoteAgent.resolveURL(agentAddress, authentication)
+            const ddoText = await RemoteAgent.resolveURL(agentAddress, authentication, options)
             if (ddoText) {
                 ddo = DDO.createFromString(ddoText)
             }
         }
         if (ddo) {
-            return new RemoteAgent(ddo, authentication)
+            return new RemoteAgent(ddo, authentication, options)
         }
         return null
     }
 
+    /**
+     * @internal
+     * Load the upload state from a file. If the file does not exist, or the state is for a different upload,
+     * then a new empty upload state is returned.
+     */
+    protected static async loadUploadState(
+        filename: string,
+        assetId: string,
+        chunkSize: number,
+        totalBytes: number
+    ): Promise<IUploadState> {
+        if (filename && fs.existsSync(filename)) {
+            const state: IUploadState = JSON.parse(await fs.promises.readFile(filename, 'utf-8'))
+            if (state.assetId == assetId && state.chunkSize == chunkSize && state.totalBytes == totalBytes) {
+                return state
+            }
+        }
+        return {
+            assetId: assetId,
+            chunkSize: chunkSize,
+            totalBytes: totalBytes,
+            chunks: {},
+        }
+    }
+
+    /**
+     * @internal
+     * Save the upload state to a file.
+     */
+    protected static async saveUploadState(filename: string, state: IUploadState): Promise<void> {
+        if (filename) {
+            await fs.promises.writeFile(filename, JSON.stringify(state))
+        }
+    }
+
+    /**
+     * @internal
+     * Return the base URL of a service endpoint, this is the endpoint without the `/api/<version>/<service_uri>` path.
+     */
+    protected static getServiceBaseURL(serviceEndpoint: string): string {
+        const match = serviceEndpoint.match(/^(.*)\/api\/v\d+\//i)
+        return match ? match[1] : null
+    }
+
+    /**
+     * Create a remote agent from the agent DDO, this is used to resolve the assets held by other agents.
+     * @param ddo DDO of the agent.
+     * @param authentication Authentication data needed for Agent access.
+     * @returns A new RemoteAgent object.
+     */
+    public static createFromDDO(ddo: DDO, authentication?: IAgentAuthentication): RemoteAgent {
+        return new RemoteAgent(ddo, authentication)
+    }
+
+    /**
+     * @internal
+     * Create the adapter to use for the remote agent calls. If no transport is set in the options then
+     * the default shared adapter is used.
+     */
+    protected static createAdapter(options?: IRemoteAgentOptions): RemoteAgentAdapter {
+        if (!options || !options.transport) {
+            return RemoteAgentAdapter.getInstance()
+        }
+        if (options.transport instanceof HTTPTransport) {
+            return new RemoteAgentAdapter(options.transport)
+        }
+        return new RemoteAgentAdapter(new HTTPTransport(options.transport))
+    }
+
+    /**
+     * @internal
+     * Create the asset cache to use for the remote agent calls, or null if no cache is set in the options.
+     */
+    protected static createCache(options?: IRemoteAgentOptions): FileAssetCache {
+        if (!options || !options.cache) {
+            return null
+        }
+        if (options.cache instanceof FileAssetCache) {
+            return options.cache
+        }
+        return new FileAssetCache(options.cache)
+    }
+
     /**
      * Construct an new Remote Agent object. Please use {@link createFromAddress} to correctly resolve the agent
      * and obtain the correct DDO record.
      * @param ddo DDO to use for this agent.
      * @param authentication Authentication data needed for Agent access.
+     * @param options Options for this agent, such as the HTTP transport settings.
      */
-    constructor(ddo: DDO, authentication?: IAgentAuthentication) {
+    constructor(ddo: DDO, authentication?: IAgentAuthentication, options?: IRemoteAgentOptions) {
         super(ddo)
         this.authentication = authentication
+        this.options = options ? options : {}
+        this.adapter = RemoteAgent.createAdapter(this.options)
+        this.cache = RemoteAgent.createCache(this.options)
+    }
+
+    /**
+     * Probe each of the services in the agent DDO. For each service the endpoint is checked to see if it can be reached,
+     * and the latency and API versions supported by the service are recorded. The highest API version that is supported
+     * by both the service and this library is selected, and if it is different from the version in the DDO, the
+     * service endpoint in the DDO is changed to use the selected version.
+     * @returns The capabilities of the agent, with the status of each service.
+     */
+    public async probe(): Promise<IAgentCapabilities> {
+        const nameList = Object.keys(DDO.supportedServices).filter((name) => this.ddo.findService(name))
+        const capabilityList = await Promise.all(nameList.map((name) => this.probeService(name, this.ddo.findService(name))))
+        const capabilities: IAgentCapabilities = {
+            did: this.ddo.getDID(),
+            services: {},
+            isHealthy: true,
+            time: new Date(Date.now()).toISOString(),
+        }
+        for (const capability of capabilityList) {
+            capabilities.services[capability.name] = capability
+            if (!capability.reachable || !capability.version || capability.error) {
+                capabilities.isHealthy = false
+            }
+        }
+        this.capabilities = capabilities
+        return capabilities
+    }
+
+    /**
+     * Get the capabilities of the agent, the agent is only probed if it has not been probed before.
+     * @param isRefresh If true then always probe the agent.
+     * @returns The capabilities of the agent, with the status of each service.
+     */
+    public async getCapabilities(isRefresh?: boolean): Promise<IAgentCapabilities> {
+        if (!this.capabilities || isRefresh) {
+            return this.probe()
+        }
+        return this.capabilities
     }
 
     /**
@@ -94,82 +266,289 @@ export class RemoteAgent extends AgentBase {
      * @returns The asset with the DID and assetId set
      */
     public async registerAsset(asset: AssetBase): Promise<AssetBase> {
-        const adapter = RemoteAgentAdapter.getInstance()
-        const token = await this.getAuthorizationToken()
         const url = this.getEndpoint('meta')
-        const assetId = await adapter.saveMetadata(asset.metadataText, url, token)
+        const assetId = await this.withAuthorization((token) => this.adapter.saveMetadata(asset.metadataText, url, token))
         asset.did = this.generateDIDForAsset(assetId)
         return asset
     }
 
     /**
-     * Get an asset from the agent.
+     * Get an asset from the agent. If an asset cache is set, see {@link IRemoteAgentOptions.cache}, then the asset
+     * metadata is read from the cache if it is held there.
      * @param assetId This can be a full assetDID `<agentDID>/<assetId>` or just an assetId
-     * @returns The asset found saved in the remote agent, else null for not found.
+     * @returns The asset found saved in the remote agent, else null for not found. The asset is a DataAsset, OperationAsset,
+     * BundleAsset or an asset of a registered type, using the metadata `type`, see {@link createAsset}.
+     * @throws AssetIntegrityError if the metadata does not match the assetId, see {@link IRemoteAgentOptions.verifyIntegrity}.
+     * @throws MetadataValidationError if the metadata is not valid, see {@link IRemoteAgentOptions.validateMetadata}.
      */
     public async getAsset(assetId: string): Promise<AssetBase> {
-        const adapter = RemoteAgentAdapter.getInstance()
-        const token = await this.getAuthorizationToken()
         const url = this.getEndpoint('meta')
         const safeAssetId = extractAssetId(assetId)
-        const metadata = await adapter.readMetadata(safeAssetId, url, token)
-        return new AssetBase(metadata, this.generateDIDForAsset(safeAssetId))
+        let metadata = this.cache ? await this.cache.readMetadata(safeAssetId) : null
+        if (metadata === null) {
+            metadata = await this.withAuthorization((token) => this.adapter.readMetadata(safeAssetId, url, token))
+            // only cache metadata that matches the assetId
+            if (this.cache && calculateAssetId(metadata) == toIdHex(safeAssetId).toLowerCase()) {
+                await this.cache.saveMetadata(safeAssetId, metadata)
+            }
+        }
+        return this.checkAsset(createAsset(metadata, this.generateDIDForAsset(safeAssetId)))
+    }
+
+    /**
+     * Get a page of the assets registered with the remote agent.
+     * @param from Index of the first asset to return, defaults to 0.
+     * @param size Maximum number of assets to return, defaults to all of the assets.
+     * @returns A list of DataAsset, OperationAsset or AssetBase objects.
+     */
+    public async listAssets(from?: number, size?: number): Promise<Array<AssetBase>> {
+        return this.searchAssets({ from: from, size: size })
     }
 
     /**
-     * Upload data asset's data.
+     * Search for assets registered with the remote agent. The filter is sent to the agent, and is also
+     * applied to the returned metadata, for agents that do not support filtering or paging of the metadata index.
+     * The assets are checked in the same way as {@link getAsset}.
+     * @param filter Filter on the asset text, type, tags, creator and date created, with paging.
+     * @returns A list of DataAsset, OperationAsset or AssetBase objects that match the filter.
+     * @throws AssetIntegrityError if the metadata does not match the assetId, see {@link IRemoteAgentOptions.verifyIntegrity}.
+     * @throws MetadataValidationError if the metadata is not valid, see {@link IRemoteAgentOptions.validateMetadata}.
+     */
+    public async searchAssets(filter?: IAssetFilter): Promise<Array<AssetBase>> {
+        const url = this.getEndpoint('meta')
+        const metadataList = await this.withAuthorization((token) => this.adapter.getMetadataList(url, token, filter))
+        const safeFilter: IAssetFilter = { ...filter }
+        if (await this.isMetadataListPaged(metadataList, filter)) {
+            safeFilter.from = undefined
+            safeFilter.size = undefined
+        }
+        const result = filterMetadataList(metadataList, safeFilter)
+        const assetList: Array<AssetBase> = []
+        for (const assetId of Object.keys(result)) {
+            assetList.push(await this.createSearchAsset(assetId, result[assetId]))
+        }
+        return assetList
+    }
+
+    /**
+     * Iterate over all of the assets registered with the remote agent that match the filter,
+     * requesting a page of assets at a time.
+     * @param filter Filter on the asset text, type, tags, creator and date created. The paging fields are ignored.
+     * @param pageSize Number of assets to request from the agent for each page, defaults to 100.
+     * @returns An async iterator of DataAsset, OperationAsset or AssetBase objects.
+     */
+    public async *iterateAssets(filter?: IAssetFilter, pageSize?: number): AsyncIterableIterator<AssetBase> {
+        const size = pageSize ? pageSize : DEFAULT_ASSET_PAGE_SIZE
+        // agents that do not support paging return the same assets for each page
+        const assetIdList = new Set<string>()
+        let from = 0
+        for (;;) {
+            const assetList = await this.searchAssets({ ...filter, from: from, size: size })
+            const newAssetList = assetList.filter((asset) => !assetIdList.has(asset.getAssetId()))
+            for (const asset of newAssetList) {
+                assetIdList.add(asset.getAssetId())
+                yield asset
+            }
+            if (assetList.length < size || newAssetList.length == 0) {
+                break
+            }
+            from += size
+        }
+    }
+
+    /**
+     * Upload data asset's data. If the data is not held in memory, then the data is streamed from the
+     * asset's `dataFilename` or `dataLoader`, and any compression or encryption is done as the data is streamed.
+     *
+     * If the `chunkSize` option is set, the data is uploaded in chunks. Each uploaded chunk is recorded in
+     * a local state file, so that an interrupted upload can be resumed by calling this method again.
      * @param asset Data asset data to upload.
+     * @param options Upload options, to set the chunk size, state file and progress callback.
      * @return True if uploaded
      */
-    public async uploadAsset(asset: DataAsset): Promise<boolean> {
-        const adapter = RemoteAgentAdapter.getInstance()
-        const token = await this.getAuthorizationToken()
+    public async uploadAsset(asset: DataAsset, options?: IUploadOptions): Promise<boolean> {
+        if (options && options.chunkSize) {
+            return this.uploadAssetChunks(asset, options)
+        }
         const url = this.getEndpoint('storage')
         const assetId = asset.getAssetId()
-        return adapter.uploadAssetData(assetId, asset.data, url, token)
+        const totalBytes = await asset.getStoredDataSize()
+        const result = await this.withAuthorization(async (token) => {
+            let data: Buffer | Readable
+            if (asset.isStoredDataStreamed()) {
+                data = await asset.getStoredDataStream()
+            } else if (asset.isStoredDataChanged()) {
+                data = await asset.getStoredData()
+            } else {
+                data = asset.data ? asset.data : asset.getDataStream()
+            }
+            return this.adapter.uploadAssetData(assetId, data, url, token, totalBytes)
+        })
+        if (options && options.onProgress) {
+            options.onProgress({ assetId: assetId, bytesSent: totalBytes, totalBytes: totalBytes, chunkIndex: 0, chunkCount: 1 })
+        }
+        return result
     }
 
     /**
-     * Download the assets data from the remote agent.
+     * Download the assets data from the remote agent. If an asset cache is set, see {@link IRemoteAgentOptions.cache},
+     * then the data is read from the cache if it is held there, and the data downloaded is saved in the cache.
      * @param assetDIDorId AssetDID or assetId of the asset to download
+     * @param filename Optional filename to stream the data too, if set the data is not held in memory
+     * and the asset `dataFilename` is set to the filename.
+     * @param account Account of one of the recipients, needed to decrypt an encrypted asset.
      * @returns DataAsset with the data downloaded, or null for no asset found.
+     * @throws AssetIntegrityError if the data does not match the metadata contentHash, the file is then removed.
      */
-    public async downloadAsset(assetDIDorId: string): Promise<DataAsset> {
-        const adapter = RemoteAgentAdapter.getInstance()
-        const token = await this.getAuthorizationToken()
+    public async downloadAsset(assetDIDorId: string, filename?: string, account?: Account): Promise<DataAsset> {
         const url = this.getEndpoint('storage')
         const assetId = extractAssetId(assetDIDorId)
-        const asset: DataAsset = <DataAsset>await this.getAsset(assetId)
-        asset.data = await adapter.downloadAssetData(assetId, url, token)
+        const asset = await this.getDataAsset(assetId)
+        if (filename) {
+            const cachedStream = await this.readCachedDataStream(asset, account)
+            if (cachedStream) {
+                try {
+                    await this.saveDataStreamToFile(asset, cachedStream, filename)
+                    asset.dataFilename = filename
+                    return asset
+                } catch (error) {
+                    // the cached data has been removed from the cache, so download the data again
+                    if (!(error instanceof AssetIntegrityError)) {
+                        throw error
+                    }
+                }
+            }
+            await this.saveDataStreamToFile(asset, await this.downloadDataStream(assetId, asset, account), filename)
+            asset.dataFilename = filename
+            return asset
+        }
+        if (await this.loadCachedData(asset, account)) {
+            return asset
+        }
+        const data = await this.withAuthorization((token) => this.adapter.downloadAssetData(assetId, url, token))
+        await asset.setStoredData(data, account)
+        if (this.isVerifyIntegrity()) {
+            asset.checkContentHash(calculateAssetDataHash(asset.data))
+        }
+        if (this.cache) {
+            await this.cache.saveData(assetId, data)
+        }
         return asset
     }
 
+    /**
+     * Download the assets data from the remote agent as a stream. If an asset cache is set, see
+     * {@link IRemoteAgentOptions.cache}, then the stream reads the data from the cache if it is held there, and the
+     * data downloaded is saved in the cache once all of it has been read.
+     * @param assetDIDorId AssetDID or assetId of the asset to download
+     * @param account Account of one of the recipients, needed to decrypt an encrypted asset.
+     * @returns A readable stream of the asset data, encrypted data is decrypted and compressed data is decompressed
+     * as it is read. If the data does not match the metadata contentHash, the stream emits an AssetIntegrityError
+     * after all of the data has been read, and the data is removed from the cache.
+     */
+    public async downloadAssetStream(assetDIDorId: string, account?: Account): Promise<Readable> {
+        const assetId = extractAssetId(assetDIDorId)
+        const asset = await this.getDataAsset(assetId)
+        const cachedStream = await this.readCachedDataStream(asset, account)
+        if (cachedStream) {
+            return cachedStream
+        }
+        return this.downloadDataStream(assetId, asset, account)
+    }
+
+    /**
+     * Register a bundle and all of it's member assets with the remote agent, nested bundles are also registered.
+     * The data of each DataAsset member is uploaded.
+     * @param bundle Bundle to register, with the member assets set, see {@link BundleAsset.setMemberAsset}.
+     * @param options Upload options to use for each DataAsset member.
+     * @returns A new registered BundleAsset, with the assetId of each member set in the bundle contents.
+     */
+    public async registerBundle(bundle: BundleAsset, options?: IUploadOptions): Promise<BundleAsset> {
+        return registerBundle(this, bundle, options)
+    }
+
+    /**
+     * Download a bundle and all of it's member assets into a directory. DataAsset members are saved as files and
+     * nested bundles are saved as sub directories.
+     * @param bundleDIDorId Asset DID or assetId of the bundle.
+     * @param path Directory to save the bundle too.
+     * @param account Account of one of the recipients, needed to decrypt the encrypted DataAsset members.
+     * @returns The BundleAsset, with the downloaded member assets set.
+     */
+    public async downloadBundle(bundleDIDorId: string, path: string, account?: Account): Promise<BundleAsset> {
+        return downloadBundle(this, bundleDIDorId, path, account)
+    }
+
+    /**
+     * Register a new version of an asset with the remote agent. A 'previous-version' link is added to the asset metadata,
+     * and the new version can be anchored on the network using the provenance contract.
+     * @param asset Asset with the metadata of the new version.
+     * @param previousAssetDIDorId Asset DID or assetId of the previous version, this must be registered with the remote agent.
+     * @param network Network to anchor the new version on, if not set the version is not anchored.
+     * @param account Account to register the provenance of the new version with.
+     * @returns The registered asset of the new version.
+     */
+    public async registerAssetVersion(
+        asset: AssetBase,
+        previousAssetDIDorId: string,
+        network?: Network,
+        account?: Account
+    ): Promise<AssetBase> {
+        return registerAssetVersion(this, asset, previousAssetDIDorId, network, account)
+    }
+
+    /**
+     * Return the version history of an asset, by following the 'previous-version' links.
+     * @param assetDIDorId Asset DID or assetId of the asset.
+     * @returns A list of the asset versions, starting with the asset and ending with the oldest version found.
+     */
+    public async getAssetVersionList(assetDIDorId: string): Promise<Array<AssetBase>> {
+        return getAssetVersionList(this, assetDIDorId)
+    }
+
+    /**
+     * Return the latest version of an asset that is registered with the remote agent.
+     * @param assetDIDorId Asset DID or assetId of any version of the asset.
+     * @returns The latest version of the asset.
+     */
+    public async getLatestAssetVersion(assetDIDorId: string): Promise<AssetBase> {
+        return getLatestAssetVersion(this, assetDIDorId)
+    }
+
     /**
      * Create a new listing on the remote agent.
-     * @param listingInfo An object that contains all of the listing information.
+     * @param listingInfo The listing information, with the price, currency, licence, validity period and access terms.
      * @param assedDIDorId Asset DID or assetId for the associtated asset for this listing.
      * @returns A listing data object. This contains the information saved by the remote agent as well as the `.info` property,
      * which contains the `listingInfo`.
+     * @throws ListingInfoValidationError if the listing info is not valid.
      */
-    public async createListing(listingInfo: unknown, assetDIDorId: string): Promise<IListingData> {
-        const adapter = RemoteAgentAdapter.getInstance()
-        const token = await this.getAuthorizationToken()
+    public async createListing(listingInfo: IListingInfo, assetDIDorId: string): Promise<IListingData> {
+        checkListingInfo(listingInfo)
         const url = this.getEndpoint('market')
         const assetId = extractAssetId(assetDIDorId)
         const listingText = JSON.stringify(listingInfo)
-        return adapter.addListing(listingText, assetId, url, token)
+        return this.withAuthorization((token) => this.adapter.addListing(listingText, assetId, url, token))
     }
 
     /**
      * Update a listing. You need to get the listingData by calling the @{link getListing} or {@link createListing}.
+     * The status can only be changed to a status that is allowed from the current status.
      * @param listingData The full listing data object that was returned after a @{link getListing} or {@link createListing}.
      * @returns a new updated IListingData object.
+     * @throws ListingInfoValidationError if the listing info has been changed and is not valid.
      */
     public async updateListing(listingData: IListingData): Promise<IListingData> {
-        const adapter = RemoteAgentAdapter.getInstance()
-        const token = await this.getAuthorizationToken()
+        const savedListingData = await this.getListing(listingData.id)
+        if (!savedListingData) {
+            throw new Error(`RemoteAgent: Unable to update listing, listing ${listingData.id} not found`)
+        }
+        checkListingStatusChange(savedListingData, listingData.status)
+        if (isListingInfoChanged(savedListingData.info, listingData.info)) {
+            checkListingInfo(listingData.info)
+        }
         const url = this.getEndpoint('market')
-        return adapter.updateListing(listingData, url, token)
+        return this.withAuthorization((token) => this.adapter.updateListing(listingData, url, token))
     }
 
     /**
@@ -178,10 +557,8 @@ export class RemoteAgent extends AgentBase {
      * @returns a valid IListingData Object.
      */
     public async getListing(listingId: string): Promise<IListingData> {
-        const adapter = RemoteAgentAdapter.getInstance()
-        const token = await this.getAuthorizationToken()
         const url = this.getEndpoint('market')
-        return adapter.getListing(listingId, url, token)
+        return this.withAuthorization((token) => this.adapter.getListing(listingId, url, token))
     }
 
     /**
@@ -190,46 +567,209 @@ export class RemoteAgent extends AgentBase {
      * @returns an Array of IListingData items found using the filter.
      */
     public async getListingList(filter: IListingFilter): Promise<Array<IListingData>> {
-        const adapter = RemoteAgentAdapter.getInstance()
-        const token = await this.getAuthorizationToken()
         const url = this.getEndpoint('market')
-        return adapter.getListingList(filter, url, token)
+        const listingList = await this.withAuthorization((token) => this.adapter.getListingList(filter, url, token))
+        if (filter && filter.minTrustLevel !== undefined) {
+            // the agent may not support filtering by trust level
+            return listingList.filter((listingData: IListingData) => listingData.trust_level >= filter.minTrustLevel)
+        }
+        return listingList
+    }
+
+    /**
+     * Publish a listing, so that it can be found and purchased.
+     * @param listing Listing id or the listing data.
+     * @returns The updated listing data.
+     */
+    public async publishListing(listing: string | IListingData): Promise<IListingData> {
+        return changeListingStatus(this, listing, ListingStatus.Published)
+    }
+
+    /**
+     * Unpublish a listing, so that it can be changed or deleted.
+     * @param listing Listing id or the listing data.
+     * @returns The updated listing data.
+     */
+    public async unpublishListing(listing: string | IListingData): Promise<IListingData> {
+        return changeListingStatus(this, listing, ListingStatus.Unpublished)
+    }
+
+    /**
+     * Archive a listing that is no longer used.
+     * @param listing Listing id or the listing data.
+     * @returns The updated listing data.
+     */
+    public async archiveListing(listing: string | IListingData): Promise<IListingData> {
+        return changeListingStatus(this, listing, ListingStatus.Archived)
+    }
+
+    /**
+     * Delete a listing on the remote agent, only unpublished or archived listings can be deleted.
+     * @param listing Listing id or the listing data.
+     * @returns True if the listing was deleted.
+     */
+    public async deleteListing(listing: string | IListingData): Promise<boolean> {
+        const url = this.getEndpoint('market')
+        const listingData = await this.getListing(typeof listing === 'string' ? listing : listing.id)
+        checkListingDelete(listingData)
+        return this.withAuthorization((token) => this.adapter.deleteListing(listingData.id, url, token))
+    }
+
+    /**
+     * Get the history of status changes of a listing.
+     * @param listingId Listing id of the listing.
+     * @returns A list of status changes, oldest first, or null if the remote agent does not support listing history.
+     */
+    public async getListingHistory(listingId: string): Promise<Array<IListingHistoryItem>> {
+        const url = this.getEndpoint('market')
+        return this.withAuthorization((token) => this.adapter.getListingHistory(listingId, url, token))
+    }
+
+    /**
+     * Send the proof of a purchase payment to the remote agent, the agent verifies the payment before
+     * recording the purchase.
+     * @param proof Purchase proof of the payment made by the purchaser.
+     * @returns The purchase data recorded by the remote agent.
+     */
+    public async addPurchase(proof: IPurchaseProof): Promise<IPurchaseData> {
+        const url = this.getEndpoint('market')
+        return this.withAuthorization((token) => this.adapter.addPurchase(proof, url, token))
+    }
+
+    /**
+     * Get a purchase from the remote agent.
+     * @param purchaseId Purchase id returned by {@link addPurchase}.
+     * @returns The purchase data.
+     */
+    public async getPurchase(purchaseId: string): Promise<IPurchaseData> {
+        const url = this.getEndpoint('market')
+        return this.withAuthorization((token) => this.adapter.getPurchase(purchaseId, url, token))
+    }
+
+    /**
+     * Get the trust policy of the remote agent.
+     * @returns The trust policy, with the range of trust levels that can be set.
+     */
+    public async getTrustPolicy(): Promise<ITrustPolicy> {
+        const url = this.getEndpoint('trust')
+        return this.withAuthorization((token) => this.adapter.getTrustPolicy(url, token))
+    }
+
+    /**
+     * Get the trust level of a user.
+     * @param userId User id of the user.
+     * @returns The trust level of the user.
+     */
+    public async getUserTrustLevel(userId: string): Promise<ITrustLevel> {
+        const url = this.getEndpoint('trust')
+        return this.withAuthorization((token) => this.adapter.getTrustLevel('user', userId, url, token))
+    }
+
+    /**
+     * Set the trust level of a user.
+     * @param userId User id of the user.
+     * @param level Trust level, this must be within the range of the agent trust policy.
+     * @returns The new trust level of the user.
+     */
+    public async setUserTrustLevel(userId: string, level: number): Promise<ITrustLevel> {
+        const url = this.getEndpoint('trust')
+        return this.withAuthorization((token) => this.adapter.setTrustLevel('user', userId, level, url, token))
+    }
+
+    /**
+     * Get the trust level of an asset.
+     * @param assetDIDorId Asset DID or assetId of the asset.
+     * @returns The trust level of the asset.
+     */
+    public async getAssetTrustLevel(assetDIDorId: string): Promise<ITrustLevel> {
+        const url = this.getEndpoint('trust')
+        const assetId = extractAssetId(assetDIDorId)
+        return this.withAuthorization((token) => this.adapter.getTrustLevel('asset', assetId, url, token))
     }
 
     /**
-     * Invoke an operation on the remote Agent.
+     * Set the trust level of an asset.
+     * @param assetDIDorId Asset DID or assetId of the asset.
+     * @param level Trust level, this must be within the range of the agent trust policy.
+     * @returns The new trust level of the asset.
+     */
+    public async setAssetTrustLevel(assetDIDorId: string, level: number): Promise<ITrustLevel> {
+        const url = this.getEndpoint('trust')
+        const assetId = extractAssetId(assetDIDorId)
+        return this.withAuthorization((token) => this.adapter.setTrustLevel('asset', assetId, level, url, token))
+    }
+
+    /**
+     * Purchase a listed asset. The listing price is paid using the network direct purchase contract, with the listing id
+     * and asset id as the payment references. The payment proof is then sent to the remote agent, and the purchased
+     * asset is returned.
+     * @param network Network to send the payment on.
+     * @param account Account of the purchaser, this account pays for the listing and signs the purchase proof.
+     * @param listing Listing id or the listing data.
+     * @returns The purchase data and the purchased asset, with the data downloaded for a data asset.
+     */
+    public async purchaseAsset(network: Network, account: Account, listing: string | IListingData): Promise<IPurchaseResult> {
+        return purchaseAsset(this, network, account, listing)
+    }
+
+    /**
+     * Invoke an operation on the remote Agent. If an OperationAsset is passed, then the inputs and outputs are
+     * checked against the operation's declared parameters. If an assetDID or assetId is passed, then the operation
+     * is only read from the remote agent when the `validate` or `resolveAssets` option is set.
      * @param asset This can be a string for an assetDID or assetID,
      * or an OperationAsset that has been read using {@link getAsset}.
-     * @param asset AssetId or AssetDID as a string, or OperationAsset.
      * @param inputs Object for the invoke service to be passed.
      * @Param isAsync If true run the invokable service as async, defaults to False - run as a sync service.
+     * @param options Invoke options, set `resolveAssets` to replace asset references in the outputs with asset objects,
+     * and `validate` to check the inputs and outputs of an operation passed by assetDID or assetId.
      * @returns The `outputs` and `status`, if the invoke is sync, else for async just return the `job-id`
+     * @throws OperationValidationError if the operation does not allow the invoke mode, or the inputs or
+     * the returned outputs do not match the operation's declared parameters.
      */
-    public async invoke(asset: string | OperationAsset, inputs?: unknown, isAsync?: boolean): Promise<IInvokeResult> {
-        const adapter = RemoteAgentAdapter.getInstance()
-        const token = await this.getAuthorizationToken()
+    public async invoke(
+        asset: string | OperationAsset,
+        inputs?: unknown,
+        isAsync?: boolean,
+        options?: IInvokeOptions
+    ): Promise<IInvokeResult> {
         const url = this.getEndpoint('invoke')
         let assetId
+        let operation: OperationAsset
         if (typeof asset == 'string') {
             assetId = extractAssetId(asset)
+            if (options && (options.validate || options.resolveAssets)) {
+                const operationAsset = await this.getAsset(assetId)
+                if (operationAsset instanceof OperationAsset) {
+                    operation = operationAsset
+                }
+            }
         } else {
             assetId = asset.getAssetId()
+            operation = new OperationAsset(asset.metadataText, asset.did)
+        }
+        if (operation) {
+            operation.checkInvoke(inputs, isAsync)
         }
         let inputsText = ''
         if (inputs) {
             inputsText = JSON.stringify(inputs)
         }
-        return adapter.invoke(assetId, inputsText, isAsync, url, token)
+        const result: IInvokeResult = await this.withAuthorization((token) =>
+            this.adapter.invoke(assetId, inputsText, isAsync, url, token)
+        )
+        if (!isAsync && operation && result && result.status == 'succeeded') {
+            operation.checkOutputs(result.outputs)
+        }
+        return resolveInvokeResult(result, operation, this, options, RemoteAgent.createFromDDO)
     }
 
     /**
      * Get a job from the remote agent.
      * @param jobId Job id string or the InvokeResult returned by the async invoke call.
+     * @param options Invoke options, set `resolveAssets` to replace asset references in the outputs with asset objects.
      * @returns A new InovkeResult on the status and results of the running job.
      */
-    public async getJob(jobId: string | IInvokeResult): Promise<IInvokeResult> {
-        const adapter = RemoteAgentAdapter.getInstance()
-        const token = await this.getAuthorizationToken()
+    public async getJob(jobId: string | IInvokeResult, options?: IInvokeOptions): Promise<IInvokeResult> {
         const url = this.getEndpoint('invoke')
         let safeJobId
         if (typeof jobId === 'string') {
@@ -237,21 +777,447 @@ export class RemoteAgent extends AgentBase {
         } else {
             safeJobId = jobId['job-id']
         }
-        return adapter.getJob(safeJobId, url, token)
+        const result = await this.withAuthorization((token) => this.adapter.getJob(safeJobId, url, token))
+        return resolveInvokeResult(result, null, this, options, RemoteAgent.createFromDDO)
+    }
+
+    /**
+     * Wait for an async invoke job to finish, polling the agent with an increasing delay between each poll.
+     * @param jobId Job id string or the InvokeResult returned by the async invoke call.
+     * @param options Poll interval, backoff, timeout, abort signal and event callbacks.
+     * @returns The succeeded or failed job result, or the running job result if the timeout has been reached.
+     */
+    public async waitForJob(jobId: string | IInvokeResult, options?: IWaitForJobOptions): Promise<IJobResult> {
+        return waitForJob((safeJobId) => this.getJob(safeJobId), jobId, options)
+    }
+
+    /**
+     * Set new authentication data for this agent. Any cached access token is cleared.
+     * @param authentication Authentication data needed for Agent access.
+     */
+    public setAuthentication(authentication: IAgentAuthentication): void {
+        this.authentication = authentication
+        this.clearAuthorizationToken()
     }
 
     /**
-     * Used internally to obtain a new OAuth token.
+     * Clear the cached access token, so that the next call to the agent will request a new access token.
      */
-    protected async getAuthorizationToken(): Promise<string> {
+    public clearAuthorizationToken(): void {
+        this.cachedToken = null
+        this.cachedTokenKey = null
+    }
+
+    /**
+     * Get a list of access tokens that are held by the agent for this agent's user.
+     * @returns A list of access tokens.
+     * @throws Error if the agent has no username authentication.
+     */
+    public async getAuthorizationTokenList(): Promise<Array<string>> {
+        const authentication = this.getUserAuthentication()
+        const tokenURL = this.getEndpoint('auth', 'token')
+        return this.adapter.getAuthorizationTokenList(authentication.username, authentication.password, tokenURL)
+    }
+
+    /**
+     * Revoke an access token held by the agent. If the token is the cached token, then the cache is cleared.
+     * @param token Token to revoke, defaults to the current cached token.
+     * @returns True if the token was revoked.
+     * @throws Error if the agent has no username authentication.
+     */
+    public async revokeAuthorizationToken(token?: string): Promise<boolean> {
+        const authentication = this.getUserAuthentication()
+        const revokeToken = token ? token : this.cachedToken
+        if (!revokeToken) {
+            return false
+        }
+        if (revokeToken == this.cachedToken) {
+            this.clearAuthorizationToken()
+        }
+        const tokenURL = this.getEndpoint('auth', 'token')
+        return this.adapter.revokeAuthorizationToken(revokeToken, authentication.username, authentication.password, tokenURL)
+    }
+
+    /**
+     * Used internally to upload the asset data in chunks. Chunks that have already been received by the agent,
+     * and recorded in the upload state file are skipped. Streamed stored data, see {@link DataAsset.isStoredDataStreamed},
+     * is read in order from the stored data stream, so the data is not held in memory.
+     * @param asset Data asset data to upload.
+     * @param options Upload options, the `chunkSize` must be set.
+     * @return True if uploaded
+     */
+    protected async uploadAssetChunks(asset: DataAsset, options: IUploadOptions): Promise<boolean> {
+        const url = this.getEndpoint('storage')
+        const assetId = asset.getAssetId()
+        const chunkSize = options.chunkSize
+        const totalBytes = await asset.getStoredDataSize()
+        const chunkCount = Math.max(1, Math.ceil(totalBytes / chunkSize))
+        let stateFilename = options.stateFilename
+        if (!stateFilename && asset.dataFilename) {
+            stateFilename = `${asset.dataFilename}.upload.json`
+        }
+        const state = await RemoteAgent.loadUploadState(stateFilename, assetId, chunkSize, totalBytes)
+        const agentChunkList = await this.withAuthorization((token) => this.adapter.getAssetDataChunkList(assetId, url, token))
+        const stream = asset.isStoredDataStreamed() ? await asset.getStoredDataStream() : null
+        const readChunk = stream ? DataAsset.createStreamChunkReader(stream, chunkSize) : null
+        let bytesSent = 0
+        try {
+            for (let index = 0; index < chunkCount; index++) {
+                const start = index * chunkSize
+                // the stream can only be read in order, so chunks that have already been uploaded are still read
+                const streamData = readChunk ? await readChunk() : null
+                if (!state.chunks[index] || state.chunks[index] != agentChunkList[index]) {
+                    const data = readChunk ? streamData || Buffer.alloc(0) : await asset.readStoredDataChunk(start, chunkSize)
+                    const hash = calculateAssetDataHash(data)
+                    await this.withAuthorization((token) =>
+                        this.adapter.uploadAssetDataChunk(assetId, index, data, hash, url, token)
+                    )
+                    state.chunks[index] = hash
+                    await RemoteAgent.saveUploadState(stateFilename, state)
+                }
+                bytesSent += Math.min(chunkSize, totalBytes - start)
+                if (options.onProgress) {
+                    options.onProgress({
+                        assetId: assetId,
+                        bytesSent: bytesSent,
+                        totalBytes: totalBytes,
+                        chunkIndex: index,
+                        chunkCount: chunkCount,
+                    })
+                }
+            }
+        } finally {
+            if (stream) {
+                stream.destroy()
+            }
+        }
+        const result = await this.withAuthorization((token) =>
+            this.adapter.completeAssetDataChunks(assetId, chunkCount, url, token)
+        )
+        if (stateFilename && fs.existsSync(stateFilename)) {
+            await fs.promises.unlink(stateFilename)
+        }
+        return result
+    }
+
+    /**
+     * Used internally to probe a service endpoint and select the API version to use for the service.
+     * @param name Name of the service.
+     * @param service Service record from the agent DDO.
+     * @returns The capability of the service.
+     */
+    protected async probeService(name: string, service: IDDOService): Promise<IServiceCapability> {
+        const serviceVersion = DDO.getServiceTypeVersion(service.type)
+        const capability: IServiceCapability = {
+            name: name,
+            type: service.type,
+            serviceEndpoint: service.serviceEndpoint,
+            reachable: false,
+            latency: null,
+            versions: [],
+            version: null,
+        }
+        const startTime = Date.now()
+        try {
+            const status = await this.adapter.getServiceStatus(service.serviceEndpoint)
+            capability.reachable = true
+            if (status && status.versions) {
+                capability.versions = status.versions
+            } else if (serviceVersion) {
+                // the agent does not report the supported versions, so use the version in the DDO
+                capability.versions = [serviceVersion]
+            }
+        } catch (error) {
+            // an error response still means that the service can be reached
+            capability.reachable = error instanceof RemoteAgentAdapterError
+            capability.error = error.message
+        }
+        capability.latency = Date.now() - startTime
+        capability.version = DDO.selectVersion(capability.versions)
+        if (capability.reachable && !capability.version && !capability.error) {
+            capability.error = `RemoteAgent: No supported API version for the ${name} service, found [${capability.versions}]`
+        }
+        const baseURL = RemoteAgent.getServiceBaseURL(service.serviceEndpoint)
+        if (capability.version && serviceVersion != capability.version && baseURL !== null) {
+            const newService = this.ddo.addService(name, baseURL, capability.version)
+            capability.type = newService.type
+            capability.serviceEndpoint = newService.serviceEndpoint
+        }
+        return capability
+    }
+
+    /**
+     * Used internally to check an asset read from the agent, using the `verifyIntegrity` and `validateMetadata` options.
+     * @param asset Asset read from the agent.
+     * @returns The asset.
+     */
+    protected checkAsset(asset: AssetBase): AssetBase {
+        if (this.isVerifyIntegrity()) {
+            asset.checkAssetId()
+        }
+        if (this.options.validateMetadata) {
+            checkMetadata(asset.metadata)
+        }
+        return asset
+    }
+
+    /**
+     * Used internally to create an asset from the metadata returned by a search. The search only returns the parsed
+     * metadata, so the metadata text is rebuilt, and if the text does not hash to the assetId, then the metadata text
+     * is read from the agent.
+     * @param assetId AssetId of the asset.
+     * @param metadata Metadata of the asset returned by the search.
+     * @returns The asset, with the metadata text that was registered.
+     */
+    protected async createSearchAsset(assetId: string, metadata: IMetadata): Promise<AssetBase> {
+        const safeAssetId = toIdHex(assetId).toLowerCase()
+        for (const metadataText of [JSON.stringify(metadata), toCanonicalJSON(metadata)]) {
+            if (calculateAssetId(metadataText) == safeAssetId) {
+                return this.checkAsset(createAsset(metadataText, this.generateDIDForAsset(safeAssetId)))
+            }
+        }
+        return this.getAsset(safeAssetId)
+    }
+
+    /**
+     * Used internally to find out if the agent has paged the metadata index. If the agent returns more assets than the
+     * page size then it does not support paging. Otherwise the agent is asked for the assets before the page, since
+     * pages do not overlap, if the same assets are returned then the agent does not support paging.
+     * @param metadataList Metadata index returned by the agent for the filter.
+     * @param filter Filter sent to the agent.
+     * @returns True if the agent has paged the metadata index.
+     */
+    protected async isMetadataListPaged(metadataList: IMetadataList, filter: IAssetFilter): Promise<boolean> {
+        if (!filter || (!filter.from && !filter.size)) {
+            return false
+        }
+        const assetIdList = Object.keys(metadataList)
+        if (filter.size && assetIdList.length > filter.size) {
+            this.isPagingSupported = false
+        }
+        if (this.isPagingSupported !== undefined) {
+            return this.isPagingSupported
+        }
+        if (!filter.from || assetIdList.length == 0) {
+            // the first page or an empty page is the same if the agent supports paging or not
+            return true
+        }
+        const url = this.getEndpoint('meta')
+        const previousFilter = { ...filter, from: 0, size: filter.from }
+        const previousList = await this.withAuthorization((token) => this.adapter.getMetadataList(url, token, previousFilter))
+        this.isPagingSupported = !assetIdList.some((assetId) => previousList[assetId] !== undefined)
+        return this.isPagingSupported
+    }
+
+    /**
+     * Used internally to check if the integrity of the downloaded assets should be checked.
+     */
+    protected isVerifyIntegrity(): boolean {
+        return this.options.verifyIntegrity !== false
+    }
+
+    /**
+     * Used internally to get the asset to download.
+     * @param assetId AssetId of the asset.
+     * @returns The DataAsset read from the remote agent.
+     * @throws Error if the asset is not a DataAsset.
+     */
+    protected async getDataAsset(assetId: string): Promise<DataAsset> {
+        const asset = await this.getAsset(assetId)
+        if (!(asset instanceof DataAsset)) {
+            throw new Error(`RemoteAgent: Asset ${assetId} is not a data asset`)
+        }
+        return asset
+    }
+
+    /**
+     * Used internally to set the asset data in memory from the asset cache. The cached data is checked against the asset
+     * contentHash, and if the data cannot be read or does not match, then it is removed from the cache.
+     * @param asset Asset to set the data of.
+     * @param account Account of one of the recipients, needed to decrypt an encrypted asset.
+     * @returns True if the data was read from the cache.
+     */
+    protected async loadCachedData(asset: DataAsset, account?: Account): Promise<boolean> {
+        if (!this.cache) {
+            return false
+        }
+        const storedData = await this.cache.readData(asset.getAssetId())
+        if (storedData === null) {
+            return false
+        }
+        // check the account first, so that a wrong account is not taken as a bad cache entry
+        if (asset.isEncrypted()) {
+            await asset.unlockEncryption(account)
+        }
+        try {
+            await asset.setStoredData(storedData, account)
+            asset.checkContentHash(calculateAssetDataHash(asset.data))
+        } catch (error) {
+            await this.cache.delete(asset.getAssetId())
+            asset.data = undefined
+            return false
+        }
+        return true
+    }
+
+    /**
+     * Used internally to read the asset data as a stream from the asset cache. The cached data is always checked
+     * against the asset contentHash as it is read, see {@link createDataStream}.
+     * @param asset Asset with the metadata encryption, compression and contentHash.
+     * @param account Account of one of the recipients, needed to decrypt an encrypted asset.
+     * @returns A readable stream of the asset data, or null if the data is not in the cache.
+     */
+    protected async readCachedDataStream(asset: DataAsset, account?: Account): Promise<Readable> {
+        if (!this.cache) {
+            return null
+        }
+        // check the account first, so that a wrong account is not taken as a bad cache entry
+        const decryptStream = asset.isEncrypted() ? await asset.createDecryptStream(account) : null
+        const storedDataStream = await this.cache.readDataStream(asset.getAssetId())
+        if (storedDataStream === null) {
+            return null
+        }
+        return this.createDataStream(asset, [storedDataStream], decryptStream, true)
+    }
+
+    /**
+     * Used internally to download the asset data as a stream. If an asset cache is set, then the stored data is
+     * saved in the cache as it is downloaded.
+     * @param assetId AssetId of the asset to download.
+     * @param asset Asset with the metadata encryption, compression and contentHash.
+     * @param account Account of one of the recipients, needed to decrypt an encrypted asset.
+     * @returns A readable stream of the asset data.
+     */
+    protected async downloadDataStream(assetId: string, asset: DataAsset, account?: Account): Promise<Readable> {
+        const url = this.getEndpoint('storage')
+        // check the account before starting the download
+        const decryptStream = asset.isEncrypted() ? await asset.createDecryptStream(account) : null
+        const stream = await this.withAuthorization((token) => this.adapter.downloadAssetDataStream(assetId, url, token))
+        const streamList: Array<Readable | Transform> = [stream]
+        if (this.cache) {
+            streamList.push(await this.cache.createSaveDataStream(assetId))
+        }
+        return this.createDataStream(asset, streamList, decryptStream, this.isVerifyIntegrity())
+    }
+
+    /**
+     * Used internally to create a stream of the asset data from a stream of the stored data. Encrypted data is
+     * decrypted, compressed data is decompressed, and if the integrity is checked, the data is checked against
+     * the asset contentHash as the data is read. Data that does not match is removed from the asset cache.
+     * @param asset Asset with the metadata encryption, compression and contentHash.
+     * @param streamList Stored data stream, followed by any streams to pass the stored data through.
+     * @param decryptStream Stream to decrypt the data, or null if the asset is not encrypted.
+     * @param isVerify If true then the data is checked against the asset contentHash.
+     * @returns A readable stream of the asset data.
+     */
+    protected createDataStream(
+        asset: DataAsset,
+        streamList: Array<Readable | Transform>,
+        decryptStream: Transform,
+        isVerify: boolean
+    ): Readable {
+        if (decryptStream) {
+            streamList.push(decryptStream)
+        }
+        if (asset.isCompressed()) {
+            streamList.push(createDecompressStream(asset.metadata.compression))
+        }
+        if (isVerify) {
+            streamList.push(createAssetDataHashStream((dataHash: string) => asset.checkContentHash(dataHash)))
+        }
+        if (streamList.length == 1) {
+            return streamList[0]
+        }
+        // the pipeline passes any read error on to the last stream
+        const lastStream = <Transform>streamList[streamList.length - 1]
+        pipeline(streamList, (error) => {
+            if (this.cache && error instanceof AssetIntegrityError) {
+                this.cache.delete(asset.getAssetId()).catch(() => undefined)
+            }
+        })
+        return lastStream
+    }
+
+    /**
+     * Used internally to save a stream of the asset data to a file. If the data cannot be saved, then the file is
+     * removed, and if the data does not match the asset contentHash, then the data is removed from the asset cache.
+     * @param asset Asset of the data.
+     * @param stream Readable stream of the asset data.
+     * @param filename Name of the file to save too.
+     */
+    protected async saveDataStreamToFile(asset: DataAsset, stream: Readable, filename: string): Promise<void> {
+        try {
+            await DataAsset.saveStreamToFile(stream, filename)
+        } catch (error) {
+            // do not leave a partial or tampered file
+            await fs.promises.unlink(filename).catch(() => undefined)
+            if (this.cache && error instanceof AssetIntegrityError) {
+                await this.cache.delete(asset.getAssetId())
+            }
+            throw error
+        }
+    }
+
+    /**
+     * Used internally to return the authentication of the agent user, the access tokens can only be managed
+     * with a username and password.
+     * @throws Error if the agent has no username authentication.
+     */
+    protected getUserAuthentication(): IAgentAuthentication {
+        if (!this.authentication || !this.authentication.username) {
+            throw new Error('RemoteAgent: A username and password are needed to manage the access tokens')
+        }
+        return this.authentication
+    }
+
+    /**
+     * Used internally to obtain an OAuth token. The token is cached for this agent, until the authentication
+     * username or password is changed.
+     * @param isRefresh If true then ignore the cached token and create a new token.
+     */
+    protected async getAuthorizationToken(isRefresh?: boolean): Promise<string> {
         if (!this.authentication) {
             return null
         }
         if (this.authentication['token']) {
             return this.authentication['token']
         }
+        const tokenKey = `${this.authentication.username}:${this.authentication.password}`
+        if (this.cachedToken && this.cachedTokenKey == tokenKey && !isRefresh) {
+            return this.cachedToken
+        }
         const tokenURL = this.getEndpoint('auth', 'token')
-        const adapter = RemoteAgentAdapter.getInstance()
-        return adapter.getAuthorizationToken(this.authentication['username'], this.authentication['password'], tokenURL)
+        let token
+        if (isRefresh) {
+            token = await this.adapter.createAuthorizationToken(
+                this.authentication.username,
+                this.authentication.password,
+                tokenURL
+            )
+        } else {
+            token = await this.adapter.getAuthorizationToken(this.authentication.username, this.authentication.password, tokenURL)
+        }
+        this.cachedToken = token
+        this.cachedTokenKey = tokenKey
+        return token
+    }
+
+    /**
+     * Used internally to call the agent with an access token. If the agent rejects the token as not authorized,
+     * a new token is created and the call is tried once more.
+     * @param callback Function to call with the access token.
+     * @returns The result of the callback.
+     */
+    protected async withAuthorization<T>(callback: (token: string) => Promise<T>): Promise<T> {
+        const token = await this.getAuthorizationToken()
+        try {
+            return await callback(token)
+        } catch (error) {
+            const isRetry = this.authentication && !this.authentication.token && this.authentication.username
+            if (isRetry && error instanceof RemoteAgentAdapterError && error.status == 401) {
+                return callback(await this.getAuthorizationToken(true))
+            }
+            throw error
+        }
     }
 }
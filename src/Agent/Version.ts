@@ -0,0 +1,203 @@
+/*
+ *
+ *
+ *          Asset version functions
+ *
+ *
+ *
+ */
+
+import { EventData } from 'web3-eth-contract'
+
+import { Account } from '../Account'
+import { AssetBase, DataAsset } from '../Asset/Asset'
+import { BundleAsset } from '../Asset/BundleAsset'
+import { createAsset } from '../Asset/AssetFactory'
+import { IAgent } from '../Interfaces/IAgent'
+import { ILink } from '../Interfaces/IMetadata'
+import { RemoteAgentAdapterError } from '../Middleware/RemoteAgentAdapter'
+import { Network } from '../Network'
+import { extractAssetId, toCanonicalJSON } from '../Utils'
+
+export const PREVIOUS_VERSION_LINK_TYPE = 'previous-version'
+
+/**
+ * Return the assetId of the previous version of an asset, from the metadata `links`.
+ * @param asset Asset to get the previous version of.
+ * @returns The assetId of the previous version, or null if the asset is the first version.
+ */
+export function getPreviousVersionId(asset: AssetBase): string {
+    const links = asset.metadata.links ? asset.metadata.links : []
+    const link = links.find((item) => item.type == PREVIOUS_VERSION_LINK_TYPE)
+    return link && link.assetID ? extractAssetId(link.assetID) : null
+}
+
+/**
+ * Create a new version of an asset, by adding a 'previous-version' link to the asset metadata. Since the assetId is
+ * the hash of the metadata, the new version has a different assetId. The data of a DataAsset and the member assets of
+ * a BundleAsset are kept.
+ * @param asset Asset with the metadata of the new version.
+ * @param previousAssetDIDorId Asset DID or assetId of the previous version.
+ * @returns A new asset object, this is not registered.
+ */
+export function createAssetVersion(asset: AssetBase, previousAssetDIDorId: string): AssetBase {
+    const links = (asset.metadata.links ? asset.metadata.links : []).filter((item) => item.type != PREVIOUS_VERSION_LINK_TYPE)
+    const link: ILink = {
+        name: 'previous version',
+        type: PREVIOUS_VERSION_LINK_TYPE,
+        assetID: extractAssetId(previousAssetDIDorId),
+    }
+    const newAsset = createAsset(toCanonicalJSON({ ...asset.metadata, links: [...links, link] }))
+    if (asset instanceof DataAsset && newAsset instanceof DataAsset) {
+        newAsset.data = asset.data
+        newAsset.dataFilename = asset.dataFilename
+        newAsset.dataLoader = asset.dataLoader
+    }
+    if (asset instanceof BundleAsset && newAsset instanceof BundleAsset) {
+        newAsset.memberList = { ...asset.memberList }
+    }
+    return newAsset
+}
+
+/**
+ * Register a new version of an asset with an agent. The version can also be anchored on the network, using the
+ * provenance contract, so that others can verify the order of the versions, see {@link verifyAssetVersionList}.
+ * @param agent Agent to register the asset with.
+ * @param asset Asset with the metadata of the new version.
+ * @param previousAssetDIDorId Asset DID or assetId of the previous version, this must be registered with the agent.
+ * @param network Network to anchor the new version on, if not set the version is not anchored.
+ * @param account Account to register the provenance of the new version with.
+ * @returns The registered asset of the new version.
+ */
+export async function registerAssetVersion(
+    agent: IAgent,
+    asset: AssetBase,
+    previousAssetDIDorId: string,
+    network?: Network,
+    account?: Account
+): Promise<AssetBase> {
+    if (!(await findAsset(agent, previousAssetDIDorId))) {
+        throw new Error(`Version: Unable to find the previous version ${previousAssetDIDorId}`)
+    }
+    const newAsset = await agent.registerAsset(createAssetVersion(asset, previousAssetDIDorId))
+    if (network) {
+        if (!account) {
+            throw new Error('Version: An account is needed to anchor the asset version')
+        }
+        if (!(await network.registerProvenance(account, `0x${newAsset.getAssetId()}`))) {
+            throw new Error(`Version: Unable to anchor asset version ${newAsset.getAssetId()}`)
+        }
+    }
+    return newAsset
+}
+
+/**
+ * Return the version history of an asset, by following the 'previous-version' links. The history stops at the
+ * first version, or at a previous version that is not registered with the agent.
+ * @param agent Agent that has the asset versions.
+ * @param assetDIDorId Asset DID or assetId of the asset.
+ * @returns A list of the asset versions, starting with the asset and ending with the oldest version found.
+ */
+export async function getAssetVersionList(agent: IAgent, assetDIDorId: string): Promise<Array<AssetBase>> {
+    const versionList: Array<AssetBase> = []
+    const assetIdList = new Set<string>()
+    let asset = await findAsset(agent, assetDIDorId)
+    if (!asset) {
+        throw new Error(`Version: Unable to find asset ${assetDIDorId}`)
+    }
+    while (asset && !assetIdList.has(asset.getAssetId())) {
+        versionList.push(asset)
+        assetIdList.add(asset.getAssetId())
+        const previousAssetId = getPreviousVersionId(asset)
+        asset = previousAssetId ? await findAsset(agent, previousAssetId) : null
+    }
+    return versionList
+}
+
+/**
+ * Return the latest version of an asset that is registered with the agent, by searching for assets that link to
+ * the asset as their previous version. If a version has more than one next version, then the one with the latest
+ * `dateCreated` is used.
+ * @param agent Agent that has the asset versions.
+ * @param assetDIDorId Asset DID or assetId of the asset, this can be any version of the asset.
+ * @returns The latest version of the asset, this is the asset if there are no later versions.
+ */
+export async function getLatestAssetVersion(agent: IAgent, assetDIDorId: string): Promise<AssetBase> {
+    let asset = await findAsset(agent, assetDIDorId)
+    if (!asset) {
+        throw new Error(`Version: Unable to find asset ${assetDIDorId}`)
+    }
+    const nextVersionList: { [assetId: string]: Array<AssetBase> } = {}
+    for (const item of await agent.searchAssets()) {
+        const previousAssetId = getPreviousVersionId(item)
+        if (previousAssetId) {
+            nextVersionList[previousAssetId] = [...(nextVersionList[previousAssetId] || []), item]
+        }
+    }
+    const assetIdList = new Set<string>([asset.getAssetId()])
+    for (;;) {
+        const nextList = (nextVersionList[asset.getAssetId()] || []).filter((item) => !assetIdList.has(item.getAssetId()))
+        if (nextList.length == 0) {
+            return asset
+        }
+        asset = nextList.reduce((latest, item) => (getDateCreated(item) > getDateCreated(latest) ? item : latest))
+        assetIdList.add(asset.getAssetId())
+    }
+}
+
+/**
+ * Verify that each asset version is anchored on the network, and that the versions were anchored in order.
+ * @param network Network that the versions were anchored on, see {@link registerAssetVersion}.
+ * @param versionList List of asset versions, as returned by {@link getAssetVersionList}.
+ * @returns True if all of the versions are anchored, and each version was anchored after it's previous version.
+ */
+export async function verifyAssetVersionList(network: Network, versionList: Array<AssetBase>): Promise<boolean> {
+    let nextEvent: EventData = null
+    for (const asset of versionList) {
+        const eventList = await network.getProvenanceEventLogs(`0x${asset.getAssetId()}`)
+        if (eventList.length == 0) {
+            return false
+        }
+        const event = eventList.reduce((first, item) => (compareEvents(item, first) < 0 ? item : first))
+        if (nextEvent && compareEvents(event, nextEvent) >= 0) {
+            return false
+        }
+        nextEvent = event
+    }
+    return true
+}
+
+/**
+ * @internal
+ * Return the asset, or null if the asset is not registered with the agent.
+ */
+async function findAsset(agent: IAgent, assetDIDorId: string): Promise<AssetBase> {
+    try {
+        return await agent.getAsset(assetDIDorId)
+    } catch (error) {
+        if (error instanceof RemoteAgentAdapterError && error.status == 404) {
+            return null
+        }
+        throw error
+    }
+}
+
+/**
+ * @internal
+ * Return the time the asset was created, or 0 if the asset has no `dateCreated`.
+ */
+function getDateCreated(asset: AssetBase): number {
+    const dateCreated = Date.parse(asset.metadata.dateCreated)
+    return isNaN(dateCreated) ? 0 : dateCreated
+}
+
+/**
+ * @internal
+ * Compare the position of two events on the chain.
+ */
+function compareEvents(event: EventData, otherEvent: EventData): number {
+    if (event.blockNumber != otherEvent.blockNumber) {
+        return event.blockNumber - otherEvent.blockNumber
+    }
+    return event.logIndex - otherEvent.logIndex
+}
@@ -5,8 +5,9 @@
  *
  */
 
-import { AssetBase } from './AssetBase'
+import { AssetBase, AssetIntegrityError } from './AssetBase'
 import { DataAsset } from './DataAsset'
-import { OperationAsset } from './OperationAsset'
+import { OperationAsset, OperationValidationError } from './OperationAsset'
+import { MetadataValidationError } from './MetadataValidator'
 
-export { AssetBase, DataAsset, OperationAsset }
+export { AssetBase, AssetIntegrityError, DataAsset, MetadataValidationError, OperationAsset, OperationValidationError }
@@ -9,9 +9,27 @@
 import { IMetadata } from '../Interfaces/IMetadata'
 import { IAsset } from '../Interfaces/IAsset'
 
-import { extractAssetId } from '../Utils'
+import { extractAssetId, isCanonicalJSON, toIdHex } from '../Utils'
 import { calculateAssetId } from '../Crypto'
 
+export class AssetIntegrityError extends Error {
+    // assetId of the asset that failed the check
+    readonly assetId: string
+    // the value that failed the check, 'assetId' or 'contentHash'
+    readonly field: string
+    readonly expected: string
+    readonly actual: string
+    constructor(message: string, assetId: string, field: string, expected: string, actual: string) {
+        super(`${message}, expected ${field} ${expected} but found ${actual}`)
+        Object.setPrototypeOf(this, AssetIntegrityError.prototype)
+        this.name = 'AssetIntegrityError'
+        this.assetId = assetId
+        this.field = field
+        this.expected = expected
+        this.actual = actual
+    }
+}
+
 export class AssetBase implements IAsset {
     readonly metadataText: string
     readonly metadata: IMetadata
@@ -22,22 +40,33 @@ export class AssetBase implements IAsset {
      * @Param name Name of the asset.
      * @param type Type of the asset, see [DEP #8](https://github.com/DEX-Company/DEPs/tree/master/8) to the allowed types
      * @param metadata A pre filled in metadata as a JSON string or object.
-     * @returns A new metadata object or the metadata argument value that was provided
-     * with the `name` and `type` set.
+     * @returns A new metadata object with the fields of the metadata argument value that was provided,
+     * and with the `name` and `type` set.
      */
     public static generateMetadata(name: string, type: string, metadata?: string | IMetadata): IMetadata {
-        let newMetadata = {}
+        let newMetadata: IMetadata = {}
         if (metadata) {
             if (typeof metadata === 'string') {
                 newMetadata = JSON.parse(metadata)
+            } else {
+                newMetadata = { ...metadata }
             }
-            newMetadata = metadata
         }
-        newMetadata['name'] = name
-        newMetadata['type'] = type
+        newMetadata.name = name
+        newMetadata.type = type
         return newMetadata
     }
 
+    /**
+     * Test to see if the metadata text is in canonical JSON form, see {@link toCanonicalJSON}. Assets created using
+     * a metadata object always have canonical metadata text, so the same metadata always gives the same assetId.
+     * @param metadataText Metadata text to test.
+     * @returns true if the metadata text is canonical JSON.
+     */
+    public static isCanonical(metadataText: string): boolean {
+        return isCanonicalJSON(metadataText)
+    }
+
     /**
      * Consruct an asset using it's metadata in string form, and optional asset DID.
      * @param metadataText The asset metadata in text form. The reason for this is that the assetId is created using
@@ -64,6 +93,25 @@ export class AssetBase implements IAsset {
         return calculateAssetId(this.metadataText)
     }
 
+    /**
+     * Check that the metadata text hashes to the assetId.
+     * @param assetId AssetId or asset DID to check, defaults to the assetId of the asset DID.
+     * @throws AssetIntegrityError if the calculated assetId is different.
+     */
+    public checkAssetId(assetId?: string): void {
+        const expectedAssetId = toIdHex(assetId ? assetId : this.getAssetId()).toLowerCase()
+        const calculatedAssetId = this.calculateAssetId()
+        if (calculatedAssetId != expectedAssetId) {
+            throw new AssetIntegrityError(
+                'Asset metadata does not match the assetId',
+                expectedAssetId,
+                'assetId',
+                expectedAssetId,
+                calculatedAssetId
+            )
+        }
+    }
+
     /**
      * Compares two assets and see if they are equal.
      * This methods just compares the two calculated asset id's.
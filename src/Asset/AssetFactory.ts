@@ -0,0 +1,81 @@
+/*
+ *
+ *
+ *      Asset Factory functions
+ *
+ *
+ */
+
+import { IAssetTypeCreator } from '../Interfaces/IAsset'
+import { IMetadataTypeValidator } from '../Interfaces/IMetadata'
+import { AssetBase } from './AssetBase'
+import { BundleAsset } from './BundleAsset'
+import { DataAsset } from './DataAsset'
+import { OperationAsset } from './OperationAsset'
+import { getMetadataTypeList, registerMetadataType, unregisterMetadataType } from './MetadataValidator'
+
+const DEFAULT_ASSET_TYPES: { [type: string]: IAssetTypeCreator } = {
+    dataset: (metadataText: string, did?: string) => new DataAsset(metadataText, did),
+    operation: (metadataText: string, did?: string) => new OperationAsset(metadataText, did),
+    bundle: (metadataText: string, did?: string) => {
+        const bundle = new BundleAsset(metadataText, did)
+        if (bundle.metadata.contents) {
+            bundle.assetList = bundle.metadata.contents
+        }
+        return bundle
+    },
+}
+
+const assetTypes: { [type: string]: IAssetTypeCreator } = { ...DEFAULT_ASSET_TYPES }
+
+/**
+ * Register a creator function for an asset type. The creator is called by {@link createAsset} for assets with the
+ * metadata `type`, so custom asset classes can be returned by the agents. A creator can also be registered for one
+ * of the standard types 'dataset', 'operation' or 'bundle', to replace the standard asset class.
+ * The type is also registered as a valid metadata type, see {@link registerMetadataType}.
+ * @param type Metadata `type` of the asset.
+ * @param creator Function to create the asset object from the metadata text and asset DID.
+ * @param validator Optional function to validate the type specific fields of the metadata, a standard type keeps
+ * the standard validation if this is not set.
+ */
+export function registerAssetType(type: string, creator: IAssetTypeCreator, validator?: IMetadataTypeValidator): void {
+    assetTypes[type] = creator
+    if (validator || getMetadataTypeList().indexOf(type) < 0) {
+        registerMetadataType(type, validator)
+    }
+}
+
+/**
+ * Remove a registered asset type. If the type is one of the standard types, then the standard asset class and
+ * validation are used again.
+ * @param type Metadata `type` of the asset.
+ */
+export function unregisterAssetType(type: string): void {
+    unregisterMetadataType(type)
+    delete assetTypes[type]
+    if (DEFAULT_ASSET_TYPES[type]) {
+        assetTypes[type] = DEFAULT_ASSET_TYPES[type]
+    }
+}
+
+/**
+ * Return the list of asset types that have a creator.
+ */
+export function getAssetTypeList(): Array<string> {
+    return Object.keys(assetTypes)
+}
+
+/**
+ * Create an asset object using the metadata `type`. A BundleAsset has the `assetList` set from the metadata `contents`.
+ * @param metadataText Metadata text of the asset, this is used as it is, so the assetId does not change.
+ * @param did AssetDID of the asset.
+ * @returns A DataAsset, OperationAsset, BundleAsset, an asset of a registered type, or an AssetBase object for an
+ * unknown type.
+ */
+export function createAsset(metadataText: string, did?: string): AssetBase {
+    const metadata = JSON.parse(metadataText)
+    if (metadata && Object.prototype.hasOwnProperty.call(assetTypes, metadata.type)) {
+        return assetTypes[metadata.type](metadataText, did)
+    }
+    return new AssetBase(metadataText, did)
+}
@@ -0,0 +1,66 @@
+/*
+ *
+ *
+ *      Asset Filter functions
+ *
+ *
+ */
+
+import { IAssetFilter } from '../Interfaces/IAsset'
+import { IMetadata, IMetadataList } from '../Interfaces/IMetadata'
+
+/**
+ * Return true if the metadata matches all of the filter fields, the paging fields `from` and `size` are ignored.
+ * @param metadata Asset metadata to match.
+ * @param filter Filter to match against.
+ */
+export function isMetadataMatch(metadata: IMetadata, filter: IAssetFilter): boolean {
+    if (!filter) {
+        return true
+    }
+    if (filter.type && metadata.type != filter.type) {
+        return false
+    }
+    if (filter.creator && metadata.creator != filter.creator) {
+        return false
+    }
+    const tags = metadata.tags ? metadata.tags : []
+    if (filter.tags && filter.tags.find((tag) => tags.indexOf(tag) < 0)) {
+        return false
+    }
+    const dateCreated = Date.parse(metadata.dateCreated)
+    if (filter.dateFrom && !(dateCreated >= Date.parse(filter.dateFrom))) {
+        return false
+    }
+    if (filter.dateTo && !(dateCreated <= Date.parse(filter.dateTo))) {
+        return false
+    }
+    if (filter.text) {
+        const text = filter.text.toLowerCase()
+        const searchList = [metadata.name, metadata.description].concat(tags)
+        if (!searchList.find((value) => value && value.toLowerCase().indexOf(text) >= 0)) {
+            return false
+        }
+    }
+    return true
+}
+
+/**
+ * Filter a metadata list, and return the page of results set by the filter `from` and `size` fields.
+ * @param metadataList Metadata list to filter.
+ * @param filter Filter to use, if not set all of the items are returned.
+ * @returns A new metadata list with the matching items.
+ */
+export function filterMetadataList(metadataList: IMetadataList, filter?: IAssetFilter): IMetadataList {
+    let assetIdList = Object.keys(metadataList).filter((assetId) => isMetadataMatch(metadataList[assetId], filter))
+    if (filter) {
+        const from = filter.from ? filter.from : 0
+        const size = filter.size ? filter.size : assetIdList.length
+        assetIdList = assetIdList.slice(from, from + size)
+    }
+    const result: IMetadataList = {}
+    for (const assetId of assetIdList) {
+        result[assetId] = metadataList[assetId]
+    }
+    return result
+}
@@ -8,9 +8,16 @@
 
 import { IMetadata, IMetadataBundle, IBundleMap, IBundleContent } from '../Interfaces/IMetadata'
 import { AssetBase } from './AssetBase'
+import { checkMetadata } from './MetadataValidator'
+import { toCanonicalJSON } from '../Utils'
 
 export class BundleAsset extends AssetBase {
     public assetList: IBundleMap
+    /**
+     * Asset objects of the members of this bundle. Members that have not been registered are registered with the
+     * bundle using {@link registerBundle}, and members are set when a bundle is downloaded using {@link downloadBundle}.
+     */
+    public memberList: { [name: string]: AssetBase }
 
     /**
      * Create a new Bundle asset object.
@@ -18,6 +25,7 @@ export class BundleAsset extends AssetBase {
      * @param assetList List of assetId's. This can be a IBundleMap object, or a Map with name->assetId.
      * @param metadata Metadata to provide with the asset.
      * @param did Asset DID to assign to the asset.
+     * @throws MetadataValidationError if the metadata is not valid.
      * @category Static Create
      */
     public static create(
@@ -38,27 +46,26 @@ export class BundleAsset extends AssetBase {
         } else {
             storeMetadata.contents = <IBundleMap>assetList
         }
+        checkMetadata(storeMetadata)
         return new BundleAsset(storeMetadata, did, storeMetadata.contents)
     }
 
     /**
      * Construct a new BundleAsset. Please use {@link create} method instead to create a new BundleAsset object.
-     * @param metadata Metadata of the asset as string or as an object.
+     * @param metadata Metadata of the asset as string or as an object. An object is serialized as canonical JSON,
+     * see {@link toCanonicalJSON}, a string is used as it is.
      * @param did DID of the asset.
      * @param assetList Bundle asset list of the assets assigned to this bundle.
      */
     constructor(metadata: string | IMetadata, did?: string, assetList?: IBundleMap) {
-        let metadataText = metadata
-        if (typeof metadata != 'string') {
-            metadataText = JSON.stringify(metadata)
-        }
-        super(<string>metadataText, did)
+        super(typeof metadata == 'string' ? metadata : toCanonicalJSON(metadata), did)
 
         if (assetList) {
             this.assetList = assetList
         } else {
             this.assetList = {}
         }
+        this.memberList = {}
     }
 
     public setAsset(name: string, assetId: string): void {
@@ -69,5 +76,21 @@ export class BundleAsset extends AssetBase {
     }
     public deleteAsset(name: string): void {
         delete this.assetList[name]
+        delete this.memberList[name]
+    }
+
+    /**
+     * Set a member asset of this bundle. If the asset has been registered, then the assetId is also set.
+     * @param name Name of the member in the bundle.
+     * @param asset Asset object of the member, this can be a nested BundleAsset.
+     */
+    public setMemberAsset(name: string, asset: AssetBase): void {
+        this.memberList[name] = asset
+        if (asset.did) {
+            this.setAsset(name, asset.getAssetId())
+        }
+    }
+    public getMemberAsset(name: string): AssetBase {
+        return this.memberList[name]
     }
 }
@@ -0,0 +1,107 @@
+/*
+ *
+ *
+ *      Compression functions for the asset data
+ *
+ *
+ */
+
+import zlib from 'zlib'
+import { Transform } from 'stream'
+import { promisify } from 'util'
+
+interface ICompressionMethod {
+    compress: (data: Buffer) => Promise<Buffer>
+    decompress: (data: Buffer) => Promise<Buffer>
+    createCompressStream: () => Transform
+    createDecompressStream: () => Transform
+}
+
+const compressionMethods: { [compression: string]: ICompressionMethod } = {
+    gzip: {
+        compress: promisify(zlib.gzip),
+        decompress: promisify(zlib.gunzip),
+        createCompressStream: () => zlib.createGzip(),
+        createDecompressStream: () => zlib.createGunzip(),
+    },
+    brotli: {
+        compress: promisify(zlib.brotliCompress),
+        decompress: promisify(zlib.brotliDecompress),
+        createCompressStream: () => zlib.createBrotliCompress(),
+        createDecompressStream: () => zlib.createBrotliDecompress(),
+    },
+    deflate: {
+        compress: promisify(zlib.deflate),
+        decompress: promisify(zlib.inflate),
+        createCompressStream: () => zlib.createDeflate(),
+        createDecompressStream: () => zlib.createInflate(),
+    },
+}
+
+/**
+ * Return the list of supported compression names, these can be used for the metadata `compression` field.
+ */
+export function getCompressionList(): Array<string> {
+    return Object.keys(compressionMethods)
+}
+
+/**
+ * Test to see if a compression is supported.
+ * @param compression Name of the compression, e.g. 'gzip', 'brotli' or 'deflate'.
+ * @returns True if the compression is supported.
+ */
+export function isCompressionSupported(compression: string): boolean {
+    return compression in compressionMethods
+}
+
+/**
+ * Throw an error if the compression is set and is not supported.
+ * @param compression Name of the compression, or undefined for no compression.
+ */
+export function checkCompression(compression: string): void {
+    if (compression && !isCompressionSupported(compression)) {
+        throw new Error(`Compression: '${compression}' is not supported, use one of ${getCompressionList().join(', ')}`)
+    }
+}
+
+/**
+ * Compress data.
+ * @param data Data to compress.
+ * @param compression Name of the compression.
+ * @returns The compressed data.
+ */
+export async function compressData(data: Buffer, compression: string): Promise<Buffer> {
+    checkCompression(compression)
+    return compressionMethods[compression].compress(data)
+}
+
+/**
+ * Decompress data.
+ * @param data Compressed data.
+ * @param compression Name of the compression used to compress the data.
+ * @returns The decompressed data.
+ */
+export async function decompressData(data: Buffer, compression: string): Promise<Buffer> {
+    checkCompression(compression)
+    return compressionMethods[compression].decompress(data)
+}
+
+/**
+ * Create a stream to compress data.
+ * @param compression Name of the compression.
+ * @returns A Transform stream, data written to the stream is read as compressed data.
+ */
+export function createCompressStream(compression: string): Transform {
+    checkCompression(compression)
+    return compressionMethods[compression].createCompressStream()
+}
+
+/**
+ * Create a stream to decompress data.
+ * @param compression Name of the compression used to compress the data.
+ * @returns A Transform stream, compressed data written to the stream is read as the decompressed data.
+ */
+export function createDecompressStream(compression: string): Transform {
+    checkCompression(compression)
+    return compressionMethods[compression].createDecompressStream()
+}
@@ -8,13 +8,58 @@
 
 import fs from 'fs'
 import mime from 'mime-types'
+import { Readable, PassThrough, Transform, finished, pipeline } from 'stream'
+import { promisify } from 'util'
 
 import { IMetadata, IMetadataData } from '../Interfaces/IMetadata'
-import { AssetBase } from './AssetBase'
-import { calculateAssetDataHash } from '../Crypto'
+import { IDataAssetLoader } from '../Interfaces/IAsset'
+import { AssetBase, AssetIntegrityError } from './AssetBase'
+import { calculateAssetDataHash, calculateAssetDataHashFromStream } from '../Crypto'
+import { checkCompression, compressData, createCompressStream, decompressData } from './Compression'
+import { checkMetadata } from './MetadataValidator'
+import {
+    createDataEncryption,
+    createDataKey,
+    createDecryptStream,
+    createEncryptStream,
+    decryptData,
+    encryptData,
+    findEncryptionRecipient,
+    parseRecipientKey,
+} from './Encryption'
+import { Account } from '../Account'
+import { toCanonicalJSON, toIdHex } from '../Utils'
+
+const pipelineAsync = promisify(pipeline)
 
 export class DataAsset extends AssetBase {
     public data: Buffer
+    /**
+     * Filename of the data, if the data is not held in memory. See {@link createFromFileStream}.
+     */
+    public dataFilename: string
+    /**
+     * Function to load the data on demand, if the data is not held in memory or in a file. For example assets
+     * resolved from invoke outputs are only downloaded when the data is first needed.
+     */
+    public dataLoader: IDataAssetLoader
+    /**
+     * Compressed data, held after the data has been compressed or downloaded, see {@link getStoredData}.
+     */
+    protected storedData: Buffer
+    /**
+     * Size of the stored data, held after the size of streamed stored data has been counted, see {@link getStoredDataSize}.
+     */
+    protected storedDataSize: number
+    /**
+     * Key used to encrypt the data, held after the asset has been encrypted or unlocked, see {@link unlockEncryption}.
+     */
+    protected encryptionKey: Buffer
+    /**
+     * Hash of the original data of an encrypted asset, held after the asset has been encrypted or unlocked.
+     * The metadata `contentHash` of an encrypted asset is the hash of the stored data, see {@link createEncrypted}.
+     */
+    protected dataHash: string
 
     /**
      * Create a DataAsset.
@@ -23,12 +68,15 @@ export class DataAsset extends AssetBase {
      * @param metadata Extra metadata to add to the asset metadata.
      * @param did DID of the asset.
      * @returns a new DataAseet object.
+     * @throws MetadataValidationError if the metadata is not valid.
      * @category Static Create
      */
     public static create(name: string, data: Buffer, metadata?: string | IMetadataData, did?: string): DataAsset {
         const storeMetadata = AssetBase.generateMetadata(name, 'dataset', metadata)
+        checkCompression(storeMetadata.compression)
         storeMetadata.contentType = 'application/octet-stream'
         storeMetadata.contentHash = calculateAssetDataHash(data)
+        checkMetadata(storeMetadata)
         return new DataAsset(storeMetadata, did, data)
     }
 
@@ -39,6 +87,7 @@ export class DataAsset extends AssetBase {
      * @param metadata Extra metadata to use to create the asset.
      * @prama did DID of the asset.
      * @returns a DataAsset object with the data and contentType obtained from the file.
+     * @throws MetadataValidationError if the metadata is not valid.
      * @category Static Create
      */
     public static async createFromFile(
@@ -48,6 +97,7 @@ export class DataAsset extends AssetBase {
         did?: string
     ): Promise<DataAsset> {
         const storeMetadata = AssetBase.generateMetadata(name, 'dataset', metadata)
+        checkCompression(storeMetadata.compression)
         const data = await fs.promises.readFile(filename)
         storeMetadata.contentType = 'application/octet-stream'
         const mimeType = mime.lookup(filename)
@@ -55,27 +105,432 @@ export class DataAsset extends AssetBase {
             storeMetadata.contentType = mimeType
         }
         storeMetadata.contentHash = calculateAssetDataHash(data)
+        checkMetadata(storeMetadata)
         return new DataAsset(storeMetadata, did, data)
     }
 
+    /**
+     * Create a new data asset object from a file, without reading the file data into memory.
+     * The content hash is calculated as the file is read, and the data is read from the file
+     * each time it is needed, using {@link getDataStream}.
+     * @param name Name of the asset
+     * @param filename Filename of the file to use for the data.
+     * @param metadata Extra metadata to use to create the asset.
+     * @prama did DID of the asset.
+     * @returns a DataAsset object with the dataFilename and contentType obtained from the file.
+     * @throws MetadataValidationError if the metadata is not valid.
+     * @category Static Create
+     */
+    public static async createFromFileStream(
+        name: string,
+        filename: string,
+        metadata?: string | IMetadataData,
+        did?: string
+    ): Promise<DataAsset> {
+        const storeMetadata = AssetBase.generateMetadata(name, 'dataset', metadata)
+        checkCompression(storeMetadata.compression)
+        storeMetadata.contentType = 'application/octet-stream'
+        const mimeType = mime.lookup(filename)
+        if (mimeType) {
+            storeMetadata.contentType = mimeType
+        }
+        storeMetadata.contentHash = await calculateAssetDataHashFromStream(fs.createReadStream(filename))
+        checkMetadata(storeMetadata)
+        const asset = new DataAsset(storeMetadata, did)
+        asset.dataFilename = filename
+        return asset
+    }
+
+    /**
+     * Create a new data asset with the same data, that is encrypted for one or more recipients. A random key is used
+     * to encrypt the data, and this key is encrypted for the public key of each recipient and added to the metadata
+     * `encryption` field. The data is encrypted when it is uploaded, and only the recipients can decrypt the data on download.
+     * The metadata `contentHash` is the hash of the encrypted stored data, so the hash does not reveal the original data.
+     * The hash of the original data is encrypted with the key for each recipient, and is checked after the data is decrypted.
+     * If the asset has no `contentHash`, then the hash of the original data is calculated from the data.
+     * @param asset Data asset to encrypt, this can be compressed.
+     * @param recipients List of recipient accounts or uncompressed secp256k1 public keys.
+     * @returns a new DataAsset object, with a different asset id to the original asset.
+     * @throws MetadataValidationError if the metadata is not valid.
+     * @category Static Create
+     */
+    public static async createEncrypted(asset: DataAsset, recipients: Array<Account | string>): Promise<DataAsset> {
+        const publicKeyList = []
+        for (const recipient of recipients) {
+            publicKeyList.push(typeof recipient == 'string' ? recipient : await recipient.getPublicKey())
+        }
+        const key = createDataKey()
+        let dataHash = asset.metadata.contentHash ? toIdHex(asset.metadata.contentHash) : null
+        if (!dataHash) {
+            // the hash of the original data is needed to check the data after it is decrypted
+            const dataStream = asset.getDataStream()
+            if (dataStream) {
+                dataHash = await calculateAssetDataHashFromStream(dataStream)
+            }
+        }
+        const storeMetadata = { ...asset.metadata, encryption: createDataEncryption(key, publicKeyList, dataHash) }
+        delete storeMetadata.contentHash
+        checkMetadata(storeMetadata)
+        const createAsset = () => {
+            const encryptedAsset = new DataAsset(storeMetadata, null, asset.data)
+            encryptedAsset.dataFilename = asset.dataFilename
+            encryptedAsset.dataLoader = asset.dataLoader
+            encryptedAsset.encryptionKey = key
+            encryptedAsset.dataHash = dataHash
+            return encryptedAsset
+        }
+        // the stored data is the same for the same key, so the hash of the stored data can be set in the metadata
+        const storedAsset = createAsset()
+        if (storedAsset.isStoredDataStreamed()) {
+            storeMetadata.contentHash = await calculateAssetDataHashFromStream(await storedAsset.getStoredDataStream())
+        } else {
+            const storedData = await storedAsset.getStoredData()
+            if (storedData) {
+                storeMetadata.contentHash = calculateAssetDataHash(storedData)
+            }
+        }
+        return createAsset()
+    }
+
+    /**
+     * Write a stream of data to a file.
+     * @param stream Readable stream of data to write.
+     * @param filename Name of the file to write too.
+     */
+    public static async saveStreamToFile(stream: Readable, filename: string): Promise<void> {
+        return pipelineAsync(stream, fs.createWriteStream(filename))
+    }
+
+    /**
+     * Create a function to read a stream in chunks, each call returns the next chunk of the stream.
+     * @param stream Readable stream to read.
+     * @param chunkSize Size of each chunk.
+     * @returns A function that returns the next chunk, this can be smaller than the chunk size at the end of the
+     * stream, or null when all of the stream has been read.
+     */
+    public static createStreamChunkReader(stream: Readable, chunkSize: number): () => Promise<Buffer> {
+        let streamError: Error = null
+        let isEnded = false
+        stream.on('error', (error) => (streamError = error))
+        stream.on('end', () => (isEnded = true))
+        return () =>
+            new Promise((resolve, reject) => {
+                const onChange = () => {
+                    const data = streamError ? null : <Buffer>stream.read(chunkSize)
+                    if (streamError || data !== null || isEnded) {
+                        stream.removeListener('readable', onChange)
+                        stream.removeListener('error', onChange)
+                        stream.removeListener('end', onChange)
+                        return streamError ? reject(streamError) : resolve(data)
+                    }
+                }
+                stream.on('readable', onChange)
+                stream.on('error', onChange)
+                stream.on('end', onChange)
+                onChange()
+            })
+    }
+
     /**
      * Contstruct a DataAsset.
+     * @param metadata Metadata of the asset as string or as an object. An object is serialized as canonical JSON,
+     * see {@link toCanonicalJSON}, a string is used as it is.
+     * @param did DID of the asset.
+     * @param data Data of the asset.
      */
     constructor(metadata: string | IMetadata, did?: string, data?: Buffer) {
-        let metadataText = metadata
-        if (typeof metadata != 'string') {
-            metadataText = JSON.stringify(metadata)
+        super(typeof metadata == 'string' ? metadata : toCanonicalJSON(metadata), did)
+        this.data = data
+    }
+
+    /**
+     * Return a new readable stream of the asset data. The data is read from memory, from the
+     * `dataFilename` or loaded using the `dataLoader` if the data is not held in memory.
+     * @returns A readable stream of the asset data, or null if there is no data.
+     */
+    public getDataStream(): Readable {
+        if (this.data) {
+            const stream = new PassThrough()
+            stream.end(this.data)
+            return stream
+        }
+        if (this.dataFilename) {
+            return fs.createReadStream(this.dataFilename)
+        }
+        if (this.dataLoader) {
+            const stream = new PassThrough()
+            this.getData().then(
+                (data) => stream.end(data),
+                (error) => stream.destroy(error)
+            )
+            return stream
+        }
+        return null
+    }
+
+    /**
+     * Return the asset data. If the data is not held in memory, then it is read from the `dataFilename`
+     * or loaded using the `dataLoader`.
+     * @returns The asset data, or null if there is no data.
+     */
+    public async getData(): Promise<Buffer> {
+        if (!this.data && this.dataFilename) {
+            this.data = await fs.promises.readFile(this.dataFilename)
+        }
+        if (!this.data && this.dataLoader) {
+            this.data = await this.dataLoader()
+        }
+        return this.data ? this.data : null
+    }
+
+    /**
+     * Return the size of the asset data in bytes. If the data is not held in memory, then the size of the `dataFilename`
+     * is returned.
+     */
+    public async getDataSize(): Promise<number> {
+        if (this.data) {
+            return this.data.length
+        }
+        if (this.dataFilename) {
+            const stat = await fs.promises.stat(this.dataFilename)
+            return stat.size
+        }
+        if (this.dataLoader) {
+            return (await this.getData()).length
+        }
+        return 0
+    }
+
+    /**
+     * Read a chunk of the asset data. If the data is not held in memory, then only the chunk is read from the `dataFilename`.
+     * @param start Start position of the chunk.
+     * @param size Size of the chunk to read.
+     * @returns The chunk of data, this can be smaller than the size requested at the end of the data.
+     */
+    public async readDataChunk(start: number, size: number): Promise<Buffer> {
+        if (!this.dataFilename) {
+            await this.getData()
+        }
+        if (this.data) {
+            return this.data.slice(start, start + size)
+        }
+        const file = await fs.promises.open(this.dataFilename, 'r')
+        try {
+            const buffer = Buffer.alloc(size)
+            const result = await file.read(buffer, 0, size, start)
+            return buffer.slice(0, result.bytesRead)
+        } finally {
+            await file.close()
+        }
+    }
+
+    /**
+     * Return true if the data is compressed when it is stored by an agent, this is set by the metadata `compression`
+     * field, e.g. 'gzip', 'brotli' or 'deflate'.
+     */
+    public isCompressed(): boolean {
+        return !!this.metadata.compression
+    }
+
+    /**
+     * Return true if the data is encrypted when it is stored by an agent, this is set by the metadata `encryption`
+     * field, see {@link createEncrypted}.
+     */
+    public isEncrypted(): boolean {
+        return !!this.metadata.encryption
+    }
+
+    /**
+     * Return true if the data stored by an agent is different to the asset data, because it is compressed or encrypted.
+     */
+    public isStoredDataChanged(): boolean {
+        return this.isCompressed() || this.isEncrypted()
+    }
+
+    /**
+     * Decrypt the data key of an encrypted asset, so that the stored data can be encrypted or decrypted.
+     * @param account Account of one of the recipients, with the key data and password.
+     * @throws Error if the account is not a recipient.
+     */
+    public async unlockEncryption(account: Account): Promise<void> {
+        if (this.encryptionKey) {
+            return
+        }
+        const recipient = account ? findEncryptionRecipient(this.metadata.encryption, account.address) : null
+        if (!recipient) {
+            const assetId = this.did ? this.getAssetId() : this.calculateAssetId()
+            throw new Error(`DataAsset: Asset ${assetId} is encrypted, an account of a recipient is needed to decrypt the data`)
+        }
+        const recipientKey = parseRecipientKey(await account.decrypt(recipient))
+        this.encryptionKey = recipientKey.key
+        this.dataHash = recipientKey.dataHash
+    }
+
+    /**
+     * Create a stream to decrypt the stored data of an encrypted asset.
+     * @param account Account of one of the recipients.
+     * @returns A Transform stream, stored data written to the stream is read as the decrypted data.
+     */
+    public async createDecryptStream(account: Account): Promise<Transform> {
+        await this.unlockEncryption(account)
+        return createDecryptStream(this.encryptionKey, this.metadata.encryption)
+    }
+
+    /**
+     * Return true if the data is compressed or encrypted and is read from the `dataFilename` or `dataLoader`,
+     * so the stored data is streamed and not held in memory, see {@link getStoredDataStream}.
+     */
+    public isStoredDataStreamed(): boolean {
+        return this.isStoredDataChanged() && !this.storedData && !!(this.dataFilename || this.dataLoader)
+    }
+
+    /**
+     * Return a new readable stream of the asset data as it is uploaded to and stored by an agent. The data is
+     * compressed and encrypted as it is read, so the stored data is not held in memory.
+     * @returns A readable stream of the stored data, or null if there is no data.
+     */
+    public async getStoredDataStream(): Promise<Readable> {
+        if (this.storedData) {
+            const stream = new PassThrough()
+            stream.end(this.storedData)
+            return stream
+        }
+        if (this.isEncrypted()) {
+            await this.unlockEncryption(null)
+        }
+        const stream = this.getDataStream()
+        if (!stream || !this.isStoredDataChanged()) {
+            return stream
+        }
+        const streamList: Array<Readable | Transform> = [stream]
+        if (this.isCompressed()) {
+            streamList.push(createCompressStream(this.metadata.compression))
+        }
+        if (this.isEncrypted()) {
+            streamList.push(createEncryptStream(this.encryptionKey, this.metadata.encryption))
+        }
+        // the pipeline passes any read error on to the last stream
+        const lastStream = <Transform>streamList[streamList.length - 1]
+        pipeline(streamList, () => undefined)
+        return lastStream
+    }
+
+    /**
+     * Return the asset data as it is uploaded to and stored by an agent. If the data is compressed and/or encrypted
+     * then this is the compressed and encrypted data, which is held in memory, else it is the same as {@link getData}.
+     * The metadata `contentHash` is always the hash of the original data. To upload data that is read from the
+     * `dataFilename` or `dataLoader` use {@link getStoredDataStream} instead.
+     * @returns The stored data, or null if there is no data.
+     */
+    public async getStoredData(): Promise<Buffer> {
+        if (!this.isStoredDataChanged()) {
+            return this.getData()
+        }
+        if (!this.storedData) {
+            let data = await this.getData()
+            if (!data) {
+                return null
+            }
+            if (this.isCompressed()) {
+                data = await compressData(data, this.metadata.compression)
+            }
+            if (this.isEncrypted()) {
+                await this.unlockEncryption(null)
+                data = encryptData(data, this.encryptionKey, this.metadata.encryption)
+            }
+            this.storedData = data
+        }
+        return this.storedData
+    }
+
+    /**
+     * Return the size of the stored data in bytes, see {@link getStoredData}. If the stored data is streamed,
+     * see {@link isStoredDataStreamed}, then the size is counted by reading the stored data stream, else
+     * the compressed or encrypted data is held in memory.
+     */
+    public async getStoredDataSize(): Promise<number> {
+        if (!this.isStoredDataChanged()) {
+            return this.getDataSize()
+        }
+        if (this.isStoredDataStreamed()) {
+            if (this.storedDataSize === undefined) {
+                let size = 0
+                const stream = await this.getStoredDataStream()
+                stream.on('data', (chunk: Buffer) => (size += chunk.length))
+                await promisify(finished)(stream)
+                this.storedDataSize = size
+            }
+            return this.storedDataSize
+        }
+        const storedData = await this.getStoredData()
+        return storedData ? storedData.length : 0
+    }
+
+    /**
+     * Read a chunk of the stored data, see {@link getStoredData}.
+     * @param start Start position of the chunk.
+     * @param size Size of the chunk to read.
+     * @returns The chunk of stored data, this can be smaller than the size requested at the end of the data.
+     */
+    public async readStoredDataChunk(start: number, size: number): Promise<Buffer> {
+        if (!this.isStoredDataChanged()) {
+            return this.readDataChunk(start, size)
+        }
+        return (await this.getStoredData()).slice(start, start + size)
+    }
+
+    /**
+     * Set the asset data from the data stored by an agent. If the data is encrypted, then it is decrypted using
+     * the account, and if the data is compressed, then it is decompressed.
+     * @param storedData Data as it is stored by the agent.
+     * @param account Account of one of the recipients, only needed if the data is encrypted.
+     */
+    public async setStoredData(storedData: Buffer, account?: Account): Promise<void> {
+        let data = storedData
+        if (this.isEncrypted()) {
+            await this.unlockEncryption(account)
+            data = decryptData(data, this.encryptionKey, this.metadata.encryption)
+        }
+        if (this.isCompressed()) {
+            data = await decompressData(data, this.metadata.compression)
         }
-        super(<string>metadataText, did)
         this.data = data
+        this.storedData = this.isStoredDataChanged() ? storedData : undefined
+    }
+
+    /**
+     * Check that the hash of the data matches the `contentHash` in the metadata. If the metadata has no
+     * `contentHash` then no check is done. For an encrypted asset the data is checked against the hash of the
+     * original data that is encrypted with the key, see {@link createEncrypted}, so the asset must be unlocked first.
+     * @param dataHash Hash of the data, see {@link calculateAssetDataHash}.
+     * @throws AssetIntegrityError if the hash is different.
+     */
+    public checkContentHash(dataHash: string): void {
+        const expectedHash = this.isEncrypted() && this.dataHash ? this.dataHash : this.metadata.contentHash
+        if (!expectedHash) {
+            return
+        }
+        const contentHash = toIdHex(expectedHash).toLowerCase()
+        if (contentHash != dataHash.toLowerCase()) {
+            const assetId = this.did ? this.getAssetId() : this.calculateAssetId()
+            throw new AssetIntegrityError(
+                'Asset data does not match the contentHash',
+                assetId,
+                'contentHash',
+                contentHash,
+                dataHash
+            )
+        }
     }
 
     /**
-     * Save the asset data to a file.
+     * Save the asset data to a file. If the data is not held in memory, then it is streamed from the `dataFilename`.
      * @param filename Name of file to save too.
-     * @returns True if successful, else False.
      */
     public async saveToFile(filename: string): Promise<void> {
-        fs.promises.writeFile(filename, this.data)
+        if (this.data) {
+            return fs.promises.writeFile(filename, this.data)
+        }
+        return DataAsset.saveStreamToFile(this.getDataStream(), filename)
     }
 }
@@ -0,0 +1,177 @@
+/*
+ *
+ *
+ *      Envelope encryption functions for the asset data
+ *
+ *
+ */
+
+import crypto from 'crypto'
+import { Transform } from 'stream'
+
+import { IDataEncryption, IEncryptionRecipient, IRecipientKey } from '../Interfaces/IEncryption'
+import { eciesEncrypt, getAddressFromPublicKey } from '../Crypto'
+
+export const DATA_ENCRYPTION_ALGORITHM = 'aes-256-gcm'
+export const KEY_ENCRYPTION_ALGORITHM = 'ecies-secp256k1'
+
+const DATA_KEY_LENGTH = 32
+const IV_LENGTH = 12
+const TAG_LENGTH = 16
+
+/**
+ * Create a new random key to encrypt the data of one asset.
+ */
+export function createDataKey(): Buffer {
+    return crypto.randomBytes(DATA_KEY_LENGTH)
+}
+
+/**
+ * Create the metadata `encryption` field for a data key. The data key is encrypted for each recipient public key,
+ * so that only the recipients can decrypt the data. The hash of the original data is encrypted with the key, so that
+ * it is only known to the recipients, see {@link parseRecipientKey}.
+ * @param key Data key, see {@link createDataKey}.
+ * @param publicKeyList List of uncompressed secp256k1 public keys of the recipients.
+ * @param dataHash Optional SHA3-256 hash of the original data.
+ * @returns The encryption info to add to the asset metadata.
+ */
+export function createDataEncryption(key: Buffer, publicKeyList: Array<string>, dataHash?: string): IDataEncryption {
+    if (publicKeyList.length == 0) {
+        throw new Error('Encryption: At least one recipient is needed to encrypt the data')
+    }
+    const recipientKey = dataHash ? Buffer.concat([key, Buffer.from(dataHash.replace(/^0x/i, ''), 'hex')]) : key
+    return {
+        algorithm: DATA_ENCRYPTION_ALGORITHM,
+        iv: crypto.randomBytes(IV_LENGTH).toString('hex'),
+        keyAlgorithm: KEY_ENCRYPTION_ALGORITHM,
+        recipients: publicKeyList.map((publicKey) => {
+            return {
+                address: getAddressFromPublicKey(publicKey),
+                ...eciesEncrypt(publicKey, recipientKey),
+            }
+        }),
+    }
+}
+
+/**
+ * Throw an error if the encryption algorithms are not supported.
+ * @param encryption Encryption info from the asset metadata.
+ */
+export function checkEncryption(encryption: IDataEncryption): void {
+    if (encryption.algorithm != DATA_ENCRYPTION_ALGORITHM) {
+        throw new Error(`Encryption: '${encryption.algorithm}' is not supported, use ${DATA_ENCRYPTION_ALGORITHM}`)
+    }
+    if (encryption.keyAlgorithm != KEY_ENCRYPTION_ALGORITHM) {
+        throw new Error(`Encryption: '${encryption.keyAlgorithm}' is not supported, use ${KEY_ENCRYPTION_ALGORITHM}`)
+    }
+}
+
+/**
+ * Split the key decrypted by a recipient into the data key and the hash of the original data.
+ * @param recipientKey Key decrypted by a recipient, see {@link createDataEncryption}.
+ * @returns The data key, and the data hash as a hex string or null if the data hash was not encrypted with the key.
+ */
+export function parseRecipientKey(recipientKey: Buffer): IRecipientKey {
+    return {
+        key: recipientKey.slice(0, DATA_KEY_LENGTH),
+        dataHash: recipientKey.length > DATA_KEY_LENGTH ? recipientKey.slice(DATA_KEY_LENGTH).toString('hex') : null,
+    }
+}
+
+/**
+ * Find the recipient of the encrypted data key for an address.
+ * @param encryption Encryption info from the asset metadata.
+ * @param address Address of the recipient account.
+ * @returns The recipient, or null if the address is not a recipient.
+ */
+export function findEncryptionRecipient(encryption: IDataEncryption, address: string): IEncryptionRecipient {
+    const recipient = encryption.recipients.find((item) => item.address.toLowerCase() == address.toLowerCase())
+    return recipient ? recipient : null
+}
+
+/**
+ * Encrypt data.
+ * @param data Data to encrypt.
+ * @param key Data key.
+ * @param encryption Encryption info from the asset metadata.
+ * @returns The encrypted data followed by the auth tag.
+ */
+export function encryptData(data: Buffer, key: Buffer, encryption: IDataEncryption): Buffer {
+    checkEncryption(encryption)
+    const cipher = crypto.createCipheriv(DATA_ENCRYPTION_ALGORITHM, key, Buffer.from(encryption.iv, 'hex'))
+    return Buffer.concat([cipher.update(data), cipher.final(), cipher.getAuthTag()])
+}
+
+/**
+ * Create a stream to encrypt data. The auth tag is added to the end of the encrypted data, the same as {@link encryptData}.
+ * @param key Data key.
+ * @param encryption Encryption info from the asset metadata.
+ * @returns A Transform stream, data written to the stream is read as the encrypted data.
+ */
+export function createEncryptStream(key: Buffer, encryption: IDataEncryption): Transform {
+    checkEncryption(encryption)
+    const cipher = crypto.createCipheriv(DATA_ENCRYPTION_ALGORITHM, key, Buffer.from(encryption.iv, 'hex'))
+    return new Transform({
+        transform(chunk: Buffer, encoding: string, callback: (error?: Error, data?: Buffer) => void): void {
+            callback(null, cipher.update(chunk))
+        },
+        flush(callback: (error?: Error, data?: Buffer) => void): void {
+            callback(null, Buffer.concat([cipher.final(), cipher.getAuthTag()]))
+        },
+    })
+}
+
+/**
+ * Decrypt data.
+ * @param data Encrypted data followed by the auth tag, see {@link encryptData}.
+ * @param key Data key.
+ * @param encryption Encryption info from the asset metadata.
+ * @returns The decrypted data.
+ * @throws Error if the key does not match or the data has been changed.
+ */
+export function decryptData(data: Buffer, key: Buffer, encryption: IDataEncryption): Buffer {
+    const decipher = createDecipher(key, encryption)
+    try {
+        decipher.setAuthTag(data.slice(Math.max(data.length - TAG_LENGTH, 0)))
+        return Buffer.concat([decipher.update(data.slice(0, Math.max(data.length - TAG_LENGTH, 0))), decipher.final()])
+    } catch (error) {
+        throw new Error('Encryption: Unable to decrypt the data, the key does not match or the data has been changed')
+    }
+}
+
+/**
+ * Create a stream to decrypt data. The auth tag at the end of the data is held back until all of the data has
+ * been read, and is then checked.
+ * @param key Data key.
+ * @param encryption Encryption info from the asset metadata.
+ * @returns A Transform stream, encrypted data written to the stream is read as the decrypted data.
+ */
+export function createDecryptStream(key: Buffer, encryption: IDataEncryption): Transform {
+    const decipher = createDecipher(key, encryption)
+    let tail = Buffer.alloc(0)
+    return new Transform({
+        transform(chunk: Buffer, encoding: string, callback: (error?: Error, data?: Buffer) => void): void {
+            const buffer = Buffer.concat([tail, chunk])
+            const size = Math.max(buffer.length - TAG_LENGTH, 0)
+            tail = buffer.slice(size)
+            callback(null, decipher.update(buffer.slice(0, size)))
+        },
+        flush(callback: (error?: Error, data?: Buffer) => void): void {
+            try {
+                decipher.setAuthTag(tail)
+                callback(null, decipher.final())
+            } catch (error) {
+                callback(new Error('Encryption: Unable to decrypt the data, the key does not match or the data has been changed'))
+            }
+        },
+    })
+}
+
+/**
+ * @internal
+ * Return a new decipher for the data.
+ */
+function createDecipher(key: Buffer, encryption: IDataEncryption): crypto.DecipherGCM {
+    checkEncryption(encryption)
+    return crypto.createDecipheriv(DATA_ENCRYPTION_ALGORITHM, key, Buffer.from(encryption.iv, 'hex'))
+}
@@ -0,0 +1,324 @@
+/*
+ *
+ *
+ *      Metadata validation functions
+ *
+ *
+ */
+
+import { IMetadata, IMetadataError, IMetadataTypeValidator } from '../Interfaces/IMetadata'
+import { isDID } from '../Utils'
+import { getCompressionList, isCompressionSupported } from './Compression'
+
+export const OPERATION_MODE_LIST = ['sync', 'async']
+export const OPERATION_PARAM_TYPE_LIST = ['json', 'asset', 'string', 'number', 'boolean', 'object', 'array']
+
+const ASSET_ID_REGEXP = /^(0x)?[0-9a-f]{64}$/i
+const ASSET_DID_REGEXP = /\/(0x)?[0-9a-f]{64}$/i
+const CONTENT_HASH_REGEXP = /^(0x)?[0-9a-f]{64}$/i
+const ADDRESS_REGEXP = /^0x[0-9a-f]{40}$/i
+const HEX_REGEXP = /^(0x)?[0-9a-f]+$/i
+const CONTENT_TYPE_REGEXP = /^[\w.+-]+\/[\w.+-]+(\s*;.*)?$/
+const DATE_TIME_REGEXP = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/
+
+const DEFAULT_METADATA_TYPES: { [type: string]: IMetadataTypeValidator } = {
+    dataset: validateDataFields,
+    operation: validateOperationFields,
+    bundle: validateBundleFields,
+}
+
+const metadataTypes: { [type: string]: IMetadataTypeValidator } = { ...DEFAULT_METADATA_TYPES }
+
+export class MetadataValidationError extends Error {
+    public errors: Array<IMetadataError>
+    constructor(message: string, errors: Array<IMetadataError>) {
+        super(`${message}: ${errors.map((error) => `${error.path}: ${error.message}`).join(', ')}`)
+        Object.setPrototypeOf(this, MetadataValidationError.prototype)
+        this.name = 'MetadataValidationError'
+        this.errors = errors
+    }
+}
+
+/**
+ * @internal
+ * Return true if the value is an object, and not an array or null.
+ */
+function isObject(value: unknown): boolean {
+    return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+/**
+ * @internal
+ * Add an error for each of the fields that are set and are not strings.
+ */
+function validateStringFields(value: unknown, path: string, names: Array<string>, errors: Array<IMetadataError>): void {
+    for (const name of names) {
+        if (value[name] !== undefined && typeof value[name] !== 'string') {
+            errors.push({ path: `${path}${name}`, message: 'must be a string' })
+        }
+    }
+}
+
+/**
+ * Return true if the value is an ISO 8601 date, or date and time.
+ * @param value Value to test.
+ */
+export function isISODateTime(value: unknown): boolean {
+    return typeof value === 'string' && DATE_TIME_REGEXP.test(value) && !isNaN(Date.parse(value))
+}
+
+/**
+ * Return true if the value is an assetId, or an asset DID.
+ * @param value Value to test.
+ */
+export function isAssetIdOrDID(value: unknown): boolean {
+    if (typeof value !== 'string') {
+        return false
+    }
+    return ASSET_ID_REGEXP.test(value) || (isDID(value) && ASSET_DID_REGEXP.test(value))
+}
+
+/**
+ * @internal
+ * Validate the base fields used by all asset types.
+ */
+function validateBaseFields(metadata: IMetadata, errors: Array<IMetadataError>): void {
+    if (typeof metadata.name !== 'string' || !metadata.name) {
+        errors.push({ path: 'name', message: 'is required' })
+    }
+    if (!Object.prototype.hasOwnProperty.call(metadataTypes, metadata.type)) {
+        errors.push({ path: 'type', message: `must be one of ${getMetadataTypeList().join(', ')}` })
+    }
+    validateStringFields(metadata, '', ['description', 'creator', 'license', 'copyrightHolder', 'inLanguage'], errors)
+    if (metadata.dateCreated !== undefined && !isISODateTime(metadata.dateCreated)) {
+        errors.push({ path: 'dateCreated', message: 'must be an ISO 8601 date time, e.g. 2020-01-10T00:00:00Z' })
+    }
+    if (metadata.tags !== undefined) {
+        if (!Array.isArray(metadata.tags)) {
+            errors.push({ path: 'tags', message: 'must be an array of strings' })
+        } else {
+            metadata.tags.forEach((tag, index) => {
+                if (typeof tag !== 'string') {
+                    errors.push({ path: `tags[${index}]`, message: 'must be a string' })
+                }
+            })
+        }
+    }
+    if (metadata.links !== undefined) {
+        if (!Array.isArray(metadata.links)) {
+            errors.push({ path: 'links', message: 'must be an array of links' })
+        } else {
+            metadata.links.forEach((link, index) => {
+                const path = `links[${index}]`
+                if (!isObject(link)) {
+                    errors.push({ path: path, message: 'must be an object' })
+                    return
+                }
+                if (typeof link.type !== 'string' || !link.type) {
+                    errors.push({ path: `${path}.type`, message: 'is required' })
+                }
+                validateStringFields(link, `${path}.`, ['name', 'url'], errors)
+                if (link.assetID !== undefined && !isAssetIdOrDID(link.assetID)) {
+                    errors.push({ path: `${path}.assetID`, message: 'must be an assetId or asset DID' })
+                }
+            })
+        }
+    }
+}
+
+/**
+ * @internal
+ * Validate the fields used by a data asset.
+ */
+function validateDataFields(metadata: IMetadata, errors: Array<IMetadataError>): void {
+    validateStringFields(metadata, '', ['size', 'encoding'], errors)
+    if (
+        metadata.contentType !== undefined &&
+        !(typeof metadata.contentType === 'string' && CONTENT_TYPE_REGEXP.test(metadata.contentType))
+    ) {
+        errors.push({ path: 'contentType', message: 'must be a mime type, e.g. text/csv' })
+    }
+    if (metadata.compression !== undefined && !isCompressionSupported(metadata.compression)) {
+        errors.push({ path: 'compression', message: `must be one of ${getCompressionList().join(', ')}` })
+    }
+    if (
+        metadata.contentHash !== undefined &&
+        !(typeof metadata.contentHash === 'string' && CONTENT_HASH_REGEXP.test(metadata.contentHash))
+    ) {
+        errors.push({ path: 'contentHash', message: 'must be a SHA3-256 hash as a hex string' })
+    }
+    const encryption = metadata.encryption
+    if (encryption !== undefined) {
+        if (!isObject(encryption)) {
+            errors.push({ path: 'encryption', message: 'must be an object' })
+            return
+        }
+        validateStringFields(encryption, 'encryption.', ['algorithm', 'keyAlgorithm'], errors)
+        if (typeof encryption.iv !== 'string' || !HEX_REGEXP.test(encryption.iv)) {
+            errors.push({ path: 'encryption.iv', message: 'must be a hex string' })
+        }
+        if (!Array.isArray(encryption.recipients) || encryption.recipients.length == 0) {
+            errors.push({ path: 'encryption.recipients', message: 'must be an array with at least one recipient' })
+            return
+        }
+        encryption.recipients.forEach((recipient, index) => {
+            const path = `encryption.recipients[${index}]`
+            if (!isObject(recipient)) {
+                errors.push({ path: path, message: 'must be an object' })
+                return
+            }
+            if (typeof recipient.address !== 'string' || !ADDRESS_REGEXP.test(recipient.address)) {
+                errors.push({ path: `${path}.address`, message: 'must be an account address' })
+            }
+            for (const name of ['ephemeralPublicKey', 'iv', 'tag', 'ciphertext']) {
+                if (typeof recipient[name] !== 'string' || !HEX_REGEXP.test(recipient[name])) {
+                    errors.push({ path: `${path}.${name}`, message: 'must be a hex string' })
+                }
+            }
+        })
+    }
+}
+
+/**
+ * @internal
+ * Validate the fields used by an operation asset.
+ */
+function validateOperationFields(metadata: IMetadata, errors: Array<IMetadataError>): void {
+    const operation = metadata.operation
+    if (operation === undefined) {
+        return
+    }
+    if (!isObject(operation)) {
+        errors.push({ path: 'operation', message: 'must be an object' })
+        return
+    }
+    validateStringFields(operation, 'operation.', ['class'], errors)
+    if (operation.modes !== undefined) {
+        if (!Array.isArray(operation.modes)) {
+            errors.push({ path: 'operation.modes', message: 'must be an array' })
+        } else {
+            operation.modes.forEach((mode, index) => {
+                if (OPERATION_MODE_LIST.indexOf(mode) < 0) {
+                    errors.push({ path: `operation.modes[${index}]`, message: `must be one of ${OPERATION_MODE_LIST.join(', ')}` })
+                }
+            })
+        }
+    }
+    for (const paramListName of ['inputs', 'outputs']) {
+        const paramList = operation[paramListName]
+        const path = `operation.${paramListName}`
+        if (paramList === undefined) {
+            continue
+        }
+        if (!isObject(paramList)) {
+            errors.push({ path: path, message: 'must be an object' })
+            continue
+        }
+        for (const name of Object.keys(paramList)) {
+            const param = paramList[name]
+            if (!isObject(param)) {
+                errors.push({ path: `${path}.${name}`, message: 'must be an object' })
+                continue
+            }
+            if (OPERATION_PARAM_TYPE_LIST.indexOf(param.type) < 0) {
+                errors.push({ path: `${path}.${name}.type`, message: `must be one of ${OPERATION_PARAM_TYPE_LIST.join(', ')}` })
+            }
+            if (param.required !== undefined && typeof param.required !== 'boolean') {
+                errors.push({ path: `${path}.${name}.required`, message: 'must be a boolean' })
+            }
+            validateStringFields(param, `${path}.${name}.`, ['description'], errors)
+        }
+    }
+}
+
+/**
+ * @internal
+ * Validate the fields used by a bundle asset.
+ */
+function validateBundleFields(metadata: IMetadata, errors: Array<IMetadataError>): void {
+    const contents = metadata.contents
+    if (contents === undefined) {
+        return
+    }
+    if (!isObject(contents)) {
+        errors.push({ path: 'contents', message: 'must be an object' })
+        return
+    }
+    for (const name of Object.keys(contents)) {
+        const content = contents[name]
+        if (!isObject(content)) {
+            errors.push({ path: `contents.${name}`, message: 'must be an object' })
+        } else if (!isAssetIdOrDID(content.assetID)) {
+            errors.push({ path: `contents.${name}.assetID`, message: 'must be an assetId or asset DID' })
+        }
+    }
+}
+
+/**
+ * Register a metadata `type`, so that metadata with this type is valid. This is called by {@link registerAssetType}.
+ * A validator can be registered for one of the standard types 'dataset', 'operation' or 'bundle', to replace the
+ * standard validation of the type specific fields.
+ * @param type Metadata `type` of the asset.
+ * @param validator Optional function to validate the type specific fields, if not set only the base fields are validated.
+ */
+export function registerMetadataType(type: string, validator?: IMetadataTypeValidator): void {
+    metadataTypes[type] = validator ? validator : () => undefined
+}
+
+/**
+ * Remove a registered metadata type. If the type is one of the standard types, then the standard validation is used again.
+ * @param type Metadata `type` of the asset.
+ */
+export function unregisterMetadataType(type: string): void {
+    if (DEFAULT_METADATA_TYPES[type]) {
+        metadataTypes[type] = DEFAULT_METADATA_TYPES[type]
+    } else {
+        delete metadataTypes[type]
+    }
+}
+
+/**
+ * Return the list of metadata types that are valid.
+ */
+export function getMetadataTypeList(): Array<string> {
+    return Object.keys(metadataTypes)
+}
+
+/**
+ * Validate asset metadata, as defined by [DEP #8](https://github.com/DEX-Company/DEPs/tree/master/8). The base fields
+ * are checked for all asset types, and the type specific fields are checked for the asset `type`.
+ * @param metadata Metadata to validate, as an object or JSON text.
+ * @returns A list of errors, each with the path of the invalid field, or an empty list if the metadata is valid.
+ */
+export function validateMetadata(metadata: unknown): Array<IMetadataError> {
+    let safeMetadata = metadata
+    if (typeof metadata === 'string') {
+        try {
+            safeMetadata = JSON.parse(metadata)
+        } catch (error) {
+            return [{ path: '', message: 'must be valid JSON' }]
+        }
+    }
+    if (!isObject(safeMetadata)) {
+        return [{ path: '', message: 'must be an object' }]
+    }
+    const errors: Array<IMetadataError> = []
+    const metadataObject = <IMetadata>safeMetadata
+    validateBaseFields(metadataObject, errors)
+    if (Object.prototype.hasOwnProperty.call(metadataTypes, metadataObject.type)) {
+        metadataTypes[metadataObject.type](metadataObject, errors)
+    }
+    return errors
+}
+
+/**
+ * Throw an error if the metadata is not valid.
+ * @param metadata Metadata to validate, as an object or JSON text.
+ * @throws MetadataValidationError with a list of the invalid fields.
+ */
+export function checkMetadata(metadata: unknown): void {
+    const errors = validateMetadata(metadata)
+    if (errors.length > 0) {
+        throw new MetadataValidationError('Metadata: Invalid metadata', errors)
+    }
+}
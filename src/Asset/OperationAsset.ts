@@ -6,8 +6,26 @@
  *
  */
 
-import { IMetadataOperation } from '../Interfaces/IMetadata'
+import { IMetadata, IMetadataOperation, IOperationParamList } from '../Interfaces/IMetadata'
 import { AssetBase } from './AssetBase'
+import { checkMetadata } from './MetadataValidator'
+import { toCanonicalJSON } from '../Utils'
+
+export interface IOperationParamError {
+    name: string
+    message: string
+}
+
+export class OperationValidationError extends Error {
+    public errors: Array<IOperationParamError>
+    constructor(message: string, errors: Array<IOperationParamError>) {
+        const errorText = errors.map((error) => `${error.name}: ${error.message}`).join(', ')
+        super(errorText ? `${message}: ${errorText}` : message)
+        Object.setPrototypeOf(this, OperationValidationError.prototype)
+        this.name = 'OperationValidationError'
+        this.errors = errors
+    }
+}
 
 export class OperationAsset extends AssetBase {
     /**
@@ -15,10 +33,138 @@ export class OperationAsset extends AssetBase {
      * @param name Name of the asset.
      * @param metdata Extra metdata to assign to this asset.
      * @param did DID of the asset.
+     * @throws MetadataValidationError if the metadata is not valid.
      * @category Static Create
      */
     public static create(name: string, metadata?: string | IMetadataOperation, did?: string): OperationAsset {
         const storeMetadata = AssetBase.generateMetadata(name, 'operation', metadata)
-        return new OperationAsset(JSON.stringify(storeMetadata), did)
+        checkMetadata(storeMetadata)
+        return new OperationAsset(storeMetadata, did)
+    }
+
+    /**
+     * @internal
+     * Validate a list of values against a list of declared parameters.
+     * @returns A list of errors, one for each invalid value.
+     */
+    protected static validateParams(values: unknown, paramList: IOperationParamList): Array<IOperationParamError> {
+        if (!paramList) {
+            return []
+        }
+        if (values !== undefined && values !== null && (typeof values !== 'object' || Array.isArray(values))) {
+            return [{ name: '', message: 'must be an object' }]
+        }
+        const safeValues = values ? values : {}
+        const errors: Array<IOperationParamError> = []
+        for (const name of Object.keys(paramList)) {
+            const param = paramList[name]
+            const value = safeValues[name]
+            if (value === undefined || value === null) {
+                if (param.required) {
+                    errors.push({ name: name, message: 'is required' })
+                }
+            } else if (!OperationAsset.isValidParamValue(param.type, value)) {
+                errors.push({ name: name, message: `must be of type '${param.type}'` })
+            }
+        }
+        for (const name of Object.keys(safeValues)) {
+            if (!paramList[name]) {
+                errors.push({ name: name, message: 'is not a declared parameter' })
+            }
+        }
+        return errors
+    }
+
+    /**
+     * @internal
+     * Return true if the value matches the parameter type, unknown types always match.
+     */
+    protected static isValidParamValue(type: string, value: unknown): boolean {
+        switch (type) {
+            case 'asset':
+                return typeof value === 'string' || (typeof value === 'object' && typeof value['did'] === 'string')
+            case 'string':
+            case 'number':
+            case 'boolean':
+                return typeof value === type
+            case 'object':
+                return typeof value === 'object' && !Array.isArray(value)
+            case 'array':
+                return Array.isArray(value)
+        }
+        return true
+    }
+
+    /**
+     * Construct a new OperationAsset. Please use {@link create} method instead to create a new OperationAsset object.
+     * @param metadata Metadata of the asset as string or as an object. An object is serialized as canonical JSON,
+     * see {@link toCanonicalJSON}, a string is used as it is.
+     * @param did DID of the asset.
+     */
+    constructor(metadata: string | IMetadata, did?: string) {
+        super(typeof metadata == 'string' ? metadata : toCanonicalJSON(metadata), did)
+    }
+
+    /**
+     * Return true if the operation can be invoked in the given mode.
+     * @param isAsync True to check for the 'async' mode, else check for the 'sync' mode.
+     */
+    public isModeAllowed(isAsync?: boolean): boolean {
+        const operation = this.metadata.operation
+        if (!operation || !operation.modes) {
+            return true
+        }
+        return operation.modes.indexOf(isAsync ? 'async' : 'sync') >= 0
+    }
+
+    /**
+     * Validate the inputs against the operation's declared `inputs` parameters.
+     * @param inputs Inputs to be sent to the operation.
+     * @returns A list of errors, or an empty list if the inputs are valid.
+     */
+    public validateInputs(inputs: unknown): Array<IOperationParamError> {
+        const operation = this.metadata.operation
+        return OperationAsset.validateParams(inputs, operation ? operation.inputs : null)
+    }
+
+    /**
+     * Validate the outputs against the operation's declared `outputs` parameters.
+     * @param outputs Outputs returned by the operation.
+     * @returns A list of errors, or an empty list if the outputs are valid.
+     */
+    public validateOutputs(outputs: unknown): Array<IOperationParamError> {
+        const operation = this.metadata.operation
+        return OperationAsset.validateParams(outputs, operation ? operation.outputs : null)
+    }
+
+    /**
+     * Check that the operation can be invoked with the inputs and mode, else throw an error.
+     * @param inputs Inputs to be sent to the operation.
+     * @param isAsync True if the operation is to be invoked as async.
+     * @throws OperationValidationError if the mode is not allowed or the inputs are invalid.
+     */
+    public checkInvoke(inputs: unknown, isAsync?: boolean): void {
+        if (!this.isModeAllowed(isAsync)) {
+            throw new OperationValidationError(
+                `Operation ${this.metadata.name} does not allow ${isAsync ? 'async' : 'sync'} invoke`,
+                []
+            )
+        }
+        const errors = this.validateInputs(inputs)
+        if (errors.length > 0) {
+            throw new OperationValidationError(`Operation ${this.metadata.name} has invalid inputs`, errors)
+        }
+    }
+
+    /**
+     * Check that the outputs returned by the operation are valid, else throw an error.
+     * @param outputs Outputs returned by the operation.
+     * @throws OperationValidationError if the outputs are invalid.
+     */
+    public checkOutputs(outputs: unknown): void {
+        const errors = this.validateOutputs(outputs)
+        if (errors.length > 0) {
+            throw new OperationValidationError(`Operation ${this.metadata.name} has invalid outputs`, errors)
+        }
     }
 }
@@ -6,11 +6,18 @@
  */
 
 import crypto from 'crypto'
+import { Readable, Transform } from 'stream'
+import { keccak256, toChecksumAddress } from 'web3-utils'
+
+import { IEncryptedData } from './Interfaces/IEncryption'
+
+const ECIES_CURVE = 'secp256k1'
+const ECIES_CIPHER = 'aes-256-gcm'
 
 /**
  * Caluclate the assetId based on the metadata text. At the moment no validation is done on the text.
  * @param metadataText text to calculate the hash on.
- * @returns SHA-256 of the metadata text as hex string.
+ * @returns SHA3-256 of the metadata text as hex string.
  */
 export function calculateAssetId(metadataText: string): string {
     return crypto.createHash('SHA3-256').update(metadataText).digest('hex')
@@ -19,8 +26,124 @@ export function calculateAssetId(metadataText: string): string {
 /**
  * Calculate the content hash of any asset data.
  * @param buffer Data to calculate the hash.
- * @returns the SHA-256 hash of the data as hex string.
+ * @returns the SHA3-256 hash of the data as hex string.
  */
 export function calculateAssetDataHash(buffer: Buffer): string {
     return crypto.createHash('SHA3-256').update(buffer).digest('hex')
 }
+
+/**
+ * Calculate the content hash of any asset data, read from a stream. The data is hashed as it is read, so
+ * the stream can be larger than the available memory.
+ * @param stream Readable stream of the data to calculate the hash.
+ * @returns the SHA3-256 hash of the data as hex string.
+ */
+export function calculateAssetDataHashFromStream(stream: Readable): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const hash = crypto.createHash('SHA3-256')
+        stream.on('data', (chunk: Buffer) => hash.update(chunk))
+        stream.on('end', () => resolve(hash.digest('hex')))
+        stream.on('error', reject)
+    })
+}
+
+/**
+ * Create a stream that passes the asset data through unchanged, and calculates the content hash of the data as
+ * it is read.
+ * @param onHash Called with the hash of the data after all of the data has been read. If this throws an error,
+ * then the stream emits the error.
+ * @returns a Transform stream of the data.
+ */
+export function createAssetDataHashStream(onHash: (dataHash: string) => void): Transform {
+    const hash = crypto.createHash('SHA3-256')
+    return new Transform({
+        transform(chunk: Buffer, encoding: string, callback: (error?: Error, data?: Buffer) => void): void {
+            hash.update(chunk)
+            callback(null, chunk)
+        },
+        flush(callback: (error?: Error) => void): void {
+            try {
+                onHash(hash.digest('hex'))
+                callback()
+            } catch (error) {
+                callback(error)
+            }
+        },
+    })
+}
+
+/**
+ * @internal
+ * Return a hex string as a Buffer, the hex string can start with '0x'.
+ */
+function hexToBuffer(value: string): Buffer {
+    return Buffer.from(value.replace(/^0x/i, ''), 'hex')
+}
+
+/**
+ * Return the uncompressed secp256k1 public key of a private key.
+ * @param privateKey Private key as a hex string.
+ * @returns The public key as a hex string, starting with '0x04'.
+ */
+export function getPublicKey(privateKey: string): string {
+    const ecdh = crypto.createECDH(ECIES_CURVE)
+    ecdh.setPrivateKey(hexToBuffer(privateKey))
+    return '0x' + ecdh.getPublicKey('hex')
+}
+
+/**
+ * Return the account address of a secp256k1 public key.
+ * @param publicKey Uncompressed public key as a hex string.
+ * @returns The checksum address.
+ */
+export function getAddressFromPublicKey(publicKey: string): string {
+    const publicKeyHex = hexToBuffer(publicKey).toString('hex')
+    if (publicKeyHex.length != 130 || publicKeyHex.substring(0, 2) != '04') {
+        throw new Error('Crypto: Public key must be an uncompressed secp256k1 public key')
+    }
+    return toChecksumAddress('0x' + keccak256('0x' + publicKeyHex.substring(2)).substring(26))
+}
+
+/**
+ * Encrypt data for a secp256k1 public key using ECIES. A new ephemeral key is used for each call, the shared secret
+ * is hashed using SHA3-256 to give the key to encrypt the data using AES-256-GCM.
+ * @param publicKey Public key to encrypt for, as a hex string.
+ * @param data Data to encrypt.
+ * @returns The encrypted data, this can only be decrypted by the owner of the private key.
+ */
+export function eciesEncrypt(publicKey: string, data: Buffer): IEncryptedData {
+    const ecdh = crypto.createECDH(ECIES_CURVE)
+    ecdh.generateKeys()
+    const sharedSecret = ecdh.computeSecret(hexToBuffer(publicKey))
+    const key = crypto.createHash('SHA3-256').update(sharedSecret).digest()
+    const iv = crypto.randomBytes(12)
+    const cipher = crypto.createCipheriv(ECIES_CIPHER, key, iv)
+    const ciphertext = Buffer.concat([cipher.update(data), cipher.final()])
+    return {
+        ephemeralPublicKey: ecdh.getPublicKey('hex'),
+        iv: iv.toString('hex'),
+        tag: cipher.getAuthTag().toString('hex'),
+        ciphertext: ciphertext.toString('hex'),
+    }
+}
+
+/**
+ * Decrypt data that has been encrypted using {@link eciesEncrypt}.
+ * @param privateKey Private key of the public key used to encrypt the data, as a hex string.
+ * @param encryptedData The encrypted data.
+ * @returns The decrypted data.
+ * @throws Error if the private key does not match, or the data has been changed.
+ */
+export function eciesDecrypt(privateKey: string, encryptedData: IEncryptedData): Buffer {
+    const ecdh = crypto.createECDH(ECIES_CURVE)
+    ecdh.setPrivateKey(hexToBuffer(privateKey))
+    const sharedSecret = ecdh.computeSecret(hexToBuffer(encryptedData.ephemeralPublicKey))
+    const key = crypto.createHash('SHA3-256').update(sharedSecret).digest()
+    const decipher = crypto.createDecipheriv(ECIES_CIPHER, key, hexToBuffer(encryptedData.iv))
+    decipher.setAuthTag(hexToBuffer(encryptedData.tag))
+    try {
+        return Buffer.concat([decipher.update(hexToBuffer(encryptedData.ciphertext)), decipher.final()])
+    } catch (error) {
+        throw new Error('Crypto: Unable to decrypt the data, the key does not match or the data has been changed')
+    }
+}
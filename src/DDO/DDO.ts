@@ -43,6 +43,8 @@ export class DDO implements IDDO {
 
     static defaultVersion = 'v1'
 
+    static supportedVersions = ['v1']
+
     /**
      * @param url Base url for all of the services. e.g. 'https://my-agent'
      * @param serviceList Array of string list of service names to include:
@@ -110,6 +112,42 @@ export class DDO implements IDDO {
         return name in DDO.supportedServices
     }
 
+    /**
+     * Select the highest API version that is supported by both a service and this library.
+     * @param versionList List of versions supported by the service, e.g. ['v1', 'v2'].
+     * @param supportedVersionList Optional list of versions supported by the client, Defaults: {@link supportedVersions}.
+     * @returns The highest mutually supported version, else null if there is no common version.
+     */
+    public static selectVersion(versionList: Array<string>, supportedVersionList?: Array<string>): string {
+        const supportedList = supportedVersionList ? supportedVersionList : DDO.supportedVersions
+        let result: string = null
+        for (const version of versionList) {
+            if (supportedList.indexOf(version) >= 0 && (!result || DDO.parseVersion(version) > DDO.parseVersion(result))) {
+                result = version
+            }
+        }
+        return result
+    }
+
+    /**
+     * Return the API version of a service type, e.g. 'DEP.Meta.v1' returns 'v1'.
+     * @param type Service type string.
+     * @returns The version of the service type, else null if no version is found.
+     */
+    public static getServiceTypeVersion(type: string): string {
+        const match = type.match(/\.(v\d+)$/i)
+        return match ? match[1] : null
+    }
+
+    /**
+     * @internal
+     * Return the version number of a version string, e.g. 'v2' returns 2.
+     */
+    protected static parseVersion(version: string): number {
+        const match = version.match(/^v(\d+)$/i)
+        return match ? Number(match[1]) : -1
+    }
+
     /**
      * Constructs a new DDO object, please use the following static methods instead:
      *
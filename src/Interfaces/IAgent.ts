@@ -0,0 +1,55 @@
+/*
+ *
+ *
+ *
+ *      Agent Interface
+ *
+ *
+ */
+
+import { AssetBase, DataAsset, OperationAsset } from '../Asset/Asset'
+import { BundleAsset } from '../Asset/BundleAsset'
+import { IAssetFilter } from './IAsset'
+import { IListingData, IListingFilter, IListingInfo, IListingHistoryItem } from './IListing'
+import { IInvokeOptions, IInvokeResult, IJobResult, IWaitForJobOptions } from './IInvoke'
+import { IUploadOptions } from './IUpload'
+import { DDO } from '../DDO/DDO'
+import { Account } from '../Account'
+import { Network } from '../Network'
+import { IPurchaseData, IPurchaseProof, IPurchaseResult } from './IPurchase'
+import { ITrustLevel, ITrustPolicy } from './ITrust'
+
+export interface IAgent {
+    ddo: DDO
+    registerAsset(asset: AssetBase): Promise<AssetBase>
+    getAsset(assetId: string): Promise<AssetBase>
+    listAssets(from?: number, size?: number): Promise<Array<AssetBase>>
+    searchAssets(filter?: IAssetFilter): Promise<Array<AssetBase>>
+    uploadAsset(asset: DataAsset, options?: IUploadOptions): Promise<boolean>
+    downloadAsset(assetDIDorId: string, filename?: string, account?: Account): Promise<DataAsset>
+    registerBundle(bundle: BundleAsset, options?: IUploadOptions): Promise<BundleAsset>
+    downloadBundle(bundleDIDorId: string, path: string, account?: Account): Promise<BundleAsset>
+    registerAssetVersion(asset: AssetBase, previousAssetDIDorId: string, network?: Network, account?: Account): Promise<AssetBase>
+    getAssetVersionList(assetDIDorId: string): Promise<Array<AssetBase>>
+    getLatestAssetVersion(assetDIDorId: string): Promise<AssetBase>
+    createListing(listingInfo: IListingInfo, assetDIDorId: string): Promise<IListingData>
+    updateListing(listingData: IListingData): Promise<IListingData>
+    getListing(listingId: string): Promise<IListingData>
+    getListingList(filter: IListingFilter): Promise<Array<IListingData>>
+    publishListing(listing: string | IListingData): Promise<IListingData>
+    unpublishListing(listing: string | IListingData): Promise<IListingData>
+    archiveListing(listing: string | IListingData): Promise<IListingData>
+    deleteListing(listing: string | IListingData): Promise<boolean>
+    getListingHistory(listingId: string): Promise<Array<IListingHistoryItem>>
+    addPurchase(proof: IPurchaseProof): Promise<IPurchaseData>
+    getPurchase(purchaseId: string): Promise<IPurchaseData>
+    purchaseAsset(network: Network, account: Account, listing: string | IListingData): Promise<IPurchaseResult>
+    getTrustPolicy(): Promise<ITrustPolicy>
+    getUserTrustLevel(userId: string): Promise<ITrustLevel>
+    setUserTrustLevel(userId: string, level: number): Promise<ITrustLevel>
+    getAssetTrustLevel(assetDIDorId: string): Promise<ITrustLevel>
+    setAssetTrustLevel(assetDIDorId: string, level: number): Promise<ITrustLevel>
+    invoke(asset: string | OperationAsset, inputs?: unknown, isAsync?: boolean, options?: IInvokeOptions): Promise<IInvokeResult>
+    getJob(jobId: string | IInvokeResult, options?: IInvokeOptions): Promise<IInvokeResult>
+    waitForJob(jobId: string | IInvokeResult, options?: IWaitForJobOptions): Promise<IJobResult>
+}
@@ -0,0 +1,24 @@
+/*
+ *
+ *
+ *
+ *      Agent Manager Interfaces
+ *
+ *
+ */
+
+import { IAgent } from './IAgent'
+import { IRemoteAgentOptions } from './IRemoteAgent'
+
+export interface IAgentManagerOptions {
+    // time in milliseconds to keep a resolved agent in the cache, defaults to 5 minutes
+    ttl?: number
+    // options to use when creating a remote agent
+    remoteAgentOptions?: IRemoteAgentOptions
+}
+
+export interface IAgentManagerItem {
+    agent: IAgent
+    // time in milliseconds when this agent is removed from the cache, null to never remove
+    expireTime: number
+}
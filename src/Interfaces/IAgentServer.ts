@@ -0,0 +1,33 @@
+/*
+ *
+ *
+ *
+ *      Agent Server Interfaces
+ *
+ *
+ */
+
+import { IAgentStorage } from './IAgentStorage'
+import { Network } from '../Network'
+import { ITrustPolicy } from './ITrust'
+
+export interface IAgentServerUsers {
+    [username: string]: string
+}
+
+export interface IAgentServerOptions {
+    // storage to use for the agent data, defaults to memory storage
+    storage?: IAgentStorage
+    // DID of the agent, if not provided a random DID is used
+    did?: string
+    // API version used for the service endpoints, defaults to `DDO.defaultVersion`
+    version?: string
+    // username -> password list of users, if not provided then no authentication is required
+    users?: IAgentServerUsers
+    // public base URL of the agent, defaults to the address the server is listening on
+    url?: string
+    // network used to verify purchase payments
+    network?: Network
+    // trust policy of the agent, defaults to trust levels from 0 to 10
+    trustPolicy?: ITrustPolicy
+}
@@ -0,0 +1,38 @@
+/*
+ *
+ *
+ *
+ *      Agent Storage Interface
+ *
+ *
+ */
+
+import { IListingData, IListingHistoryItem } from './IListing'
+import { IPurchaseData } from './IPurchase'
+import { ITrustLevel, TrustSubjectType } from './ITrust'
+import { IInvokeResult } from './IInvoke'
+
+export interface IAgentStorage {
+    saveMetadata(assetId: string, metadataText: string): Promise<void>
+    readMetadata(assetId: string): Promise<string>
+    getMetadataIdList(): Promise<Array<string>>
+    saveAssetData(assetId: string, data: Buffer): Promise<void>
+    readAssetData(assetId: string): Promise<Buffer>
+    saveAssetDataChunk(assetId: string, index: number, data: Buffer): Promise<void>
+    readAssetDataChunk(assetId: string, index: number): Promise<Buffer>
+    getAssetDataChunkIndexList(assetId: string): Promise<Array<number>>
+    deleteAssetDataChunks(assetId: string): Promise<void>
+    saveListing(listingData: IListingData): Promise<void>
+    readListing(listingId: string): Promise<IListingData>
+    getListingList(): Promise<Array<IListingData>>
+    deleteListing(listingId: string): Promise<void>
+    addListingHistory(historyItem: IListingHistoryItem): Promise<void>
+    getListingHistory(listingId: string): Promise<Array<IListingHistoryItem>>
+    savePurchase(purchaseData: IPurchaseData): Promise<void>
+    readPurchase(purchaseId: string): Promise<IPurchaseData>
+    getPurchaseList(): Promise<Array<IPurchaseData>>
+    saveTrustLevel(trustLevel: ITrustLevel): Promise<void>
+    readTrustLevel(type: TrustSubjectType, subject: string): Promise<ITrustLevel>
+    saveJob(job: IInvokeResult): Promise<void>
+    readJob(jobId: string): Promise<IInvokeResult>
+}
@@ -9,6 +9,7 @@
  */
 
 import { IMetadata } from './IMetadata'
+import { AssetBase } from '../Asset/AssetBase'
 
 export interface IAsset {
     did: string
@@ -19,3 +20,26 @@ export interface IAsset {
 export interface IAssetList {
     [assetId: string]: IAsset
 }
+
+export interface IDataAssetLoader {
+    (): Promise<Buffer>
+}
+
+// creates an asset object of a registered asset type, see `registerAssetType`
+export interface IAssetTypeCreator {
+    (metadataText: string, did?: string): AssetBase
+}
+
+export interface IAssetFilter {
+    // text to find in the asset name, description or tags
+    text?: string
+    type?: string
+    // the asset must have all of these tags
+    tags?: Array<string>
+    creator?: string
+    // ISO date range to match the asset `dateCreated`
+    dateFrom?: string
+    dateTo?: string
+    from?: number
+    size?: number
+}
@@ -0,0 +1,16 @@
+/*
+ *
+ *
+ *
+ *      Asset Cache Interfaces
+ *
+ *
+ */
+
+export interface IAssetCacheOptions {
+    // directory to hold the cached asset metadata and data, this is created if it does not exist
+    path: string
+    // maximum total size in bytes of the cached files, the least recently used assets are removed
+    // when the size is exceeded, defaults to 1GB
+    maxSize?: number
+}
@@ -0,0 +1,34 @@
+/*
+
+    Interfaces for Encryption
+
+*/
+
+// data encrypted for a public key using ECIES, all values are hex strings
+export interface IEncryptedData {
+    ephemeralPublicKey: string
+    iv: string
+    tag: string
+    ciphertext: string
+}
+
+// data key encrypted for a recipient
+export interface IEncryptionRecipient extends IEncryptedData {
+    address: string
+}
+
+// data key and the hash of the original data, decrypted by a recipient
+export interface IRecipientKey {
+    key: Buffer
+    // SHA3-256 hash of the original data, or null if it was not encrypted with the key
+    dataHash: string
+}
+
+export interface IDataEncryption {
+    // algorithm used to encrypt the data, the stored data is the ciphertext followed by the auth tag
+    algorithm: string
+    iv: string
+    // algorithm used to encrypt the data key for each recipient
+    keyAlgorithm: string
+    recipients: Array<IEncryptionRecipient>
+}
@@ -0,0 +1,50 @@
+/*
+ *
+ *
+ *
+ *      HTTP Transport Interfaces
+ *
+ *
+ */
+
+import { Agent } from 'http'
+
+export interface IHTTPRequestOptions {
+    method?: string
+    headers?: unknown
+    body?: unknown
+    agent?: Agent
+    timeout?: number
+}
+
+export interface IHTTPRequestInterceptor {
+    (url: string, options: IHTTPRequestOptions): IHTTPRequestOptions | Promise<IHTTPRequestOptions>
+}
+
+export interface IHTTPResponseInterceptor {
+    // the response is a node-fetch Response object
+    (response: unknown, url: string, options: IHTTPRequestOptions): unknown | Promise<unknown>
+}
+
+export interface IHTTPTransportOptions {
+    // request timeout in milliseconds, 0 or not set for no timeout
+    timeout?: number
+    // number of times to retry an idempotent request ( GET, HEAD, PUT, DELETE, OPTIONS ), defaults to 0
+    retries?: number
+    // first retry delay in milliseconds, this is doubled for each retry, defaults to 500
+    retryDelay?: number
+    // maximum retry delay in milliseconds, defaults to 10000
+    retryMaxDelay?: number
+    // list of HTTP status codes that will cause a retry, defaults to 408, 429, 500, 502, 503, 504
+    retryStatusList?: Array<number>
+    requestInterceptors?: Array<IHTTPRequestInterceptor>
+    responseInterceptors?: Array<IHTTPResponseInterceptor>
+    // custom http or https agent to use for all requests
+    agent?: Agent
+    // proxy URL to send all requests through, e.g. 'http://proxy.local:8080'
+    proxy?: string
+    // custom TLS certificate authorities
+    ca?: string | Buffer | Array<string | Buffer>
+    // set to false to allow self signed TLS certificates
+    rejectUnauthorized?: boolean
+}
@@ -7,8 +7,70 @@
  *
  */
 
+import { Network } from '../Network'
+import { IAgentAuthentication } from './IAgentAuthentication'
+
 export interface IInvokeResult {
     status?: string
     outputs?: unknown
+    error?: string
     'job-id': string
 }
+
+export interface IInvokeOptions {
+    // replace asset references in the outputs with asset objects, data assets are downloaded on demand
+    resolveAssets?: boolean
+    // check the inputs and outputs against the operation's declared parameters when the operation is invoked
+    // by assetDID or assetId, the operation is then read from the remote agent first, defaults to false
+    validate?: boolean
+    // network used to resolve assets held by other agents
+    network?: Network
+    // authentication used to access other agents, defaults to no authentication
+    authentication?: IAgentAuthentication
+}
+
+export interface IOperationHandler {
+    (inputs: unknown): unknown | Promise<unknown>
+}
+
+export type JobStatus = 'succeeded' | 'failed' | 'running'
+
+export interface IJobSucceeded {
+    status: 'succeeded'
+    jobId: string
+    outputs: unknown
+}
+
+export interface IJobFailed {
+    status: 'failed'
+    jobId: string
+    error: string
+}
+
+export interface IJobRunning {
+    status: 'running'
+    jobId: string
+}
+
+export type IJobResult = IJobSucceeded | IJobFailed | IJobRunning
+
+export interface IJobEventCallback {
+    (job: IJobResult): void
+}
+
+export interface IWaitForJobOptions {
+    // delay in milliseconds after the first poll, the first poll is made straight away, defaults to 500
+    pollInterval?: number
+    // maximum delay in milliseconds between polls, defaults to 10000
+    maxPollInterval?: number
+    // multiplier applied to the poll interval after each poll, defaults to 2
+    backoffFactor?: number
+    // overall time in milliseconds to wait for the job to finish, after this the running job is returned
+    timeout?: number
+    // signal to stop waiting for the job
+    signal?: AbortSignal
+    // called after each poll of the job
+    onProgress?: IJobEventCallback
+    // called when the job status changes
+    onStatusChange?: IJobEventCallback
+}
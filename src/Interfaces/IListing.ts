@@ -6,6 +6,49 @@
  *
  */
 
+export enum ListingStatus {
+    Unpublished = 'unpublished',
+    Published = 'published',
+    Archived = 'archived',
+}
+
+export interface IListingLicense {
+    name: string
+    url?: string
+    terms?: string
+}
+
+export interface IListingAccessTerms {
+    // type of access given to the purchaser, for example 'download' or 'invoke'
+    type?: string
+    // number of seconds that access is given for after purchase
+    duration?: number
+    // maximum number of times the asset data can be downloaded
+    maxDownloads?: number
+}
+
+export interface IListingInfo {
+    title?: string
+    description?: string
+    // price in the listing currency, for example 1.5 DEX, this is needed before the listing can be purchased
+    price?: number | string
+    // 'DEX', 'ETH' or the contract address of a token, defaults to 'DEX'
+    currency?: string
+    // account address of the seller, that receives the payment for a purchase
+    paymentAddress?: string
+    license?: IListingLicense
+    // ISO dates of the period that the listing is valid for
+    validFrom?: string
+    validTo?: string
+    access?: IListingAccessTerms
+    [name: string]: unknown
+}
+
+export interface IListingInfoError {
+    name: string
+    message: string
+}
+
 export interface IListingData {
     trust_level: number
     userid: string
@@ -14,18 +57,27 @@ export interface IListingData {
     ctime: string
     status: string
     id: string
-    info: unknown
+    info: IListingInfo
     utime: string
 }
 
 export interface IListingRequestData {
     assetid: string
-    info: unknown
+    info: IListingInfo
 }
 
 export interface IListingFilter {
     username?: string
     userid?: string
+    // only return listings with a trust level of this level or more
+    minTrustLevel?: number
     from?: number
     size?: number
 }
+
+export interface IListingHistoryItem {
+    listingid: string
+    status: string
+    userid?: string
+    time: string
+}
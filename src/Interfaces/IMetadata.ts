@@ -4,6 +4,8 @@
 
 */
 
+import { IDataEncryption } from './IEncryption'
+
 export interface ILink {
     name?: string
     type: string
@@ -11,11 +13,23 @@ export interface ILink {
     assetID?: string
 }
 
+export interface IOperationParam {
+    // one of 'json', 'asset', 'string', 'number', 'boolean', 'object' or 'array'
+    type: string
+    required?: boolean
+    description?: string
+}
+
+export interface IOperationParamList {
+    [name: string]: IOperationParam
+}
+
 export interface IOperation {
     class?: string
+    // allowed invoke modes 'sync' and/or 'async', if not set all modes are allowed
     modes?: Array<string>
-    inputs: unknown
-    outputs: unknown
+    inputs: IOperationParamList
+    outputs: IOperationParamList
 }
 
 export interface IBundleContent {
@@ -45,8 +59,12 @@ export interface IMetadataData extends IMetadataBase {
     size?: string
     contentType?: string
     encoding?: string
+    // compression used to upload and store the data, 'gzip', 'brotli' or 'deflate', the data is decompressed on download
     compression?: string
+    // SHA3-256 hash of the uncompressed data, or for encrypted data the hash of the encrypted stored data
     contentHash?: string
+    // envelope encryption of the stored data, the data is encrypted after it has been compressed
+    encryption?: IDataEncryption
 }
 
 export interface IMetadataOperation extends IMetadataBase {
@@ -64,3 +82,14 @@ export interface IMetadata extends IMetadataData, IMetadataOperation, IMetadataB
 export interface IMetadataList {
     [assetId: string]: IMetadata
 }
+
+export interface IMetadataError {
+    // path of the invalid field, e.g. 'links[0].type' or 'operation.inputs.n.type'
+    path: string
+    message: string
+}
+
+// validates the type specific fields of the metadata, and adds an error for each invalid field, see `registerMetadataType`
+export interface IMetadataTypeValidator {
+    (metadata: IMetadata, errors: Array<IMetadataError>): void
+}
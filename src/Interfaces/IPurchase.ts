@@ -0,0 +1,41 @@
+/*
+ *
+ *
+ *      Purchase Interfaces
+ *
+ *
+ */
+
+import { AssetBase } from '../Asset/Asset'
+
+export interface IPurchaseProof {
+    listingid: string
+    assetid: string
+    // account address of the purchaser that sent the payment
+    fromAddress: string
+    // account address of the seller that received the payment
+    toAddress: string
+    // amount paid in the listing currency
+    amount: string
+    // on-chain references saved with the payment, created from the listing id and asset id
+    reference1: string
+    reference2: string
+    // hash of the payment transaction
+    txHash?: string
+    // signature by the purchaser account of the proof and the transaction hash
+    signature?: string
+}
+
+export interface IPurchaseData {
+    id: string
+    listingid: string
+    userid: string
+    status: string
+    info: IPurchaseProof
+    ctime: string
+}
+
+export interface IPurchaseResult {
+    purchase: IPurchaseData
+    asset: AssetBase
+}
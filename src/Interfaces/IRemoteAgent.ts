@@ -0,0 +1,61 @@
+/*
+ *
+ *
+ *
+ *      Remote Agent Interfaces
+ *
+ *
+ */
+
+import { HTTPTransport } from '../Middleware/HTTPTransport'
+import { IHTTPTransportOptions } from './IHTTPTransport'
+import { FileAssetCache } from '../Storage/FileAssetCache'
+import { IAssetCacheOptions } from './IAssetCache'
+
+export interface IRemoteAgentOptions {
+    // HTTP transport or the transport options to use for all requests to the remote agent
+    transport?: HTTPTransport | IHTTPTransportOptions
+    // set to false to not check that the asset metadata matches the assetId, and the downloaded data matches
+    // the metadata contentHash, defaults to true
+    verifyIntegrity?: boolean
+    // set to true to validate the metadata of each asset read from the remote agent, defaults to false
+    validateMetadata?: boolean
+    // asset cache or the cache options, to keep the asset metadata and data on disk, so that an asset is only
+    // read once from the remote agent, not set for no cache
+    cache?: FileAssetCache | IAssetCacheOptions
+}
+
+export interface IServiceStatus {
+    // name of the service, e.g. meta, storage, invoke, market, trust, auth
+    name: string
+    // API version of the service endpoint that returned the status
+    version: string
+    // list of API versions supported by the service
+    versions: Array<string>
+}
+
+export interface IServiceCapability {
+    name: string
+    type: string
+    serviceEndpoint: string
+    // true if the service endpoint returned a HTTP response
+    reachable: boolean
+    // time in milliseconds for the service endpoint to respond
+    latency: number
+    // list of API versions supported by the service
+    versions: Array<string>
+    // highest API version supported by both the service and this library, null if none
+    version: string
+    // error message if the service endpoint is not reachable or has no mutually supported version
+    error?: string
+}
+
+export interface IAgentCapabilities {
+    did: string
+    // capability of each service in the agent DDO, keyed by the service name
+    services: { [name: string]: IServiceCapability }
+    // true if all of the services are reachable and have a mutually supported version
+    isHealthy: boolean
+    // time the agent was probed as an ISO date string
+    time: string
+}
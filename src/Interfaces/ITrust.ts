@@ -0,0 +1,25 @@
+/*
+ *
+ *
+ *      Trust Interfaces
+ *
+ *
+ */
+
+export type TrustSubjectType = 'user' | 'asset'
+
+export interface ITrustLevel {
+    type: TrustSubjectType
+    // user id or asset id
+    subject: string
+    level: number
+    utime: string
+}
+
+export interface ITrustPolicy {
+    minLevel: number
+    maxLevel: number
+    // trust level of users and assets that have not been given a trust level
+    defaultLevel: number
+    description?: string
+}
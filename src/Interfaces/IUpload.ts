@@ -0,0 +1,42 @@
+/*
+ *
+ *
+ *
+ *      Upload Interfaces
+ *
+ *
+ */
+
+export interface IUploadProgress {
+    assetId: string
+    bytesSent: number
+    totalBytes: number
+    chunkIndex: number
+    chunkCount: number
+}
+
+export interface IUploadProgressCallback {
+    (progress: IUploadProgress): void
+}
+
+export interface IUploadOptions {
+    // size of each chunk in bytes, if set the data is uploaded in chunks and the upload can be resumed
+    chunkSize?: number
+    // called after each chunk has been uploaded
+    onProgress?: IUploadProgressCallback
+    // file to save the upload state, so that an upload can be resumed after a restart,
+    // defaults to `<dataFilename>.upload.json` if the asset data is read from a file
+    stateFilename?: string
+}
+
+export interface IAssetChunkList {
+    // chunk index -> chunk hash
+    [index: number]: string
+}
+
+export interface IUploadState {
+    assetId: string
+    chunkSize: number
+    totalBytes: number
+    chunks: IAssetChunkList
+}
@@ -0,0 +1,168 @@
+/*
+ *
+ *
+ *    HTTP Transport class
+ *
+ *
+ *
+ */
+
+import fetch, { Headers, Response } from 'node-fetch'
+import { Agent } from 'http'
+import https from 'https'
+import { parse as parseURL } from 'url'
+import createHttpsProxyAgent from 'https-proxy-agent'
+
+import {
+    IHTTPTransportOptions,
+    IHTTPRequestOptions,
+    IHTTPRequestInterceptor,
+    IHTTPResponseInterceptor,
+} from '../Interfaces/IHTTPTransport'
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS']
+const DEFAULT_RETRY_STATUS_LIST = [408, 429, 500, 502, 503, 504]
+const DEFAULT_RETRY_DELAY = 500
+const DEFAULT_RETRY_MAX_DELAY = 10000
+
+function sleep(milliseconds: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, milliseconds))
+}
+
+function copyRequestOptions(options: IHTTPRequestOptions): IHTTPRequestOptions {
+    const requestOptions = { ...options }
+    if (requestOptions.headers instanceof Headers) {
+        requestOptions.headers = new Headers(requestOptions.headers)
+    } else if (requestOptions.headers && typeof requestOptions.headers === 'object') {
+        requestOptions.headers = { ...requestOptions.headers }
+    }
+    return requestOptions
+}
+
+/**
+ * HTTP transport used by the {@link RemoteAgentAdapter} to send requests to a remote agent.
+ * The transport adds timeouts, retries with exponential backoff for idempotent requests,
+ * request/response interceptors and proxy or custom TLS settings.
+ */
+export class HTTPTransport {
+    public options: IHTTPTransportOptions
+    protected proxyAgent: Agent
+    protected tlsAgent: Agent
+
+    /**
+     * Construct a new HTTPTransport object.
+     * @param options Options to use for all of the requests sent by this transport.
+     */
+    constructor(options?: IHTTPTransportOptions) {
+        this.options = options ? options : {}
+        const tlsOptions = {}
+        if (this.options.ca) {
+            tlsOptions['ca'] = this.options.ca
+        }
+        if (this.options.rejectUnauthorized !== undefined) {
+            tlsOptions['rejectUnauthorized'] = this.options.rejectUnauthorized
+        }
+        if (this.options.proxy) {
+            this.proxyAgent = createHttpsProxyAgent({ ...parseURL(this.options.proxy), ...tlsOptions })
+        } else if (Object.keys(tlsOptions).length > 0) {
+            this.tlsAgent = new https.Agent(tlsOptions)
+        }
+    }
+
+    /**
+     * Add a request interceptor, this is called before each request is sent, and can change the request options.
+     * The interceptor is passed a copy of the request options, so the options of the caller are not changed.
+     * @param interceptor Function to call with the request url and options, it must return the request options to use.
+     */
+    public addRequestInterceptor(interceptor: IHTTPRequestInterceptor): void {
+        if (!this.options.requestInterceptors) {
+            this.options.requestInterceptors = []
+        }
+        this.options.requestInterceptors.push(interceptor)
+    }
+
+    /**
+     * Add a response interceptor, this is called after each response is received, and can change the response.
+     * @param interceptor Function to call with the response, it must return the response to use.
+     */
+    public addResponseInterceptor(interceptor: IHTTPResponseInterceptor): void {
+        if (!this.options.responseInterceptors) {
+            this.options.responseInterceptors = []
+        }
+        this.options.responseInterceptors.push(interceptor)
+    }
+
+    /**
+     * Send a HTTP request. This has the same arguments as `node-fetch`.
+     * Idempotent requests are retried on network errors or on a retry status code.
+     * @param url URL to send the request too.
+     * @param options node-fetch request options.
+     * @returns node-fetch Response object.
+     */
+    public async fetch(url: string, options?: IHTTPRequestOptions): Promise<Response> {
+        let requestOptions = copyRequestOptions(options)
+        if (!requestOptions.agent) {
+            requestOptions.agent = this.getAgent(url)
+        }
+        if (this.options.timeout && requestOptions.timeout === undefined) {
+            requestOptions.timeout = this.options.timeout
+        }
+        for (const interceptor of this.options.requestInterceptors || []) {
+            requestOptions = await interceptor(url, copyRequestOptions(requestOptions))
+        }
+        const method = (requestOptions.method || 'GET').toUpperCase()
+        const retries = IDEMPOTENT_METHODS.indexOf(method) >= 0 && this.options.retries ? this.options.retries : 0
+        const retryStatusList = this.options.retryStatusList ? this.options.retryStatusList : DEFAULT_RETRY_STATUS_LIST
+        let attempt = 0
+        for (;;) {
+            let response: Response = null
+            try {
+                response = await fetch(url, requestOptions)
+            } catch (error) {
+                if (attempt >= retries) {
+                    throw error
+                }
+            }
+            if (response && (attempt >= retries || retryStatusList.indexOf(response.status) < 0)) {
+                for (const interceptor of this.options.responseInterceptors || []) {
+                    response = await interceptor(response, url, requestOptions)
+                }
+                return response
+            }
+            if (response) {
+                // read the body of the failed response, so that the socket is released back to the agent
+                response.body.resume()
+            }
+            await sleep(this.getRetryDelay(attempt))
+            attempt++
+        }
+    }
+
+    /**
+     * @internal
+     * Return the delay before the next retry, using exponential backoff.
+     * @param attempt Number of attempts that have already been made.
+     */
+    protected getRetryDelay(attempt: number): number {
+        const retryDelay = this.options.retryDelay !== undefined ? this.options.retryDelay : DEFAULT_RETRY_DELAY
+        const retryMaxDelay = this.options.retryMaxDelay !== undefined ? this.options.retryMaxDelay : DEFAULT_RETRY_MAX_DELAY
+        return Math.min(retryDelay * Math.pow(2, attempt), retryMaxDelay)
+    }
+
+    /**
+     * @internal
+     * Return the http agent to use for the url.
+     */
+    protected getAgent(url: string): Agent {
+        if (this.options.agent) {
+            return this.options.agent
+        }
+        if (this.proxyAgent) {
+            return this.proxyAgent
+        }
+        if (this.tlsAgent && /^https:/i.test(url)) {
+            return this.tlsAgent
+        }
+        return undefined
+    }
+}
@@ -7,15 +7,39 @@
  *
  */
 
-import fetch, { Headers, Response } from 'node-fetch'
+import { Headers, Response } from 'node-fetch'
 import { Base64 } from 'js-base64'
 import urljoin from 'url-join'
 import queryString from 'query-string'
 import FormData from 'form-data'
+import { Readable } from 'stream'
 
 import { IMetadataList } from '../Interfaces/IMetadata'
-import { IListingData, IListingRequestData, IListingFilter } from '../Interfaces/IListing'
+import { IAssetFilter } from '../Interfaces/IAsset'
+import { IListingData, IListingRequestData, IListingFilter, IListingHistoryItem } from '../Interfaces/IListing'
 import { IInvokeResult } from '../Interfaces/IInvoke'
+import { IAssetChunkList } from '../Interfaces/IUpload'
+import { IPurchaseData, IPurchaseProof } from '../Interfaces/IPurchase'
+import { ITrustLevel, ITrustPolicy, TrustSubjectType } from '../Interfaces/ITrust'
+import { IServiceStatus } from '../Interfaces/IRemoteAgent'
+import { HTTPTransport } from './HTTPTransport'
+
+/**
+ * Error thrown when a remote agent request fails. The `status` is the HTTP status code returned by the agent.
+ */
+export class RemoteAgentAdapterError extends Error {
+    readonly status: number
+    readonly url: string
+
+    constructor(message: string, status: number, url: string) {
+        super(message)
+        // keep instanceof working, when compiling to ES5 and below
+        Object.setPrototypeOf(this, RemoteAgentAdapterError.prototype)
+        this.name = 'RemoteAgentAdapterError'
+        this.status = status
+        this.url = url
+    }
+}
 
 export class RemoteAgentAdapter {
     public static getInstance(): RemoteAgentAdapter {
@@ -26,8 +50,10 @@ export class RemoteAgentAdapter {
     }
 
     protected static throwError(message: string, response: Response): never {
-        throw new Error(
-            `RemoteAgentAdapter: ${message} from \n${response.url}\n with error ${response.status}:${response.statusText}`
+        throw new RemoteAgentAdapterError(
+            `RemoteAgentAdapter: ${message} from \n${response.url}\n with error ${response.status}:${response.statusText}`,
+            response.status,
+            response.url
         )
     }
 
@@ -42,25 +68,46 @@ export class RemoteAgentAdapter {
         return headers
     }
 
-    private static instance
-
-    public async getAuthorizationToken(username: string, password: string, url: string): Promise<string> {
+    protected static createBasicHeaders(username: string, password: string): Headers {
         const auth = Base64.encode(`${username}:${password}`)
-        const headers = new Headers({
+        return new Headers({
             Authorization: `Basic ${auth}`,
         })
-        let response = await fetch(url, {
+    }
+
+    private static instance
+
+    public transport: HTTPTransport
+
+    /**
+     * Construct a new RemoteAgentAdapter object. Please use {@link getInstance} to use the default adapter.
+     * @param transport HTTP transport to use for all requests, defaults to a transport with no timeout or retries.
+     */
+    constructor(transport?: HTTPTransport) {
+        this.transport = transport ? transport : new HTTPTransport()
+    }
+
+    public async getAuthorizationToken(username: string, password: string, url: string): Promise<string> {
+        const tokenList = await this.getAuthorizationTokenList(username, password, url)
+        if (tokenList && tokenList.length > 0) {
+            return tokenList[tokenList.length - 1]
+        }
+        return this.createAuthorizationToken(username, password, url)
+    }
+    public async getAuthorizationTokenList(username: string, password: string, url: string): Promise<Array<string>> {
+        const headers = RemoteAgentAdapter.createBasicHeaders(username, password)
+        const response = await this.transport.fetch(url, {
             method: 'GET',
             headers: headers,
         })
-        if (!response.ok) {
-            RemoteAgentAdapter.throwError('Unable to get access token', response)
-        }
-        const tokenList = await response.json()
-        if (tokenList && tokenList.length > 0) {
-            return tokenList[tokenList.length - 1]
+        if (response.ok) {
+            return response.json()
         }
-        response = await fetch(url, {
+        RemoteAgentAdapter.throwError('Unable to get access token', response)
+    }
+    public async createAuthorizationToken(username: string, password: string, url: string): Promise<string> {
+        const headers = RemoteAgentAdapter.createBasicHeaders(username, password)
+        const response = await this.transport.fetch(url, {
             method: 'POST',
             headers: headers,
         })
@@ -69,11 +116,23 @@ export class RemoteAgentAdapter {
         }
         RemoteAgentAdapter.throwError('Unable to create new token', response)
     }
+    public async revokeAuthorizationToken(token: string, username: string, password: string, url: string): Promise<boolean> {
+        const tokenURL = urljoin(url, `/${token}`)
+        const headers = RemoteAgentAdapter.createBasicHeaders(username, password)
+        const response = await this.transport.fetch(tokenURL, {
+            method: 'DELETE',
+            headers: headers,
+        })
+        if (response.ok) {
+            return true
+        }
+        RemoteAgentAdapter.throwError('Unable to revoke token', response)
+    }
 
     public async getDDO(url: string, token?: string): Promise<string> {
         const ddoURL = urljoin(url, '/api/ddo')
         const headers = RemoteAgentAdapter.createHeaders('application/json', token)
-        const response = await fetch(ddoURL, {
+        const response = await this.transport.fetch(ddoURL, {
             method: 'GET',
             headers: headers,
         })
@@ -83,10 +142,27 @@ export class RemoteAgentAdapter {
         RemoteAgentAdapter.throwError('Unable to get DDO information', response)
     }
 
+    public async getServiceStatus(url: string): Promise<IServiceStatus> {
+        const statusURL = urljoin(url, '/status')
+        const headers = RemoteAgentAdapter.createHeaders('application/json')
+        const response = await this.transport.fetch(statusURL, {
+            method: 'GET',
+            headers: headers,
+        })
+        if (response.ok) {
+            return response.json()
+        }
+        if (response.status == 404) {
+            // service status is not supported by the agent
+            return null
+        }
+        RemoteAgentAdapter.throwError('Unable to get service status', response)
+    }
+
     public async saveMetadata(metadataText: string, url: string, token?: string): Promise<string> {
         const metadatURL = urljoin(url, '/data')
         const headers = RemoteAgentAdapter.createHeaders('text/plain', token)
-        const response = await fetch(metadatURL, {
+        const response = await this.transport.fetch(metadatURL, {
             method: 'POST',
             body: metadataText,
             headers: headers,
@@ -100,7 +176,7 @@ export class RemoteAgentAdapter {
     public async readMetadata(assetId: string, url: string, token?: string): Promise<string> {
         const metadatURL = urljoin(url, `/data/${assetId}`)
         const headers = RemoteAgentAdapter.createHeaders('text/plain', token)
-        const response = await fetch(metadatURL, {
+        const response = await this.transport.fetch(metadatURL, {
             method: 'GET',
             headers: headers,
         })
@@ -110,10 +186,11 @@ export class RemoteAgentAdapter {
         RemoteAgentAdapter.throwError('Unable to read asset metadata', response)
     }
 
-    public async getMetadataList(url: string, token?: string): Promise<IMetadataList> {
-        const metadatURL = urljoin(url, '/index')
+    public async getMetadataList(url: string, token?: string, filter?: IAssetFilter): Promise<IMetadataList> {
+        const query = filter ? queryString.stringify(filter) : ''
+        const metadatURL = query ? urljoin(url, '/index', `?${query}`) : urljoin(url, '/index')
         const headers = RemoteAgentAdapter.createHeaders('application/json', token)
-        const response = await fetch(metadatURL, {
+        const response = await this.transport.fetch(metadatURL, {
             method: 'GET',
             headers: headers,
         })
@@ -130,7 +207,7 @@ export class RemoteAgentAdapter {
             assetid: assetId,
             info: JSON.parse(listingText),
         }
-        const response = await fetch(listingURL, {
+        const response = await this.transport.fetch(listingURL, {
             method: 'POST',
             body: JSON.stringify(data),
             headers: headers,
@@ -143,7 +220,7 @@ export class RemoteAgentAdapter {
     public async getListing(listingId: string, url: string, token?: string): Promise<IListingData> {
         const listingURL = urljoin(url, `/listings/${listingId}`)
         const headers = RemoteAgentAdapter.createHeaders('application/json', token)
-        const response = await fetch(listingURL, {
+        const response = await this.transport.fetch(listingURL, {
             method: 'GET',
             headers: headers,
         })
@@ -154,8 +231,8 @@ export class RemoteAgentAdapter {
     }
     public async getListingList(filter: IListingFilter, url: string, token?: string): Promise<Array<IListingData>> {
         const headers = RemoteAgentAdapter.createHeaders('application/json', token)
-        const listingURL = urljoin(url, `/listings/${queryString.stringify(filter)}`)
-        const response = await fetch(listingURL, {
+        const listingURL = urljoin(url, '/listings', `?${queryString.stringify(filter)}`)
+        const response = await this.transport.fetch(listingURL, {
             method: 'GET',
             headers: headers,
         })
@@ -167,7 +244,7 @@ export class RemoteAgentAdapter {
     public async updateListing(listingData: IListingData, url: string, token?: string): Promise<IListingData> {
         const listingURL = urljoin(url, `/listings/${listingData.id}`)
         const headers = RemoteAgentAdapter.createHeaders('application/json', token)
-        const response = await fetch(listingURL, {
+        const response = await this.transport.fetch(listingURL, {
             method: 'PUT',
             headers: headers,
             body: JSON.stringify(listingData),
@@ -177,7 +254,109 @@ export class RemoteAgentAdapter {
         }
         RemoteAgentAdapter.throwError('Unable to get listing data', response)
     }
-    public async uploadAssetData(assetId: string, data: Buffer, url: string, token?: string): Promise<boolean> {
+    public async deleteListing(listingId: string, url: string, token?: string): Promise<boolean> {
+        const listingURL = urljoin(url, `/listings/${listingId}`)
+        const headers = RemoteAgentAdapter.createHeaders('application/json', token)
+        const response = await this.transport.fetch(listingURL, {
+            method: 'DELETE',
+            headers: headers,
+        })
+        if (response.ok) {
+            return true
+        }
+        RemoteAgentAdapter.throwError('Unable to delete listing', response)
+    }
+    public async getListingHistory(listingId: string, url: string, token?: string): Promise<Array<IListingHistoryItem>> {
+        const listingURL = urljoin(url, `/listings/${listingId}/history`)
+        const headers = RemoteAgentAdapter.createHeaders('application/json', token)
+        const response = await this.transport.fetch(listingURL, {
+            method: 'GET',
+            headers: headers,
+        })
+        if (response.ok) {
+            return response.json()
+        }
+        if (response.status == 404) {
+            // listing history is not supported by the agent
+            return null
+        }
+        RemoteAgentAdapter.throwError('Unable to get listing history', response)
+    }
+    public async addPurchase(proof: IPurchaseProof, url: string, token?: string): Promise<IPurchaseData> {
+        const purchaseURL = urljoin(url, '/purchases')
+        const headers = RemoteAgentAdapter.createHeaders('application/json', token)
+        const response = await this.transport.fetch(purchaseURL, {
+            method: 'POST',
+            headers: headers,
+            body: JSON.stringify(proof),
+        })
+        if (response.ok) {
+            return response.json()
+        }
+        RemoteAgentAdapter.throwError('Unable to add purchase', response)
+    }
+    public async getPurchase(purchaseId: string, url: string, token?: string): Promise<IPurchaseData> {
+        const purchaseURL = urljoin(url, `/purchases/${purchaseId}`)
+        const headers = RemoteAgentAdapter.createHeaders('application/json', token)
+        const response = await this.transport.fetch(purchaseURL, {
+            method: 'GET',
+            headers: headers,
+        })
+        if (response.ok) {
+            return response.json()
+        }
+        RemoteAgentAdapter.throwError('Unable to get purchase', response)
+    }
+    public async getTrustLevel(type: TrustSubjectType, subject: string, url: string, token?: string): Promise<ITrustLevel> {
+        const trustURL = urljoin(url, `/${type}s/${subject}`)
+        const headers = RemoteAgentAdapter.createHeaders('application/json', token)
+        const response = await this.transport.fetch(trustURL, {
+            method: 'GET',
+            headers: headers,
+        })
+        if (response.ok) {
+            return response.json()
+        }
+        RemoteAgentAdapter.throwError(`Unable to get ${type} trust level`, response)
+    }
+    public async setTrustLevel(
+        type: TrustSubjectType,
+        subject: string,
+        level: number,
+        url: string,
+        token?: string
+    ): Promise<ITrustLevel> {
+        const trustURL = urljoin(url, `/${type}s/${subject}`)
+        const headers = RemoteAgentAdapter.createHeaders('application/json', token)
+        const response = await this.transport.fetch(trustURL, {
+            method: 'PUT',
+            headers: headers,
+            body: JSON.stringify({ level: level }),
+        })
+        if (response.ok) {
+            return response.json()
+        }
+        RemoteAgentAdapter.throwError(`Unable to set ${type} trust level`, response)
+    }
+    public async getTrustPolicy(url: string, token?: string): Promise<ITrustPolicy> {
+        const policyURL = urljoin(url, '/policy')
+        const headers = RemoteAgentAdapter.createHeaders('application/json', token)
+        const response = await this.transport.fetch(policyURL, {
+            method: 'GET',
+            headers: headers,
+        })
+        if (response.ok) {
+            return response.json()
+        }
+        RemoteAgentAdapter.throwError('Unable to get trust policy', response)
+    }
+    public async uploadAssetData(
+        assetId: string,
+        data: Buffer | Readable,
+        url: string,
+        token?: string,
+        size?: number
+    ): Promise<boolean> {
         const storageURL = urljoin(url, `/${assetId}`)
 
         // formData.getHeaders does not read node-fetch Headers object, so we need to create a simple object instead.
@@ -187,11 +366,13 @@ export class RemoteAgentAdapter {
         }
 
         const form = new FormData()
+        // the size is needed for a stream that is not read from a file, to set the content length of the form
         form.append('file', data, {
             filename: assetId,
             contentType: 'application/octet-stream',
+            knownLength: size,
         })
-        const response = await fetch(storageURL, {
+        const response = await this.transport.fetch(storageURL, {
             method: 'POST',
             headers: form.getHeaders(headers),
             body: form,
@@ -201,10 +382,56 @@ export class RemoteAgentAdapter {
         }
         RemoteAgentAdapter.throwError('Unable to upload asset data', response)
     }
+    public async getAssetDataChunkList(assetId: string, url: string, token?: string): Promise<IAssetChunkList> {
+        const storageURL = urljoin(url, `/${assetId}/chunks`)
+        const headers = RemoteAgentAdapter.createHeaders('application/json', token)
+        const response = await this.transport.fetch(storageURL, {
+            method: 'GET',
+            headers: headers,
+        })
+        if (response.ok) {
+            return response.json()
+        }
+        RemoteAgentAdapter.throwError('Unable to get asset data chunk list', response)
+    }
+    public async uploadAssetDataChunk(
+        assetId: string,
+        index: number,
+        data: Buffer,
+        hash: string,
+        url: string,
+        token?: string
+    ): Promise<boolean> {
+        const storageURL = urljoin(url, `/${assetId}/chunks/${index}`)
+        const headers = RemoteAgentAdapter.createHeaders('application/octet-stream', token)
+        headers.set('x-chunk-hash', hash)
+        const response = await this.transport.fetch(storageURL, {
+            method: 'PUT',
+            headers: headers,
+            body: data,
+        })
+        if (response.ok) {
+            return true
+        }
+        RemoteAgentAdapter.throwError('Unable to upload asset data chunk', response)
+    }
+    public async completeAssetDataChunks(assetId: string, chunkCount: number, url: string, token?: string): Promise<boolean> {
+        const storageURL = urljoin(url, `/${assetId}/chunks/complete`)
+        const headers = RemoteAgentAdapter.createHeaders('application/json', token)
+        const response = await this.transport.fetch(storageURL, {
+            method: 'POST',
+            headers: headers,
+            body: JSON.stringify({ chunkCount: chunkCount }),
+        })
+        if (response.ok) {
+            return true
+        }
+        RemoteAgentAdapter.throwError('Unable to complete asset data chunk upload', response)
+    }
     public async downloadAssetData(assetId: string, url: string, token?: string): Promise<Buffer> {
         const storageURL = urljoin(url, `/${assetId}`)
         const headers = RemoteAgentAdapter.createHeaders('application/octet-stream', token)
-        const response = await fetch(storageURL, {
+        const response = await this.transport.fetch(storageURL, {
             method: 'GET',
             headers: headers,
         })
@@ -213,13 +440,25 @@ export class RemoteAgentAdapter {
         }
         RemoteAgentAdapter.throwError('Unable to download asset data', response)
     }
+    public async downloadAssetDataStream(assetId: string, url: string, token?: string): Promise<Readable> {
+        const storageURL = urljoin(url, `/${assetId}`)
+        const headers = RemoteAgentAdapter.createHeaders('application/octet-stream', token)
+        const response = await this.transport.fetch(storageURL, {
+            method: 'GET',
+            headers: headers,
+        })
+        if (response.ok) {
+            return response.body
+        }
+        RemoteAgentAdapter.throwError('Unable to download asset data', response)
+    }
     public async invoke(assetId: string, inputText: string, isAsync: boolean, url: string, token?: string): Promise<IInvokeResult> {
         let invokeURL = urljoin(url, `/sync/${assetId}`)
         if (isAsync) {
             invokeURL = urljoin(url, `/async/${assetId}`)
         }
         const headers = RemoteAgentAdapter.createHeaders('application/json', token)
-        const response = await fetch(invokeURL, {
+        const response = await this.transport.fetch(invokeURL, {
             method: 'POST',
             headers: headers,
             body: inputText,
@@ -232,7 +471,7 @@ export class RemoteAgentAdapter {
     public async getJob(jobId: string, url: string, token?: string): Promise<IInvokeResult> {
         const invokeURL = urljoin(url, `/jobs/${jobId}`)
         const headers = RemoteAgentAdapter.createHeaders('application/json', token)
-        const response = await fetch(invokeURL, {
+        const response = await this.transport.fetch(invokeURL, {
             method: 'GET',
             headers: headers,
         })
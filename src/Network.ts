@@ -1,5 +1,6 @@
 import Web3 from 'web3'
 import { EventData } from 'web3-eth-contract'
+import { TransactionReceipt } from 'web3-core'
 
 import { IProvider } from './Interfaces/IProvider'
 import { DirectProvider } from './Provider/DirectProvider'
@@ -228,7 +229,26 @@ export class Network {
         reference1?: string,
         reference2?: string
     ): Promise<boolean> {
-        let status = false
+        const receipt = await this.sendTokenWithLogReceipt(account, toAccountAddress, amount, reference1, reference2)
+        return receipt ? receipt.status : false
+    }
+
+    /**
+     * Send some token to another account with two optional references, the same as {@link sendTokenWithLog}.
+     * @param account Account to send the token from. You must have access to the private password, or have this account unlocked.
+     * @param toAccountAddress Account or address string of the account that will receive the payment.
+     * @param amount Amount to of token to send.
+     * @param reference1 Reference #1 to save with the payment transaction.
+     * @param reference2 Reference #2 to save with the payment transaction.
+     * @returns The receipt of the payment transaction, or null if the transfer of the tokens was not approved.
+     */
+    public async sendTokenWithLogReceipt(
+        account: Account,
+        toAccountAddress: Account | string,
+        amount: number | string,
+        reference1?: string,
+        reference2?: string
+    ): Promise<TransactionReceipt> {
         const dexContract = <DexTokenContract>await this.getContract('DexToken')
         const directContract = <DirectPurchaseContract>await this.getContract('DirectPurchase')
 
@@ -241,12 +261,10 @@ export class Network {
 
         // first approve the transfer fo tokens for the direct-contract
         const approved = await dexContract.approveTransfer(account, directContract.address, amount)
-        status = approved.status
-        if (status) {
-            const receipt = await directContract.sendTokenWithLog(account, toAccountAddress, amount, reference1, reference2)
-            status = receipt.status
+        if (!approved.status) {
+            return null
         }
-        return status
+        return directContract.sendTokenWithLog(account, toAccountAddress, amount, reference1, reference2)
     }
 
     /**
@@ -0,0 +1,568 @@
+/*
+ *
+ *
+ *    Agent Server class
+ *
+ *
+ *
+ */
+
+import http from 'http'
+import { AddressInfo } from 'net'
+import { Base64 } from 'js-base64'
+import { randomHex } from 'web3-utils'
+
+import { LocalAgent } from '../Agent/LocalAgent'
+import { AssetBase, OperationAsset } from '../Asset/Asset'
+import { DDO } from '../DDO/DDO'
+import { IAgentServerOptions } from '../Interfaces/IAgentServer'
+import { IServiceStatus } from '../Interfaces/IRemoteAgent'
+import { IAssetFilter } from '../Interfaces/IAsset'
+import { IOperationHandler } from '../Interfaces/IInvoke'
+import { IListingData, IListingFilter, IListingRequestData } from '../Interfaces/IListing'
+import { IMetadataList } from '../Interfaces/IMetadata'
+import { IPurchaseProof } from '../Interfaces/IPurchase'
+import { removeLeadingHexZero } from '../Utils'
+
+/**
+ * Find the uploaded file in a multipart/form-data request body.
+ * @param body Request body data.
+ * @param contentType Content type header of the request, this contains the boundary marker.
+ * @param fieldName Name of the form field to find.
+ * @returns The data of the field or null if not found.
+ */
+function parseMultipartField(body: Buffer, contentType: string, fieldName: string): Buffer {
+    const boundaryMatch = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(contentType)
+    if (!boundaryMatch) {
+        return null
+    }
+    const boundary = Buffer.from(`--${boundaryMatch[1] || boundaryMatch[2]}`)
+    const headerEnd = Buffer.from('\r\n\r\n')
+    let start = body.indexOf(boundary)
+    while (start >= 0) {
+        const partStart = start + boundary.length + 2
+        const end = body.indexOf(boundary, partStart)
+        if (end < 0) {
+            break
+        }
+        const headersEnd = body.indexOf(headerEnd, partStart)
+        if (headersEnd >= 0 && headersEnd < end) {
+            const headers = body.slice(partStart, headersEnd).toString('utf-8')
+            if (new RegExp(`name="${fieldName}"`, 'i').test(headers)) {
+                // the part data ends with CRLF before the next boundary
+                return body.slice(headersEnd + headerEnd.length, end - 2)
+            }
+        }
+        start = end
+    }
+    return null
+}
+
+/**
+ * Embeddable agent server that provides the DEP agent endpoints used by the {@link RemoteAgent} class.
+ * The server runs a {@link LocalAgent}, so all of the agent data is saved in the agent's storage.
+ */
+export class AgentServer {
+    public agent: LocalAgent
+    public options: IAgentServerOptions
+    public url: string
+    protected server: http.Server
+    protected tokenList: Map<string, string>
+
+    protected static async readBody(request: http.IncomingMessage): Promise<Buffer> {
+        return new Promise((resolve, reject) => {
+            const chunks: Array<Buffer> = []
+            request.on('data', (chunk: Buffer) => chunks.push(chunk))
+            request.on('end', () => resolve(Buffer.concat(chunks)))
+            request.on('error', reject)
+        })
+    }
+
+    protected static sendJSON(response: http.ServerResponse, value: unknown): void {
+        AgentServer.sendText(response, JSON.stringify(value), 'application/json')
+    }
+
+    protected static sendText(response: http.ServerResponse, text: string, contentType?: string): void {
+        response.writeHead(200, { 'content-type': contentType ? contentType : 'text/plain' })
+        response.end(text)
+    }
+
+    protected static sendError(response: http.ServerResponse, status: number, message: string): void {
+        response.writeHead(status, { 'content-type': 'text/plain' })
+        response.end(message)
+    }
+
+    /**
+     * Create a new agent server, call {@link start} to start listening for requests.
+     * @param options Options to use for the server.
+     */
+    constructor(options?: IAgentServerOptions) {
+        this.options = options ? options : {}
+        this.agent = LocalAgent.create(this.options.did, null, this.options.storage)
+        this.agent.network = this.options.network
+        if (this.options.trustPolicy) {
+            this.agent.trustPolicy = this.options.trustPolicy
+        }
+        this.tokenList = new Map<string, string>()
+    }
+
+    /**
+     * Start the server and create the agent DDO for all of the services.
+     * @param port Port number to listen on, defaults to 0 to use any free port.
+     * @param hostname Hostname to listen on, defaults to `localhost`.
+     * @returns The base URL of the agent.
+     */
+    public async start(port?: number, hostname?: string): Promise<string> {
+        const host = hostname ? hostname : 'localhost'
+        this.server = http.createServer((request, response) => this.handleRequest(request, response))
+        await new Promise((resolve, reject) => {
+            this.server.once('error', reject)
+            this.server.listen(port ? port : 0, host, () => resolve())
+        })
+        const address = <AddressInfo>this.server.address()
+        this.url = this.options.url ? this.options.url : `http://${host}:${address.port}`
+        this.agent.ddo = DDO.createForAllServices(this.url, this.agent.ddo.id, this.getVersion())
+        return this.url
+    }
+
+    /**
+     * Stop the server.
+     */
+    public async stop(): Promise<void> {
+        if (this.server) {
+            await new Promise((resolve) => this.server.close(() => resolve()))
+            this.server = null
+        }
+    }
+
+    /**
+     * Register an operation that can be invoked on this agent, see {@link LocalAgent.registerOperation}.
+     * @param asset Operation asset to register.
+     * @param handler Function to call for each invoke of this operation.
+     * @returns The registered operation asset.
+     */
+    public async registerOperation(asset: OperationAsset, handler: IOperationHandler): Promise<OperationAsset> {
+        return this.agent.registerOperation(asset, handler)
+    }
+
+    /**
+     * Return the DDO of the agent, this is only valid after the server has been started.
+     */
+    public getDDO(): DDO {
+        return this.agent.ddo
+    }
+
+    /**
+     * @internal
+     * Return the API version used by the service endpoints.
+     */
+    protected getVersion(): string {
+        return this.options.version ? this.options.version : DDO.defaultVersion
+    }
+
+    /**
+     * @internal
+     * Return the name and API versions of a service, this does not need authentication.
+     */
+    protected handleServiceStatus(response: http.ServerResponse, serviceURI: string): void {
+        const name = Object.keys(DDO.supportedServices).find((name) => DDO.supportedServices[name].uri == `/${serviceURI}`)
+        if (!name) {
+            return AgentServer.sendError(response, 404, `Service ${serviceURI} not found`)
+        }
+        const status: IServiceStatus = {
+            name: name,
+            version: this.getVersion(),
+            versions: [this.getVersion()],
+        }
+        return AgentServer.sendJSON(response, status)
+    }
+
+    /**
+     * @internal
+     * Read the request, check the authentication and call the service for the request.
+     */
+    protected async handleRequest(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+        try {
+            const requestURL = new URL(request.url, 'http://localhost')
+            const path = requestURL.pathname.replace(/\/+/g, '/').replace(/\/$/, '')
+            const body = await AgentServer.readBody(request)
+
+            if (request.method == 'GET' && path == '/api/ddo') {
+                return AgentServer.sendText(response, this.agent.ddo.toString(), 'application/json')
+            }
+            const prefix = `/api/${this.getVersion()}/`
+            if (path.indexOf(prefix) != 0) {
+                return AgentServer.sendError(response, 404, `Path ${path} not found`)
+            }
+            const items = path.substring(prefix.length).split('/')
+            if (items[0] == 'auth' && items[1] == 'token') {
+                return this.handleAuthToken(request, response, items.slice(2))
+            }
+            if (items.length == 2 && items[1] == 'status' && request.method == 'GET') {
+                return this.handleServiceStatus(response, items[0])
+            }
+            const userId = this.authorizeRequest(request)
+            if (userId === undefined) {
+                return AgentServer.sendError(response, 401, 'Not authorized')
+            }
+            switch (items[0]) {
+                case 'meta':
+                    return this.handleMeta(request, response, items.slice(1), body, requestURL.searchParams)
+                case 'assets':
+                    return this.handleAssets(request, response, items.slice(1), body)
+                case 'market':
+                    return this.handleMarket(request, response, items.slice(1), body, requestURL.searchParams, userId)
+                case 'invoke':
+                    return this.handleInvoke(request, response, items.slice(1), body)
+                case 'trust':
+                    return this.handleTrust(request, response, items.slice(1), body)
+            }
+            return AgentServer.sendError(response, 404, `Path ${path} not found`)
+        } catch (error) {
+            return AgentServer.sendError(response, 500, error.message)
+        }
+    }
+
+    /**
+     * @internal
+     * Check the authorization header.
+     * @returns The username of the request, null if no authentication is needed, or undefined if not authorized.
+     */
+    protected authorizeRequest(request: http.IncomingMessage): string {
+        if (!this.options.users) {
+            return null
+        }
+        const authorization = request.headers['authorization']
+        if (authorization) {
+            const tokenMatch = /^token\s+(.+)$/i.exec(authorization)
+            if (tokenMatch && this.tokenList.has(tokenMatch[1])) {
+                return this.tokenList.get(tokenMatch[1])
+            }
+            const basicMatch = /^basic\s+(.+)$/i.exec(authorization)
+            if (basicMatch) {
+                const items = Base64.decode(basicMatch[1]).split(':')
+                const username = items.shift()
+                if (username in this.options.users && this.options.users[username] == items.join(':')) {
+                    return username
+                }
+            }
+        }
+        return undefined
+    }
+
+    /**
+     * @internal
+     * List, create or revoke access tokens for the user.
+     */
+    protected async handleAuthToken(
+        request: http.IncomingMessage,
+        response: http.ServerResponse,
+        items: Array<string>
+    ): Promise<void> {
+        const username = this.authorizeRequest(request)
+        if (username === undefined) {
+            return AgentServer.sendError(response, 401, 'Not authorized')
+        }
+        if (items.length == 1 && request.method == 'DELETE') {
+            if (this.tokenList.get(items[0]) !== username) {
+                return AgentServer.sendError(response, 404, 'Token not found')
+            }
+            this.tokenList.delete(items[0])
+            return AgentServer.sendJSON(response, true)
+        }
+        if (items.length > 0) {
+            return AgentServer.sendError(response, 404, 'Auth service not found')
+        }
+        if (request.method == 'GET') {
+            const tokenList = []
+            this.tokenList.forEach((tokenUsername: string, token: string) => {
+                if (tokenUsername == username) {
+                    tokenList.push(token)
+                }
+            })
+            return AgentServer.sendJSON(response, tokenList)
+        }
+        if (request.method == 'POST') {
+            const token = removeLeadingHexZero(randomHex(32))
+            this.tokenList.set(token, username)
+            return AgentServer.sendJSON(response, token)
+        }
+        return AgentServer.sendError(response, 405, 'Method not allowed')
+    }
+
+    /**
+     * @internal
+     * Meta service: save, read and list asset metadata.
+     */
+    protected async handleMeta(
+        request: http.IncomingMessage,
+        response: http.ServerResponse,
+        items: Array<string>,
+        body: Buffer,
+        query: URLSearchParams
+    ): Promise<void> {
+        if (items[0] == 'data' && items.length == 1 && request.method == 'POST') {
+            const asset = await this.agent.registerAsset(new AssetBase(body.toString('utf-8')))
+            return AgentServer.sendJSON(response, asset.getAssetId())
+        }
+        if (items[0] == 'data' && items.length == 2 && request.method == 'GET') {
+            const asset = await this.agent.getAsset(items[1])
+            if (!asset) {
+                return AgentServer.sendError(response, 404, `Asset ${items[1]} not found`)
+            }
+            return AgentServer.sendText(response, asset.metadataText, 'application/json')
+        }
+        if (items[0] == 'index' && items.length == 1 && request.method == 'GET') {
+            const filter: IAssetFilter = {
+                text: query.get('text'),
+                type: query.get('type'),
+                tags: query.getAll('tags').length > 0 ? query.getAll('tags') : undefined,
+                creator: query.get('creator'),
+                dateFrom: query.get('dateFrom'),
+                dateTo: query.get('dateTo'),
+                from: query.has('from') ? Number(query.get('from')) : undefined,
+                size: query.has('size') ? Number(query.get('size')) : undefined,
+            }
+            const metadataList: IMetadataList = {}
+            for (const asset of await this.agent.searchAssets(filter)) {
+                metadataList[asset.getAssetId()] = asset.metadata
+            }
+            return AgentServer.sendJSON(response, metadataList)
+        }
+        return AgentServer.sendError(response, 404, 'Meta service not found')
+    }
+
+    /**
+     * @internal
+     * Storage service: upload and download asset data.
+     */
+    protected async handleAssets(
+        request: http.IncomingMessage,
+        response: http.ServerResponse,
+        items: Array<string>,
+        body: Buffer
+    ): Promise<void> {
+        const asset = items.length > 0 ? await this.agent.getAsset(items[0]) : null
+        if (!asset) {
+            return AgentServer.sendError(response, 404, `Asset ${items[0]} not found`)
+        }
+        if (items[1] == 'chunks') {
+            return this.handleAssetChunks(request, response, items, body)
+        }
+        if (items.length != 1) {
+            return AgentServer.sendError(response, 404, 'Storage service not found')
+        }
+        if (request.method == 'POST') {
+            const data = parseMultipartField(body, request.headers['content-type'] || '', 'file')
+            if (!data) {
+                return AgentServer.sendError(response, 400, 'No file data found')
+            }
+            // the data is saved as it is sent, so compressed data is not changed
+            await this.agent.uploadAssetData(items[0], data)
+            return AgentServer.sendJSON(response, true)
+        }
+        if (request.method == 'GET') {
+            const data = await this.agent.downloadAssetData(items[0])
+            if (!data) {
+                return AgentServer.sendError(response, 404, `Asset ${items[0]} has no data`)
+            }
+            response.writeHead(200, { 'content-type': 'application/octet-stream' })
+            response.end(data)
+            return
+        }
+        return AgentServer.sendError(response, 405, 'Method not allowed')
+    }
+
+    /**
+     * @internal
+     * Storage service: list, upload and join asset data chunks.
+     */
+    protected async handleAssetChunks(
+        request: http.IncomingMessage,
+        response: http.ServerResponse,
+        items: Array<string>,
+        body: Buffer
+    ): Promise<void> {
+        const assetId = items[0]
+        if (items.length == 2 && request.method == 'GET') {
+            return AgentServer.sendJSON(response, await this.agent.getAssetChunkList(assetId))
+        }
+        if (items.length == 3 && items[2] == 'complete' && request.method == 'POST') {
+            const data = JSON.parse(body.toString('utf-8'))
+            try {
+                return AgentServer.sendJSON(response, await this.agent.completeAssetChunks(assetId, data.chunkCount))
+            } catch (error) {
+                return AgentServer.sendError(response, 400, error.message)
+            }
+        }
+        if (items.length == 3 && /^[0-9]+$/.test(items[2]) && request.method == 'PUT') {
+            const hash = <string>request.headers['x-chunk-hash']
+            try {
+                return AgentServer.sendJSON(response, await this.agent.uploadAssetChunk(assetId, Number(items[2]), body, hash))
+            } catch (error) {
+                return AgentServer.sendError(response, 400, error.message)
+            }
+        }
+        return AgentServer.sendError(response, 404, 'Storage service not found')
+    }
+
+    /**
+     * @internal
+     * Market service: create, update, get and list listings.
+     */
+    protected async handleMarket(
+        request: http.IncomingMessage,
+        response: http.ServerResponse,
+        items: Array<string>,
+        body: Buffer,
+        query: URLSearchParams,
+        userId: string
+    ): Promise<void> {
+        if (items[0] == 'purchases') {
+            return this.handlePurchases(request, response, items, body, userId)
+        }
+        if (items[0] != 'listings') {
+            return AgentServer.sendError(response, 404, 'Market service not found')
+        }
+        if (items.length == 1 && request.method == 'POST') {
+            const data: IListingRequestData = JSON.parse(body.toString('utf-8'))
+            try {
+                return AgentServer.sendJSON(response, await this.agent.createListing(data.info, data.assetid, userId))
+            } catch (error) {
+                return AgentServer.sendError(response, 400, error.message)
+            }
+        }
+        if (items.length == 1 && request.method == 'GET') {
+            const filter: IListingFilter = {}
+            query.forEach((value: string, name: string) => {
+                filter[name] = name == 'from' || name == 'size' || name == 'minTrustLevel' ? Number(value) : value
+            })
+            return AgentServer.sendJSON(response, await this.agent.getListingList(filter))
+        }
+        if (items.length == 2) {
+            if (!(await this.agent.getListing(items[1]))) {
+                return AgentServer.sendError(response, 404, `Listing ${items[1]} not found`)
+            }
+            if (request.method == 'GET') {
+                return AgentServer.sendJSON(response, await this.agent.getListing(items[1]))
+            }
+            if (request.method == 'PUT') {
+                const listingData: IListingData = JSON.parse(body.toString('utf-8'))
+                listingData.id = items[1]
+                try {
+                    return AgentServer.sendJSON(response, await this.agent.updateListing(listingData))
+                } catch (error) {
+                    return AgentServer.sendError(response, 400, error.message)
+                }
+            }
+            if (request.method == 'DELETE') {
+                try {
+                    return AgentServer.sendJSON(response, await this.agent.deleteListing(items[1]))
+                } catch (error) {
+                    return AgentServer.sendError(response, 400, error.message)
+                }
+            }
+        }
+        if (items.length == 3 && items[2] == 'history' && request.method == 'GET') {
+            return AgentServer.sendJSON(response, await this.agent.getListingHistory(items[1]))
+        }
+        return AgentServer.sendError(response, 404, 'Market service not found')
+    }
+
+    /**
+     * @internal
+     * Market service: add and get purchases.
+     */
+    protected async handlePurchases(
+        request: http.IncomingMessage,
+        response: http.ServerResponse,
+        items: Array<string>,
+        body: Buffer,
+        userId: string
+    ): Promise<void> {
+        if (items.length == 1 && request.method == 'POST') {
+            const proof: IPurchaseProof = JSON.parse(body.toString('utf-8'))
+            try {
+                return AgentServer.sendJSON(response, await this.agent.addPurchase(proof, userId))
+            } catch (error) {
+                return AgentServer.sendError(response, 400, error.message)
+            }
+        }
+        if (items.length == 2 && request.method == 'GET') {
+            const purchaseData = await this.agent.getPurchase(items[1])
+            if (!purchaseData) {
+                return AgentServer.sendError(response, 404, `Purchase ${items[1]} not found`)
+            }
+            return AgentServer.sendJSON(response, purchaseData)
+        }
+        return AgentServer.sendError(response, 404, 'Market service not found')
+    }
+
+    /**
+     * @internal
+     * Trust service: get the trust policy, get and set the trust levels of users and assets.
+     */
+    protected async handleTrust(
+        request: http.IncomingMessage,
+        response: http.ServerResponse,
+        items: Array<string>,
+        body: Buffer
+    ): Promise<void> {
+        if (items.length == 1 && items[0] == 'policy' && request.method == 'GET') {
+            return AgentServer.sendJSON(response, await this.agent.getTrustPolicy())
+        }
+        if (items.length == 2 && (items[0] == 'users' || items[0] == 'assets')) {
+            const isUser = items[0] == 'users'
+            if (request.method == 'GET') {
+                const trustLevel = isUser
+                    ? await this.agent.getUserTrustLevel(items[1])
+                    : await this.agent.getAssetTrustLevel(items[1])
+                return AgentServer.sendJSON(response, trustLevel)
+            }
+            if (request.method == 'PUT') {
+                const data = JSON.parse(body.toString('utf-8'))
+                try {
+                    const trustLevel = isUser
+                        ? await this.agent.setUserTrustLevel(items[1], data.level)
+                        : await this.agent.setAssetTrustLevel(items[1], data.level)
+                    return AgentServer.sendJSON(response, trustLevel)
+                } catch (error) {
+                    return AgentServer.sendError(response, 400, error.message)
+                }
+            }
+        }
+        return AgentServer.sendError(response, 404, 'Trust service not found')
+    }
+
+    /**
+     * @internal
+     * Invoke service: call sync and async operations and get the job status.
+     */
+    protected async handleInvoke(
+        request: http.IncomingMessage,
+        response: http.ServerResponse,
+        items: Array<string>,
+        body: Buffer
+    ): Promise<void> {
+        if (items.length != 2) {
+            return AgentServer.sendError(response, 404, 'Invoke service not found')
+        }
+        if ((items[0] == 'sync' || items[0] == 'async') && request.method == 'POST') {
+            const asset = await this.agent.getAsset(items[1])
+            if (!asset) {
+                return AgentServer.sendError(response, 404, `Operation ${items[1]} not found`)
+            }
+            const inputsText = body.toString('utf-8')
+            const inputs = inputsText ? JSON.parse(inputsText) : undefined
+            return AgentServer.sendJSON(response, await this.agent.invoke(items[1], inputs, items[0] == 'async'))
+        }
+        if (items[0] == 'jobs' && request.method == 'GET') {
+            const job = await this.agent.getJob(items[1])
+            if (!job) {
+                return AgentServer.sendError(response, 404, `Job ${items[1]} not found`)
+            }
+            return AgentServer.sendJSON(response, job)
+        }
+        return AgentServer.sendError(response, 404, 'Invoke service not found')
+    }
+}
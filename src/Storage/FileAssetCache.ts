@@ -0,0 +1,384 @@
+/*
+ *
+ *
+ *      File Asset Cache
+ *
+ *
+ */
+
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+import { Readable, Transform } from 'stream'
+import { promisify } from 'util'
+
+import { IAssetCacheOptions } from '../Interfaces/IAssetCache'
+import { calculateAssetId } from '../Crypto'
+import { toIdHex } from '../Utils'
+
+const ASSET_ID_REGEXP = /^(0x)?[0-9a-f]{64}$/i
+const DEFAULT_MAX_SIZE = 1024 * 1024 * 1024
+const METADATA_EXTENSION = '.json'
+const DATA_EXTENSION = '.data'
+const TEMP_EXTENSION = '.tmp'
+// time in ms after the last write that a temporary file is taken as left over from a failed save
+const STALE_TEMP_TIME = 60 * 60 * 1000
+
+const openAsync = promisify(fs.open)
+
+interface ICacheFile {
+    filename: string
+    size: number
+    time: number
+    isTemp: boolean
+}
+
+/**
+ * Cache of the asset metadata and data on disk, keyed by the assetId. Since an asset cannot change once it is
+ * registered, the cached assets never need to be refreshed. The metadata is checked against the assetId when it is
+ * read, and the data is held as it is stored by the agent, so that encrypted data is never saved decrypted.
+ *
+ * The cache is limited in size, when the limit is exceeded the least recently used assets are removed. The cache
+ * directory can be shared by more than one process, temporary files left by a process that failed while saving are
+ * removed once they are stale.
+ */
+export class FileAssetCache {
+    public options: IAssetCacheOptions
+
+    constructor(options: IAssetCacheOptions) {
+        if (!options || !options.path) {
+            throw new Error('FileAssetCache: A path is needed for the cache directory')
+        }
+        this.options = { maxSize: DEFAULT_MAX_SIZE, ...options }
+    }
+
+    /**
+     * Save the metadata text of an asset.
+     * @param assetId AssetId of the asset.
+     * @param metadataText Metadata text, this must hash to the assetId.
+     * @throws Error if the metadata text does not match the assetId, so that the cache only holds valid metadata.
+     */
+    public async saveMetadata(assetId: string, metadataText: string): Promise<void> {
+        if (calculateAssetId(metadataText) != this.checkAssetId(assetId)) {
+            throw new Error(`FileAssetCache: The metadata does not match the assetId ${assetId}`)
+        }
+        await this.saveFile(assetId + METADATA_EXTENSION, Buffer.from(metadataText))
+    }
+
+    /**
+     * Read the metadata text of an asset. If the cached metadata does not match the assetId, then the asset is
+     * removed from the cache.
+     * @param assetId AssetId of the asset.
+     * @returns The metadata text, or null if the asset is not in the cache, or the assetId cannot be held in the cache.
+     */
+    public async readMetadata(assetId: string): Promise<string> {
+        const safeAssetId = this.getCacheAssetId(assetId)
+        if (safeAssetId === null) {
+            return null
+        }
+        const data = await this.readFile(safeAssetId + METADATA_EXTENSION)
+        if (data === null) {
+            return null
+        }
+        const metadataText = data.toString()
+        if (calculateAssetId(metadataText) != safeAssetId) {
+            await this.delete(assetId)
+            return null
+        }
+        return metadataText
+    }
+
+    /**
+     * Save the data of an asset, as it is stored by the agent. If the data is larger than the cache
+     * `maxSize`, then the data is not saved.
+     * @param assetId AssetId of the asset.
+     * @param data Stored data of the asset.
+     */
+    public async saveData(assetId: string, data: Buffer): Promise<void> {
+        await this.saveFile(this.checkAssetId(assetId) + DATA_EXTENSION, data)
+    }
+
+    /**
+     * Read the data of an asset. The data cannot be checked against the asset metadata `contentHash` until it
+     * is decrypted and decompressed, so the caller must check the data and call {@link delete} if it does not match.
+     * @param assetId AssetId of the asset.
+     * @returns The stored data of the asset, or null if the data is not in the cache.
+     */
+    public async readData(assetId: string): Promise<Buffer> {
+        const safeAssetId = this.getCacheAssetId(assetId)
+        return safeAssetId === null ? null : this.readFile(safeAssetId + DATA_EXTENSION)
+    }
+
+    /**
+     * Read the data of an asset as a stream, see {@link readData}.
+     * @param assetId AssetId of the asset.
+     * @returns A readable stream of the stored data of the asset, or null if the data is not in the cache.
+     */
+    public async readDataStream(assetId: string): Promise<Readable> {
+        const safeAssetId = this.getCacheAssetId(assetId)
+        return safeAssetId === null ? null : this.readFileStream(safeAssetId + DATA_EXTENSION)
+    }
+
+    /**
+     * Create a stream to save the data of an asset, as it is stored by the agent. The stream passes the data through
+     * unchanged, and the data is saved once all of it has been read. If the stream is destroyed before then, or the
+     * data is larger than the cache `maxSize`, then the data is not saved. An error saving the data is not passed on
+     * to the stream.
+     * @param assetId AssetId of the asset.
+     * @returns a Transform stream of the stored data.
+     */
+    public async createSaveDataStream(assetId: string): Promise<Transform> {
+        return this.createSaveFileStream(this.checkAssetId(assetId) + DATA_EXTENSION)
+    }
+
+    /**
+     * Remove the metadata and data of an asset from the cache.
+     * @param assetId AssetId of the asset.
+     */
+    public async delete(assetId: string): Promise<void> {
+        const safeAssetId = this.getCacheAssetId(assetId)
+        if (safeAssetId === null) {
+            return
+        }
+        await this.deleteFile(safeAssetId + METADATA_EXTENSION)
+        await this.deleteFile(safeAssetId + DATA_EXTENSION)
+    }
+
+    /**
+     * Remove all of the assets from the cache, and any stale temporary files.
+     */
+    public async clear(): Promise<void> {
+        for (const file of await this.getFileList()) {
+            await this.deleteFile(file.filename)
+        }
+    }
+
+    /**
+     * Return the total size in bytes of the cached files.
+     */
+    public async getSize(): Promise<number> {
+        return (await this.getFileList()).reduce((total, file) => total + file.size, 0)
+    }
+
+    /**
+     * @internal
+     * Return the assetId as a lower case hex string, so that it can be used as a filename.
+     * @throws Error if the assetId cannot be held in the cache, this is only used when saving.
+     */
+    protected checkAssetId(assetId: string): string {
+        const safeAssetId = this.getCacheAssetId(assetId)
+        if (safeAssetId === null) {
+            throw new Error(`FileAssetCache: Invalid assetId ${assetId}`)
+        }
+        return safeAssetId
+    }
+
+    /**
+     * @internal
+     * Return the assetId as a lower case hex string, or null if the assetId is not valid and so cannot be in the cache.
+     */
+    protected getCacheAssetId(assetId: string): string {
+        return ASSET_ID_REGEXP.test(assetId) ? toIdHex(assetId).toLowerCase() : null
+    }
+
+    /**
+     * @internal
+     * Save a file in the cache and remove the least recently used files if the cache is too large. The data is
+     * written to a temporary file first, so that other processes never read a partly written file.
+     */
+    protected async saveFile(filename: string, data: Buffer): Promise<void> {
+        if (data.length > this.options.maxSize) {
+            return
+        }
+        const tempFilename = await this.createTempFilename(filename)
+        await fs.promises.writeFile(tempFilename, data)
+        await fs.promises.rename(tempFilename, path.join(this.options.path, filename))
+        await this.removeLeastRecentlyUsed(filename)
+    }
+
+    /**
+     * @internal
+     * Create a stream that passes the data through and saves it in the cache once all of the data has been read,
+     * see {@link createSaveDataStream}. The data is written to a temporary file as it is read.
+     */
+    protected async createSaveFileStream(filename: string): Promise<Transform> {
+        const tempFilename = await this.createTempFilename(filename)
+        const fileStream = fs.createWriteStream(tempFilename, { fd: await openAsync(tempFilename, 'w') })
+        let size = 0
+        let isSaving = true
+        const discard = () => {
+            if (isSaving) {
+                isSaving = false
+                fileStream.once('close', () => fs.promises.unlink(tempFilename).catch(() => undefined))
+                fileStream.destroy()
+            }
+        }
+        const save = async () => {
+            isSaving = false
+            await new Promise((resolve, reject) => fileStream.once('error', reject).end(resolve))
+            await fs.promises.rename(tempFilename, path.join(this.options.path, filename))
+            await this.removeLeastRecentlyUsed(filename)
+        }
+        const maxSize = this.options.maxSize
+        return new Transform({
+            transform(chunk: Buffer, encoding: string, callback: (error?: Error, data?: Buffer) => void): void {
+                size += chunk.length
+                if (size > maxSize) {
+                    discard()
+                }
+                if (!isSaving) {
+                    return callback(null, chunk)
+                }
+                fileStream.write(chunk, (error) => {
+                    if (error) {
+                        discard()
+                    }
+                    callback(null, chunk)
+                })
+            },
+            flush(callback: (error?: Error) => void): void {
+                if (!isSaving) {
+                    return callback()
+                }
+                save().then(
+                    () => callback(),
+                    () => {
+                        fs.promises.unlink(tempFilename).catch(() => undefined)
+                        callback()
+                    }
+                )
+            },
+            destroy(error: Error, callback: (error: Error) => void): void {
+                discard()
+                callback(error)
+            },
+        })
+    }
+
+    /**
+     * @internal
+     * Create the cache directory if needed, and return a new temporary filename to save a file too.
+     */
+    protected async createTempFilename(filename: string): Promise<string> {
+        await fs.promises.mkdir(this.options.path, { recursive: true })
+        return path.join(this.options.path, `${filename}.${crypto.randomBytes(8).toString('hex')}${TEMP_EXTENSION}`)
+    }
+
+    /**
+     * @internal
+     * Read a file from the cache and mark it as recently used.
+     */
+    protected async readFile(filename: string): Promise<Buffer> {
+        const cacheFilename = path.join(this.options.path, filename)
+        try {
+            const data = await fs.promises.readFile(cacheFilename)
+            await this.markFileUsed(cacheFilename)
+            return data
+        } catch (error) {
+            if (error.code == 'ENOENT') {
+                return null
+            }
+            throw error
+        }
+    }
+
+    /**
+     * @internal
+     * Open a file in the cache to read as a stream and mark it as recently used. The file is opened before returning,
+     * so that it can still be read if it is removed from the cache.
+     */
+    protected async readFileStream(filename: string): Promise<Readable> {
+        const cacheFilename = path.join(this.options.path, filename)
+        let fd: number
+        try {
+            fd = await openAsync(cacheFilename, 'r')
+        } catch (error) {
+            if (error.code == 'ENOENT') {
+                return null
+            }
+            throw error
+        }
+        await this.markFileUsed(cacheFilename)
+        return fs.createReadStream(cacheFilename, { fd: fd })
+    }
+
+    /**
+     * @internal
+     * Mark a file as recently used, by setting the modified time of the file.
+     */
+    protected async markFileUsed(cacheFilename: string): Promise<void> {
+        const now = new Date()
+        await fs.promises.utimes(cacheFilename, now, now).catch(() => undefined)
+    }
+
+    /**
+     * @internal
+     * Remove a file from the cache, if it exists.
+     */
+    protected async deleteFile(filename: string): Promise<void> {
+        try {
+            await fs.promises.unlink(path.join(this.options.path, filename))
+        } catch (error) {
+            if (error.code != 'ENOENT') {
+                throw error
+            }
+        }
+    }
+
+    /**
+     * @internal
+     * Return the files in the cache directory, with the size and last used time of each file. Temporary files are
+     * only included once they are stale, so that a file that is still being saved is not removed.
+     */
+    protected async getFileList(): Promise<Array<ICacheFile>> {
+        let filenameList: Array<string>
+        try {
+            filenameList = await fs.promises.readdir(this.options.path)
+        } catch (error) {
+            if (error.code == 'ENOENT') {
+                return []
+            }
+            throw error
+        }
+        const fileList: Array<ICacheFile> = []
+        for (const filename of filenameList) {
+            const isTemp = filename.endsWith(TEMP_EXTENSION)
+            if (!isTemp && !filename.endsWith(METADATA_EXTENSION) && !filename.endsWith(DATA_EXTENSION)) {
+                continue
+            }
+            try {
+                const stat = await fs.promises.stat(path.join(this.options.path, filename))
+                if (!isTemp || stat.mtimeMs < Date.now() - STALE_TEMP_TIME) {
+                    fileList.push({ filename: filename, size: stat.size, time: stat.mtimeMs, isTemp: isTemp })
+                }
+            } catch (error) {
+                // the file has been removed by another process
+                if (error.code != 'ENOENT') {
+                    throw error
+                }
+            }
+        }
+        return fileList
+    }
+
+    /**
+     * @internal
+     * Remove the stale temporary files, and then the least recently used files until the cache is within the `maxSize`.
+     * The file just saved is kept.
+     */
+    protected async removeLeastRecentlyUsed(savedFilename: string): Promise<void> {
+        const fileList = await this.getFileList()
+        let size = fileList.reduce((total, file) => total + file.size, 0)
+        // the stale temporary files are removed first
+        fileList.sort((file, otherFile) => Number(otherFile.isTemp) - Number(file.isTemp) || file.time - otherFile.time)
+        for (const file of fileList) {
+            if (size <= this.options.maxSize && !file.isTemp) {
+                break
+            }
+            if (file.filename != savedFilename) {
+                await this.deleteFile(file.filename)
+                size -= file.size
+            }
+        }
+    }
+}
@@ -0,0 +1,149 @@
+/*
+ *
+ *
+ *      Memory Agent Storage
+ *
+ *
+ */
+
+import { IAgentStorage } from '../Interfaces/IAgentStorage'
+import { IListingData, IListingHistoryItem } from '../Interfaces/IListing'
+import { IPurchaseData } from '../Interfaces/IPurchase'
+import { ITrustLevel, TrustSubjectType } from '../Interfaces/ITrust'
+import { IInvokeResult } from '../Interfaces/IInvoke'
+
+/**
+ * Agent storage that holds all of the agent data in memory. Any object read or saved is copied,
+ * so that the caller cannot change the stored data.
+ */
+export class MemoryAgentStorage implements IAgentStorage {
+    protected metadataList: Map<string, string>
+    protected dataList: Map<string, Buffer>
+    protected chunkList: Map<string, Map<number, Buffer>>
+    protected listingList: Map<string, IListingData>
+    protected listingHistoryList: Array<IListingHistoryItem>
+    protected purchaseList: Map<string, IPurchaseData>
+    protected trustLevelList: Map<string, ITrustLevel>
+    protected jobList: Map<string, IInvokeResult>
+
+    protected static copyObject<T>(value: T): T {
+        if (value === undefined || value === null) {
+            return value
+        }
+        return JSON.parse(JSON.stringify(value))
+    }
+
+    constructor() {
+        this.metadataList = new Map<string, string>()
+        this.dataList = new Map<string, Buffer>()
+        this.chunkList = new Map<string, Map<number, Buffer>>()
+        this.listingList = new Map<string, IListingData>()
+        this.listingHistoryList = []
+        this.purchaseList = new Map<string, IPurchaseData>()
+        this.trustLevelList = new Map<string, ITrustLevel>()
+        this.jobList = new Map<string, IInvokeResult>()
+    }
+
+    public async saveMetadata(assetId: string, metadataText: string): Promise<void> {
+        this.metadataList.set(assetId, metadataText)
+    }
+
+    public async readMetadata(assetId: string): Promise<string> {
+        if (!this.metadataList.has(assetId)) {
+            return null
+        }
+        return this.metadataList.get(assetId)
+    }
+
+    public async getMetadataIdList(): Promise<Array<string>> {
+        return Array.from(this.metadataList.keys())
+    }
+
+    public async saveAssetData(assetId: string, data: Buffer): Promise<void> {
+        this.dataList.set(assetId, Buffer.from(data))
+    }
+
+    public async readAssetData(assetId: string): Promise<Buffer> {
+        if (!this.dataList.has(assetId)) {
+            return null
+        }
+        return Buffer.from(this.dataList.get(assetId))
+    }
+
+    public async saveAssetDataChunk(assetId: string, index: number, data: Buffer): Promise<void> {
+        if (!this.chunkList.has(assetId)) {
+            this.chunkList.set(assetId, new Map<number, Buffer>())
+        }
+        this.chunkList.get(assetId).set(index, Buffer.from(data))
+    }
+
+    public async readAssetDataChunk(assetId: string, index: number): Promise<Buffer> {
+        if (!this.chunkList.has(assetId) || !this.chunkList.get(assetId).has(index)) {
+            return null
+        }
+        return Buffer.from(this.chunkList.get(assetId).get(index))
+    }
+
+    public async getAssetDataChunkIndexList(assetId: string): Promise<Array<number>> {
+        if (!this.chunkList.has(assetId)) {
+            return []
+        }
+        return Array.from(this.chunkList.get(assetId).keys())
+    }
+
+    public async deleteAssetDataChunks(assetId: string): Promise<void> {
+        this.chunkList.delete(assetId)
+    }
+
+    public async saveListing(listingData: IListingData): Promise<void> {
+        this.listingList.set(listingData.id, MemoryAgentStorage.copyObject(listingData))
+    }
+
+    public async readListing(listingId: string): Promise<IListingData> {
+        return MemoryAgentStorage.copyObject(this.listingList.get(listingId) || null)
+    }
+
+    public async getListingList(): Promise<Array<IListingData>> {
+        return MemoryAgentStorage.copyObject(Array.from(this.listingList.values()))
+    }
+
+    public async deleteListing(listingId: string): Promise<void> {
+        this.listingList.delete(listingId)
+    }
+
+    public async addListingHistory(historyItem: IListingHistoryItem): Promise<void> {
+        this.listingHistoryList.push(MemoryAgentStorage.copyObject(historyItem))
+    }
+
+    public async getListingHistory(listingId: string): Promise<Array<IListingHistoryItem>> {
+        return MemoryAgentStorage.copyObject(this.listingHistoryList.filter((item) => item.listingid == listingId))
+    }
+
+    public async savePurchase(purchaseData: IPurchaseData): Promise<void> {
+        this.purchaseList.set(purchaseData.id, MemoryAgentStorage.copyObject(purchaseData))
+    }
+
+    public async readPurchase(purchaseId: string): Promise<IPurchaseData> {
+        return MemoryAgentStorage.copyObject(this.purchaseList.get(purchaseId) || null)
+    }
+
+    public async getPurchaseList(): Promise<Array<IPurchaseData>> {
+        return MemoryAgentStorage.copyObject(Array.from(this.purchaseList.values()))
+    }
+
+    public async saveTrustLevel(trustLevel: ITrustLevel): Promise<void> {
+        this.trustLevelList.set(`${trustLevel.type}:${trustLevel.subject}`, MemoryAgentStorage.copyObject(trustLevel))
+    }
+
+    public async readTrustLevel(type: TrustSubjectType, subject: string): Promise<ITrustLevel> {
+        return MemoryAgentStorage.copyObject(this.trustLevelList.get(`${type}:${subject}`) || null)
+    }
+
+    public async saveJob(job: IInvokeResult): Promise<void> {
+        this.jobList.set(job['job-id'], MemoryAgentStorage.copyObject(job))
+    }
+
+    public async readJob(jobId: string): Promise<IInvokeResult> {
+        return MemoryAgentStorage.copyObject(this.jobList.get(jobId) || null)
+    }
+}
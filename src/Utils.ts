@@ -231,3 +231,61 @@ export function extractAssetId(assetDIDId: string): string {
     }
     return toIdHex(result['path'])
 }
+
+/*
+ *
+ *
+ *      JSON Helpers
+ *
+ *
+ */
+
+/**
+ * Serialize a value as canonical JSON, as defined by [RFC 8785](https://tools.ietf.org/html/rfc8785).
+ * Object keys are sorted by their UTF-16 code units, there is no whitespace, and numbers and strings are
+ * serialized the same as `JSON.stringify`. So the same value always gives the same text.
+ * @param value Value to serialize.
+ * @returns The canonical JSON text.
+ * @throws Error if the value contains a number that is not finite.
+ * @category JSON Helpers
+ */
+export function toCanonicalJSON(value: unknown): string {
+    if (value !== null && typeof value === 'object' && typeof value['toJSON'] === 'function') {
+        return toCanonicalJSON(value['toJSON']())
+    }
+    if (typeof value === 'number' && !isFinite(value)) {
+        throw new Error(`Canonical JSON: ${value} cannot be serialized`)
+    }
+    if (value === null || typeof value !== 'object') {
+        return JSON.stringify(value)
+    }
+    if (Array.isArray(value)) {
+        const items = value.map((item) => {
+            const text = toCanonicalJSON(item)
+            return text === undefined ? 'null' : text
+        })
+        return `[${items.join(',')}]`
+    }
+    const items = []
+    for (const name of Object.keys(value).sort()) {
+        const text = toCanonicalJSON(value[name])
+        if (text !== undefined) {
+            items.push(`${JSON.stringify(name)}:${text}`)
+        }
+    }
+    return `{${items.join(',')}}`
+}
+
+/**
+ * Test to see if the JSON text is in canonical form, see {@link toCanonicalJSON}.
+ * @param text JSON text to test.
+ * @returns true if the text is valid JSON and is the same as the canonical JSON of it's value.
+ * @category JSON Helpers
+ */
+export function isCanonicalJSON(text: string): boolean {
+    try {
+        return toCanonicalJSON(JSON.parse(text)) === text
+    } catch (error) {
+        return false
+    }
+}
@@ -11,8 +11,16 @@ import urljoin from 'url-join'
 import fetch, { Headers } from 'node-fetch'
 import { Base64 } from 'js-base64'
 
+import { AgentServer } from 'starfish/Server/AgentServer'
+import { IAgentServerOptions } from 'starfish/Interfaces/IAgentServer'
+
 const CONFIG_FILENAME = 'test/resources/config_local.yml'
 
+export const testAgentAuthentication = {
+    username: 'Aladdin',
+    password: 'OpenSesame',
+}
+
 function loadConfig(filename): any {
     const doc = yaml.safeLoad(fs.readFileSync(filename))
     return doc
@@ -24,7 +32,6 @@ export function loadTestSetup(): any {
 }
 
 export async function enableSurferInvokableOperations(url: string, username: string, password: string): Promise<boolean> {
-
     const auth = Base64.encode(`${username}:${password}`)
     const headers = new Headers({
         Authorization: `Basic ${auth}`,
@@ -40,3 +47,15 @@ export async function enableSurferInvokableOperations(url: string, username: str
     }
     return null
 }
+
+/**
+ * Create an in process agent server for the RemoteAgent tests, with the test user.
+ */
+export function createTestAgentServer(options?: IAgentServerOptions): AgentServer {
+    return new AgentServer({
+        users: {
+            [testAgentAuthentication.username]: testAgentAuthentication.password,
+        },
+        ...options,
+    })
+}
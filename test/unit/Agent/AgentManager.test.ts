@@ -0,0 +1,132 @@
+/*
+ *
+ *     Test AgentManager Class
+ *
+ *
+ */
+
+import chai, { assert } from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+chai.use(chaiAsPromised)
+import { randomHex } from 'web3-utils'
+
+import { AgentManager } from 'starfish/Agent/AgentManager'
+import { LocalAgent } from 'starfish/Agent/LocalAgent'
+import { RemoteAgent } from 'starfish/Agent/RemoteAgent'
+import { AgentServer } from 'starfish/Server/AgentServer'
+import { HTTPTransport } from 'starfish/Middleware/HTTPTransport'
+import { DataAsset, OperationAsset } from 'starfish/Asset/Asset'
+import { Account } from 'starfish/Account'
+import { didCreate } from 'starfish/Utils'
+
+const agentAuthentication = {
+    username: 'Aladdin',
+    password: 'OpenSesame',
+}
+
+describe('AgentManager Class', () => {
+    let server: AgentServer
+    let url: string
+    let ddoRequestCount: number
+    let transport: HTTPTransport
+    before(async () => {
+        server = new AgentServer({
+            users: {
+                [agentAuthentication.username]: agentAuthentication.password,
+            },
+        })
+        url = await server.start()
+        transport = new HTTPTransport()
+        transport.addRequestInterceptor((requestURL, options) => {
+            if (/\/api\/ddo$/.test(requestURL)) {
+                ddoRequestCount++
+            }
+            return options
+        })
+    })
+    beforeEach(() => {
+        ddoRequestCount = 0
+    })
+    after(async () => {
+        await server.stop()
+    })
+
+    describe('getAgentKey', () => {
+        it('should return the agent DID for an asset DID', () => {
+            const agentDID = didCreate()
+            assert.equal(AgentManager.getAgentKey(`${agentDID}/${randomHex(32).substring(2)}`), agentDID)
+            assert.equal(AgentManager.getAgentKey('http://localhost:3030/'), 'http://localhost:3030')
+        })
+    })
+
+    describe('getAgent', () => {
+        it('should resolve an agent once and cache it by URL and DID', async () => {
+            const manager = new AgentManager(null, { remoteAgentOptions: { transport: transport } })
+            manager.setAuthentication(url, agentAuthentication)
+            const agent = await manager.getAgent(url)
+            assert(agent instanceof RemoteAgent)
+            assert.deepEqual((<RemoteAgent>agent).authentication, agentAuthentication)
+            assert.strictEqual(await manager.getAgent(`${url}/`), agent)
+            assert.strictEqual(await manager.getAgent(agent.ddo.id), agent)
+            assert.equal(ddoRequestCount, 1)
+        })
+        it('should resolve the agent again after the ttl has expired', async () => {
+            const manager = new AgentManager(null, { ttl: 0, remoteAgentOptions: { transport: transport } })
+            const agent = await manager.getAgent(url)
+            await new Promise((resolve) => setTimeout(resolve, 2))
+            assert.notStrictEqual(await manager.getAgent(url), agent)
+            assert.equal(ddoRequestCount, 2)
+        })
+        it('should remove an agent from the registry', async () => {
+            const manager = new AgentManager(null, { remoteAgentOptions: { transport: transport } })
+            const agent = await manager.getAgent(url)
+            assert(manager.removeAgent(agent.ddo.id))
+            assert.isFalse(manager.removeAgent(url))
+            await manager.getAgent(url)
+            assert.equal(ddoRequestCount, 2)
+        })
+        it('should not resolve an agent DID without a network', async () => {
+            const manager = new AgentManager()
+            await assert.isRejected(manager.getAgent(didCreate()), /Unable to resolve agent/)
+        })
+    })
+
+    describe('resolveAsset', () => {
+        it('should resolve an asset DID to a typed asset from the agent', async () => {
+            const manager = new AgentManager()
+            manager.setAuthentication(url, agentAuthentication)
+            const agent = <RemoteAgent>await manager.getAgent(url)
+            const data = Buffer.from('resolved data')
+            const asset = await agent.registerAsset(DataAsset.create('testAsset', data))
+            await agent.uploadAsset(<DataAsset>asset)
+            const resolvedAsset = await manager.resolveAsset(asset.did)
+            assert(resolvedAsset instanceof DataAsset)
+            assert.equal(resolvedAsset.did, asset.did)
+            assert((await (<DataAsset>resolvedAsset).getData()).equals(data))
+        })
+        it('should resolve an encrypted asset and decrypt the data with a recipient account', async () => {
+            const manager = new AgentManager()
+            const localAgent = LocalAgent.create()
+            manager.addAgent(localAgent)
+            const recipient = Account.createNew('password')
+            const data = Buffer.from('encrypted resolved data')
+            const asset = await localAgent.registerAsset(
+                await DataAsset.createEncrypted(DataAsset.create('testAsset', data), [recipient])
+            )
+            await localAgent.uploadAsset(<DataAsset>asset)
+            const resolvedAsset = <DataAsset>await manager.resolveAsset(asset.did, recipient)
+            assert((await resolvedAsset.getData()).equals(data))
+        })
+        it('should resolve an asset from an added agent', async () => {
+            const manager = new AgentManager()
+            const localAgent = LocalAgent.create()
+            manager.addAgent(localAgent)
+            const asset = await localAgent.registerAsset(OperationAsset.create('Increment'))
+            assert((await manager.resolveAsset(asset.did)) instanceof OperationAsset)
+        })
+        it('should not resolve an agent DID without an asset id', async () => {
+            const manager = new AgentManager()
+            await assert.isRejected(manager.resolveAsset(didCreate()), /is not an asset DID/)
+        })
+    })
+})
@@ -0,0 +1,116 @@
+/*
+ *
+ *     Test Bundle functions
+ *
+ *
+ */
+
+import chai, { assert } from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+chai.use(chaiAsPromised)
+import fs from 'fs-extra'
+import os from 'os'
+import { join as pathJoin } from 'path'
+
+import { LocalAgent } from 'starfish/Agent/LocalAgent'
+import { checkBundleMemberName, createBundleFromDirectory } from 'starfish/Agent/Bundle'
+import { DataAsset, OperationAsset } from 'starfish/Asset/Asset'
+import { BundleAsset } from 'starfish/Asset/BundleAsset'
+import { Account } from 'starfish/Account'
+
+describe('Bundle functions', () => {
+    let sourcePath: string
+    let targetPath: string
+    before(async () => {
+        sourcePath = await fs.mkdtemp(pathJoin(os.tmpdir(), 'bundle-source-'))
+        targetPath = await fs.mkdtemp(pathJoin(os.tmpdir(), 'bundle-target-'))
+        await fs.writeFile(pathJoin(sourcePath, 'readme.txt'), 'release notes')
+        await fs.mkdirp(pathJoin(sourcePath, 'data', 'raw'))
+        await fs.writeFile(pathJoin(sourcePath, 'data', 'part1.csv'), 'a,b\n1,2\n')
+        await fs.writeFile(pathJoin(sourcePath, 'data', 'raw', 'part2.bin'), Buffer.from([0, 1, 2, 3]))
+    })
+    after(async () => {
+        await fs.remove(sourcePath)
+        await fs.remove(targetPath)
+    })
+
+    describe('checkBundleMemberName', () => {
+        it('should only allow names that can be used as a file name', () => {
+            checkBundleMemberName('data.csv')
+            assert.throws(() => checkBundleMemberName('..'), /Invalid member name/)
+            assert.throws(() => checkBundleMemberName('data/../../etc'), /Invalid member name/)
+            assert.throws(() => checkBundleMemberName(''), /Invalid member name/)
+        })
+    })
+
+    describe('createBundleFromDirectory', () => {
+        it('should create nested bundles for each sub directory', async () => {
+            const bundle = await createBundleFromDirectory('release', sourcePath)
+            assert.deepEqual(Object.keys(bundle.memberList), ['data', 'readme.txt'])
+            assert(bundle.getMemberAsset('data') instanceof BundleAsset)
+            assert(bundle.getMemberAsset('readme.txt') instanceof DataAsset)
+            const dataBundle = <BundleAsset>bundle.getMemberAsset('data')
+            assert.deepEqual(Object.keys(dataBundle.memberList), ['part1.csv', 'raw'])
+        })
+    })
+
+    describe('registerBundle, downloadBundle', () => {
+        it('should register a bundle tree and download it to a directory', async () => {
+            const agent = LocalAgent.create()
+            const operation = await agent.registerAsset(OperationAsset.create('Increment'))
+            const bundle = await createBundleFromDirectory('release', sourcePath)
+            bundle.setMemberAsset('operation', operation)
+            const registeredBundle = await agent.registerBundle(bundle)
+            assert(registeredBundle.did)
+            assert.equal(registeredBundle.metadata.name, 'release')
+            const contents = registeredBundle.metadata.contents
+            assert.deepEqual(Object.keys(contents).sort(), ['data', 'operation', 'readme.txt'])
+            assert.equal(contents['operation'].assetID, operation.getAssetId())
+            const dataBundle = await agent.getAsset(contents['data'].assetID)
+            assert.equal(dataBundle.metadata.type, 'bundle')
+            assert.deepEqual(Object.keys(dataBundle.metadata.contents), ['part1.csv', 'raw'])
+
+            const downloadBundle = await agent.downloadBundle(registeredBundle.did, targetPath)
+            assert(downloadBundle.getMemberAsset('operation'))
+            assert.equal(await fs.readFile(pathJoin(targetPath, 'readme.txt'), 'utf-8'), 'release notes')
+            assert.equal(await fs.readFile(pathJoin(targetPath, 'data', 'part1.csv'), 'utf-8'), 'a,b\n1,2\n')
+            assert.deepEqual(await fs.readFile(pathJoin(targetPath, 'data', 'raw', 'part2.bin')), Buffer.from([0, 1, 2, 3]))
+            assert.isFalse(await fs.pathExists(pathJoin(targetPath, 'operation')))
+        })
+        it('should not register a nested bundle that already has a DID', async () => {
+            const agent = LocalAgent.create()
+            const dataBundle = await agent.registerBundle(await createBundleFromDirectory('data', pathJoin(sourcePath, 'data')))
+            const bundle = BundleAsset.create('release')
+            bundle.setMemberAsset('data', dataBundle)
+            let registerCount = 0
+            const registerAsset = agent.registerAsset.bind(agent)
+            agent.registerAsset = (asset) => {
+                registerCount++
+                return registerAsset(asset)
+            }
+            const registeredBundle = await agent.registerBundle(bundle)
+            assert.equal(registerCount, 1)
+            assert.strictEqual(registeredBundle.getMemberAsset('data'), dataBundle)
+            assert.equal(registeredBundle.metadata.contents['data'].assetID, dataBundle.getAssetId())
+        })
+        it('should download the encrypted members of a bundle with a recipient account', async () => {
+            const agent = LocalAgent.create()
+            const recipient = Account.createNew('password')
+            const bundle = BundleAsset.create('encrypted')
+            bundle.setMemberAsset(
+                'secret.txt',
+                await DataAsset.createEncrypted(DataAsset.create('secret.txt', Buffer.from('secret data')), [recipient])
+            )
+            const registeredBundle = await agent.registerBundle(bundle)
+            const path = pathJoin(targetPath, 'encrypted')
+            await assert.isRejected(agent.downloadBundle(registeredBundle.did, path), /account of a recipient is needed/)
+            await agent.downloadBundle(registeredBundle.did, path, recipient)
+            assert.equal(await fs.readFile(pathJoin(path, 'secret.txt'), 'utf-8'), 'secret data')
+        })
+        it('should not download an asset that is not a bundle', async () => {
+            const agent = LocalAgent.create()
+            const asset = await agent.registerAsset(DataAsset.create('testAsset', Buffer.from('data')))
+            await assert.isRejected(agent.downloadBundle(asset.did, targetPath), /is not a bundle/)
+        })
+    })
+})
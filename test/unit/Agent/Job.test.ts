@@ -0,0 +1,106 @@
+/*
+ *
+ *     Test Job functions
+ *
+ *
+ */
+
+import chai, { assert } from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+chai.use(chaiAsPromised)
+
+import { createJobResult, getAssetReference, resolveOutputAssets, waitForJob } from 'starfish/Agent/Job'
+import { LocalAgent } from 'starfish/Agent/LocalAgent'
+import { DataAsset } from 'starfish/Asset/Asset'
+import { IInvokeResult } from 'starfish/Interfaces/IInvoke'
+import { didCreate } from 'starfish/Utils'
+
+function createGetJob(statusList: Array<IInvokeResult>) {
+    let index = 0
+    return async (jobId: string): Promise<IInvokeResult> => {
+        const result = statusList[Math.min(index, statusList.length - 1)]
+        index++
+        return { ...result, 'job-id': jobId }
+    }
+}
+
+describe('Job functions', () => {
+    describe('createJobResult', () => {
+        it('should create a typed job result', () => {
+            const succeeded = createJobResult({ status: 'succeeded', outputs: { n: 1 }, 'job-id': '1' })
+            assert.equal(succeeded.status, 'succeeded')
+            assert.deepEqual(succeeded['outputs'], { n: 1 })
+            const failed = createJobResult({ status: 'failed', error: 'bad', 'job-id': '2' })
+            assert.equal(failed.status, 'failed')
+            assert.equal(failed['error'], 'bad')
+            const running = createJobResult({ status: 'scheduled', 'job-id': '3' })
+            assert.equal(running.status, 'running')
+            assert.equal(running.jobId, '3')
+            assert.throws(() => createJobResult(null, '4'), /Job 4 not found/)
+        })
+    })
+    describe('waitForJob', () => {
+        it('should poll until the job has finished and call the events', async () => {
+            const getJob = createGetJob([
+                { status: 'running', 'job-id': null },
+                { status: 'running', 'job-id': null },
+                { status: 'succeeded', outputs: { n: 2 }, 'job-id': null },
+            ])
+            const progressList = []
+            const statusList = []
+            const result = await waitForJob(getJob, 'test-job', {
+                pollInterval: 1,
+                onProgress: (job) => progressList.push(job),
+                onStatusChange: (job) => statusList.push(job.status),
+            })
+            assert.equal(result.status, 'succeeded')
+            assert.equal(result.jobId, 'test-job')
+            assert.equal(progressList.length, 3)
+            assert.deepEqual(statusList, ['running', 'succeeded'])
+        })
+        it('should return the running job after the timeout', async () => {
+            const getJob = createGetJob([{ status: 'running', 'job-id': null }])
+            const result = await waitForJob(getJob, { 'job-id': 'test-job' }, { pollInterval: 5, timeout: 30 })
+            assert.equal(result.status, 'running')
+        })
+        it('should stop waiting if the job is not found', async () => {
+            await assert.isRejected(
+                waitForJob(async () => null, 'test-job', { pollInterval: 1 }),
+                /Job test-job not found/
+            )
+        })
+        it('should stop waiting when aborted', async () => {
+            const getJob = createGetJob([{ status: 'running', 'job-id': null }])
+            const controller = new AbortController()
+            setTimeout(() => controller.abort(), 20)
+            await assert.isRejected(waitForJob(getJob, 'test-job', { pollInterval: 5, signal: controller.signal }), /aborted/)
+        })
+    })
+    describe('resolveOutputAssets', () => {
+        let agent: LocalAgent
+        let asset: DataAsset
+        before(async () => {
+            agent = LocalAgent.create()
+            asset = <DataAsset>await agent.registerAsset(DataAsset.create('testAsset', Buffer.from('test data')))
+            await agent.uploadAsset(asset)
+        })
+        it('should find asset references', () => {
+            assert.equal(getAssetReference({ did: asset.did }), asset.did)
+            assert.equal(getAssetReference(asset.getAssetId(), true), asset.getAssetId())
+            assert.isNull(getAssetReference(asset.getAssetId()))
+            assert.isNull(getAssetReference({ did: agent.ddo.id }))
+        })
+        it('should resolve an asset reference and load the data on demand', async () => {
+            const outputs = await resolveOutputAssets({ result: { did: asset.did }, n: 1 }, null, agent, {})
+            const resolvedAsset = outputs['result']
+            assert.instanceOf(resolvedAsset, DataAsset)
+            assert.isUndefined(resolvedAsset.data)
+            assert((await resolvedAsset.getData()).equals(Buffer.from('test data')))
+            assert.equal(outputs['n'], 1)
+        })
+        it('should fail to resolve an asset on another agent without a network', async () => {
+            const otherDID = didCreate(null, asset.getAssetId())
+            await assert.isRejected(resolveOutputAssets({ result: { did: otherDID } }, null, agent, {}), /no network/)
+        })
+    })
+})
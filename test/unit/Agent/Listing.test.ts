@@ -0,0 +1,85 @@
+/*
+ *
+ *     Test Listing functions
+ *
+ *
+ */
+
+import { assert } from 'chai'
+
+import {
+    isListingStatusChangeAllowed,
+    checkListingDelete,
+    validateListingInfo,
+    checkListingInfo,
+    getListingPriceWei,
+    getListingCurrency,
+    isListingValid,
+    ListingInfoValidationError,
+} from 'starfish/Agent/Listing'
+import { IListingData, ListingStatus } from 'starfish/Interfaces/IListing'
+
+describe('Listing functions', () => {
+    describe('isListingStatusChangeAllowed', () => {
+        it('should allow only the valid status changes', () => {
+            assert.isTrue(isListingStatusChangeAllowed(ListingStatus.Unpublished, ListingStatus.Published))
+            assert.isTrue(isListingStatusChangeAllowed(ListingStatus.Published, ListingStatus.Archived))
+            assert.isTrue(isListingStatusChangeAllowed(ListingStatus.Archived, ListingStatus.Unpublished))
+            assert.isTrue(isListingStatusChangeAllowed(ListingStatus.Published, ListingStatus.Published))
+            assert.isFalse(isListingStatusChangeAllowed(ListingStatus.Archived, ListingStatus.Published))
+            assert.isFalse(isListingStatusChangeAllowed(ListingStatus.Unpublished, 'sold'))
+        })
+    })
+    describe('checkListingDelete', () => {
+        it('should not allow a published listing to be deleted', () => {
+            const listingData = <IListingData>{ id: '01', status: ListingStatus.Published }
+            assert.throws(() => checkListingDelete(listingData), /Unable to delete listing 01/)
+            listingData.status = ListingStatus.Archived
+            checkListingDelete(listingData)
+        })
+    })
+    describe('validateListingInfo', () => {
+        it('should accept a valid listing info', () => {
+            const listingInfo = {
+                price: '1.5',
+                currency: 'ETH',
+                license: { name: 'CC-BY-4.0', url: 'https://creativecommons.org/licenses/by/4.0/' },
+                validFrom: '2020-01-01T00:00:00Z',
+                validTo: '2021-01-01T00:00:00Z',
+                access: { type: 'download', duration: 86400, maxDownloads: 3 },
+            }
+            assert.deepEqual(validateListingInfo(listingInfo), [])
+            assert.deepEqual(validateListingInfo({ price: 10, currency: '0x' + '1'.repeat(40) }), [])
+        })
+        it('should return an error for each invalid field', () => {
+            const errors = validateListingInfo({
+                price: -1,
+                currency: 'GBP',
+                license: { name: '' },
+                validFrom: '2021-01-01',
+                validTo: '2020-01-01',
+                access: { maxDownloads: 1.5 },
+            })
+            assert.deepEqual(
+                errors.map((error) => error.name),
+                ['price', 'currency', 'license.name', 'validTo', 'access.maxDownloads']
+            )
+            assert.deepEqual(validateListingInfo({ title: 'no price' }), [])
+            assert.equal(validateListingInfo(<any>null)[0].name, 'info')
+            assert.throws(() => checkListingInfo({ price: 'free' }), ListingInfoValidationError, /price/)
+        })
+    })
+    describe('price helpers', () => {
+        it('should convert the price to wei and get the currency', () => {
+            assert.equal(getListingPriceWei({ price: 1.5 }), '1500000000000000000')
+            assert.equal(getListingPriceWei({ price: '2' }), '2000000000000000000')
+            assert.equal(getListingCurrency({ price: 1 }), 'DEX')
+            assert.equal(getListingCurrency({ price: 1, currency: 'ETH' }), 'ETH')
+        })
+        it('should check the validity period', () => {
+            const listingInfo = { price: 1, validFrom: '2020-01-01T00:00:00Z', validTo: '2020-02-01T00:00:00Z' }
+            assert.isTrue(isListingValid(listingInfo, new Date('2020-01-15T00:00:00Z')))
+            assert.isFalse(isListingValid(listingInfo, new Date('2020-03-01T00:00:00Z')))
+        })
+    })
+})
@@ -0,0 +1,228 @@
+/*
+ *
+ *     Test LocalAgent Class
+ *
+ *
+ */
+
+import chai, { assert } from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+chai.use(chaiAsPromised)
+import { randomHex, hexToBytes } from 'web3-utils'
+
+import { LocalAgent } from 'starfish/Agent/LocalAgent'
+import { AssetBase, DataAsset, OperationAsset } from 'starfish/Asset/Asset'
+import { ListingStatus } from 'starfish/Interfaces/IListing'
+
+const agentAuthentication = {
+    username: 'Aladdin',
+    password: 'OpenSesame',
+}
+
+describe('LocalAgent Class', () => {
+    describe('create', () => {
+        it('should create new LocalAgent', async () => {
+            const agent = LocalAgent.create()
+            assert(agent)
+            assert(agent.ddo)
+        })
+    })
+
+    describe('LocalAgent methods', () => {
+        let agent: LocalAgent
+        before(() => {
+            agent = LocalAgent.create(null, agentAuthentication)
+        })
+        describe('registerAsset', () => {
+            it('should register a data asset', async () => {
+                const data = Buffer.from(hexToBytes(randomHex(1024)))
+                const asset = DataAsset.create('testAsset', data)
+                const registerAsset = await agent.registerAsset(asset)
+                assert(registerAsset)
+                assert(registerAsset.did)
+                assert.equal(registerAsset.getAssetId(), asset.calculateAssetId())
+            })
+        })
+        describe('Test on a registered asset', () => {
+            let data
+            let registerAsset
+            before(async () => {
+                data = Buffer.from(hexToBytes(randomHex(1024)))
+                const asset = DataAsset.create('testAsset', data)
+                registerAsset = await agent.registerAsset(asset)
+            })
+
+            describe('getAsset', () => {
+                it('should read asset from the local agent', async () => {
+                    const readAsset = await agent.getAsset(registerAsset.did)
+                    assert(readAsset)
+                    assert.equal(readAsset.did, registerAsset.did)
+                    assert.equal(readAsset.metadataText, registerAsset.metadataText)
+                })
+                it('should return null for an unknown asset', async () => {
+                    assert.isNull(await agent.getAsset(randomHex(32)))
+                })
+            })
+            describe('searchAssets', () => {
+                it('should return the registered metadata text', async () => {
+                    const metadataText = JSON.stringify({ type: 'dataset', name: 'searchAsset' }, null, 2)
+                    const asset = await agent.registerAsset(new AssetBase(metadataText))
+                    const assetList = await agent.searchAssets({ text: 'searchAsset' })
+                    assert.equal(assetList.length, 1)
+                    assert.equal(assetList[0].metadataText, metadataText)
+                    assert.equal(assetList[0].calculateAssetId(), asset.getAssetId())
+                })
+            })
+            describe('uploadAsset, downloadAsset', () => {
+                it('should upload and download asset data', async () => {
+                    assert(await agent.uploadAsset(registerAsset))
+                    const newAsset = await agent.downloadAsset(registerAsset.did)
+                    assert(newAsset)
+                    assert(newAsset.data.equals(data))
+                })
+                it('should not upload an asset that has no data', async () => {
+                    const emptyAsset = <DataAsset>(
+                        await agent.registerAsset(new DataAsset(JSON.stringify({ name: 'empty', type: 'dataset' })))
+                    )
+                    await assert.isRejected(agent.uploadAsset(emptyAsset), /has no data to upload/)
+                })
+            })
+        })
+        describe('Test Market API', () => {
+            let registerAsset
+            const listing = {
+                price: 100,
+                description: 'test listing',
+            }
+            before(async () => {
+                const asset = DataAsset.create('testAsset', Buffer.from(hexToBytes(randomHex(1024))))
+                registerAsset = await agent.registerAsset(asset)
+            })
+            it('should create, update and get a listing', async () => {
+                const listingSaved = await agent.createListing(listing, registerAsset.did)
+                assert(listingSaved)
+                assert.equal(listingSaved.assetid, registerAsset.getAssetId())
+                assert.equal(listingSaved.userid, agentAuthentication.username)
+                assert.equal(listingSaved.status, 'unpublished')
+                listingSaved.status = 'published'
+                const listingUpdated = await agent.updateListing(listingSaved)
+                assert.equal(listingUpdated.status, 'published')
+                const listingRead = await agent.getListing(listingSaved.id)
+                assert.equal(listingRead.id, listingSaved.id)
+                assert.deepEqual(listingRead.info, listing)
+            })
+            it('should publish, unpublish, archive and delete a listing', async () => {
+                const listingData = await agent.createListing(listing, registerAsset.did)
+                assert.equal((await agent.publishListing(listingData)).status, ListingStatus.Published)
+                await assert.isRejected(agent.deleteListing(listingData.id), /Unable to delete listing/)
+                assert.equal((await agent.archiveListing(listingData.id)).status, ListingStatus.Archived)
+                await assert.isRejected(agent.publishListing(listingData.id), /from 'archived' to 'published'/)
+                const historyList = await agent.getListingHistory(listingData.id)
+                assert.deepEqual(
+                    historyList.map((item) => item.status),
+                    ['unpublished', 'published', 'archived']
+                )
+                assert(await agent.deleteListing(listingData.id))
+                assert.isNull(await agent.getListing(listingData.id))
+            })
+            it('should not create a listing with invalid listing info', async () => {
+                await assert.isRejected(agent.createListing({ price: 'free' }, registerAsset.did), /Invalid listing info/)
+            })
+            it('should change the status of a listing without checking the saved listing info', async () => {
+                const listingData = await agent.createListing(listing, registerAsset.did)
+                const savedListingData = await agent.storage.readListing(listingData.id)
+                savedListingData.info = { ...listing, price: 'free' }
+                await agent.storage.saveListing(savedListingData)
+                assert.equal((await agent.publishListing(listingData.id)).status, ListingStatus.Published)
+                assert.equal((await agent.archiveListing(listingData.id)).status, ListingStatus.Archived)
+                const listingRead = await agent.getListing(listingData.id)
+                listingRead.info = { ...listing, price: -1 }
+                await assert.isRejected(agent.updateListing(listingRead), /Invalid listing info/)
+            })
+            it('should update a listing that has no price', async () => {
+                const listingData = await agent.createListing({ title: 'no price' }, registerAsset.did)
+                listingData.info = { title: 'still no price', description: 'updated listing' }
+                assert.deepEqual((await agent.updateListing(listingData)).info, listingData.info)
+                assert.equal((await agent.publishListing(listingData.id)).status, ListingStatus.Published)
+            })
+            it('should get a list of listings', async () => {
+                await agent.createListing(listing, registerAsset.did)
+                const listingList = await agent.getListingList({ userid: agentAuthentication.username })
+                assert(listingList.length >= 1)
+                const pageList = await agent.getListingList({ from: 0, size: 1 })
+                assert.equal(pageList.length, 1)
+            })
+        })
+        describe('Test Trust API', () => {
+            it('should set and get trust levels within the trust policy', async () => {
+                const asset = await agent.registerAsset(DataAsset.create('testAsset', Buffer.from('trusted data')))
+                assert.equal((await agent.getAssetTrustLevel(asset.did)).level, agent.trustPolicy.defaultLevel)
+                await agent.setAssetTrustLevel(asset.did, 3)
+                assert.equal((await agent.getAssetTrustLevel(asset.getAssetId())).level, 3)
+                const listingData = await agent.createListing({ price: 1 }, asset.did)
+                assert.equal(listingData.trust_level, 3)
+                await agent.setUserTrustLevel('user', 10)
+                assert.equal((await agent.getUserTrustLevel('user')).level, 10)
+                await assert.isRejected(agent.setUserTrustLevel('user', 1.5), /must be an integer from 0 to 10/)
+                await assert.isRejected(agent.setAssetTrustLevel(asset.did, -1), /must be an integer/)
+            })
+        })
+        describe('Test on an invokable asset', () => {
+            let invokeAsset: OperationAsset
+            const inputs = {
+                n: 10,
+            }
+            before(async () => {
+                invokeAsset = OperationAsset.create('Increment')
+                await agent.registerOperation(invokeAsset, (inputs) => {
+                    return { n: inputs['n'] + 1 }
+                })
+            })
+            it('should invoke a sync operation', async () => {
+                const result = await agent.invoke(invokeAsset, inputs)
+                assert(result)
+                assert.equal(result['status'], 'succeeded')
+                assert.equal(result['outputs']['n'], 11)
+            })
+            it('should invoke an async operation and get the job', async () => {
+                const result = await agent.invoke(invokeAsset.did, inputs, true)
+                assert(result['job-id'])
+                const jobStatus = await agent.getJob(result)
+                assert(jobStatus)
+                assert.equal(jobStatus['job-id'], result['job-id'])
+            })
+            it('should wait for an async operation to finish', async () => {
+                const result = await agent.invoke(invokeAsset.did, inputs, true)
+                const job = await agent.waitForJob(result, { pollInterval: 1, timeout: 1000 })
+                assert.equal(job.status, 'succeeded')
+                if (job.status == 'succeeded') {
+                    assert.equal(job.outputs['n'], 11)
+                }
+            })
+            it('should validate the inputs, outputs and invoke mode', async () => {
+                const validateAsset = OperationAsset.create('Validate', {
+                    operation: {
+                        modes: ['sync'],
+                        inputs: { n: { type: 'number', required: true } },
+                        outputs: { n: { type: 'string' } },
+                    },
+                })
+                await agent.registerOperation(validateAsset, (inputs) => {
+                    return { n: inputs['n'] + 1 }
+                })
+                await assert.isRejected(agent.invoke(validateAsset, { n: 'text' }), /invalid inputs: n: must be of type 'number'/)
+                await assert.isRejected(agent.invoke(validateAsset, { n: 1 }, true), /does not allow async invoke/)
+                await assert.isRejected(agent.invoke(validateAsset, { n: 1 }), /invalid outputs/)
+            })
+            it('should record a failed operation', async () => {
+                const failAsset = OperationAsset.create('Fail')
+                await agent.registerOperation(failAsset, () => {
+                    throw new Error('operation failed')
+                })
+                const result = await agent.invoke(failAsset, inputs)
+                assert.equal(result['status'], 'failed')
+                assert.equal(result['error'], 'operation failed')
+            })
+        })
+    })
+})
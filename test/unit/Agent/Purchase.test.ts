@@ -0,0 +1,162 @@
+/*
+ *
+ *     Test Purchase functions
+ *
+ *
+ */
+
+import chai, { assert } from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+chai.use(chaiAsPromised)
+import { randomHex } from 'web3-utils'
+
+import {
+    toPurchaseReference,
+    createPurchaseProof,
+    isPurchaseProofMatch,
+    signPurchaseProof,
+    verifyPurchasePayment,
+} from 'starfish/Agent/Purchase'
+import { LocalAgent } from 'starfish/Agent/LocalAgent'
+import { DataAsset } from 'starfish/Asset/Asset'
+import { Account } from 'starfish/Account'
+import { Network } from 'starfish/Network'
+import { IListingData, ListingStatus } from 'starfish/Interfaces/IListing'
+
+/**
+ * Network test double that records the token payments in memory.
+ */
+function createPaymentNetwork(): Network {
+    const paymentList = []
+    const payments = {
+        sendTokenWithLogReceipt: async (account, toAddress, amount, reference1, reference2) => {
+            const transactionHash = randomHex(32)
+            const key = [account.address, toAddress, String(amount), reference1, reference2].join(':')
+            paymentList.push({ key: key, transactionHash: transactionHash })
+            return { status: true, transactionHash: transactionHash }
+        },
+        getTokenEventLogs: async (fromAddress, toAddress, amount, reference1, reference2) => {
+            const key = [fromAddress, toAddress, String(amount), reference1, reference2].join(':')
+            return paymentList.filter((item) => item.key == key)
+        },
+    }
+    return <Network>(<unknown>payments)
+}
+
+describe('Purchase functions', () => {
+    const account = Account.createNew('password')
+    const otherAccount = Account.createNew('password')
+    const paymentAddress = randomHex(20)
+    const listingData = <IListingData>{
+        id: randomHex(32).substring(2),
+        assetid: randomHex(32).substring(2),
+        status: ListingStatus.Published,
+        info: { price: 10, paymentAddress: paymentAddress },
+    }
+
+    describe('createPurchaseProof', () => {
+        it('should create a proof with the listing references', () => {
+            const proof = createPurchaseProof(listingData, account)
+            assert.equal(proof.reference1, `0x${listingData.id}`)
+            assert.equal(proof.reference2, toPurchaseReference(listingData.assetid))
+            assert.equal(proof.amount, '10')
+            assert.equal(proof.toAddress, paymentAddress)
+            assert.isTrue(isPurchaseProofMatch(listingData, proof))
+            assert.isFalse(isPurchaseProofMatch(listingData, { ...proof, amount: '1' }))
+        })
+        it('should not purchase an unpublished or unpaid listing', () => {
+            assert.throws(
+                () => createPurchaseProof({ ...listingData, status: ListingStatus.Unpublished }, account),
+                /not published/
+            )
+            assert.throws(() => createPurchaseProof({ ...listingData, info: { price: 10 } }, account), /payment address/)
+            assert.throws(() => createPurchaseProof({ ...listingData, info: { paymentAddress: paymentAddress } }, account), /price/)
+            assert.throws(
+                () => createPurchaseProof({ ...listingData, info: { ...listingData.info, currency: 'ETH' } }, account),
+                /not supported/
+            )
+        })
+    })
+    describe('verifyPurchasePayment', () => {
+        it('should verify a payment sent on the network', async () => {
+            const network = createPaymentNetwork()
+            const proof = createPurchaseProof(listingData, account)
+            assert.isFalse(
+                await verifyPurchasePayment(network, listingData, await signPurchaseProof(proof, account, randomHex(32)))
+            )
+            const receipt = await network.sendTokenWithLogReceipt(
+                account,
+                proof.toAddress,
+                proof.amount,
+                proof.reference1,
+                proof.reference2
+            )
+            assert.isFalse(await verifyPurchasePayment(network, listingData, proof))
+            const signedProof = await signPurchaseProof(proof, account, receipt.transactionHash)
+            assert.isTrue(await verifyPurchasePayment(network, listingData, signedProof))
+        })
+        it('should not verify a payment with a proof signed by another account', async () => {
+            const network = createPaymentNetwork()
+            const proof = createPurchaseProof(listingData, account)
+            const receipt = await network.sendTokenWithLogReceipt(
+                account,
+                proof.toAddress,
+                proof.amount,
+                proof.reference1,
+                proof.reference2
+            )
+            const otherProof = await signPurchaseProof(proof, otherAccount, receipt.transactionHash)
+            assert.isFalse(await verifyPurchasePayment(network, listingData, otherProof))
+            const otherSenderProof = await signPurchaseProof(
+                { ...proof, fromAddress: otherAccount.address },
+                otherAccount,
+                receipt.transactionHash
+            )
+            assert.isFalse(await verifyPurchasePayment(network, listingData, otherSenderProof))
+        })
+    })
+    describe('purchaseAsset', () => {
+        it('should pay for a listing and download the asset', async () => {
+            const network = createPaymentNetwork()
+            const agent = LocalAgent.create()
+            agent.network = network
+            const data = Buffer.from('purchased data')
+            const asset = <DataAsset>await agent.registerAsset(DataAsset.create('testAsset', data))
+            await agent.uploadAsset(asset)
+            const listing = await agent.createListing({ price: 5, paymentAddress: paymentAddress }, asset.did)
+            await assert.isRejected(agent.purchaseAsset(network, account, listing), /not published/)
+            await agent.publishListing(listing)
+            const result = await agent.purchaseAsset(network, account, listing.id)
+            assert.equal(result.purchase.status, 'paid')
+            assert.equal((await agent.getPurchase(result.purchase.id)).listingid, listing.id)
+            assert((<DataAsset>result.asset).data.equals(data))
+        })
+        it('should not add a purchase without a payment', async () => {
+            const agent = LocalAgent.create()
+            agent.network = createPaymentNetwork()
+            const asset = await agent.registerAsset(DataAsset.create('testAsset', Buffer.from('data')))
+            const listing = await agent.publishListing(
+                await agent.createListing({ price: 5, paymentAddress: paymentAddress }, asset.did)
+            )
+            const proof = createPurchaseProof(listing, account)
+            await assert.isRejected(agent.addPurchase(proof), /Unable to verify the purchase payment/)
+        })
+        it('should not add a purchase with a proof that has been used before', async () => {
+            const network = createPaymentNetwork()
+            const agent = LocalAgent.create()
+            agent.network = network
+            const asset = await agent.registerAsset(DataAsset.create('testAsset', Buffer.from('data')))
+            const listing = await agent.publishListing(
+                await agent.createListing({ price: 5, paymentAddress: paymentAddress }, asset.did)
+            )
+            const result = await agent.purchaseAsset(network, account, listing)
+            await assert.isRejected(agent.addPurchase(result.purchase.info), /has already been used/)
+            const otherSenderProof = await signPurchaseProof(
+                { ...result.purchase.info, fromAddress: otherAccount.address },
+                otherAccount,
+                result.purchase.info.txHash
+            )
+            await assert.isRejected(agent.addPurchase(otherSenderProof), /has already been used/)
+        })
+    })
+})
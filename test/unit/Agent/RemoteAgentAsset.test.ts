@@ -0,0 +1,237 @@
+/*
+ *
+ *     Test RemoteAgent assets
+ *
+ *
+ */
+
+import { assert } from 'chai'
+import fs from 'fs-extra'
+import os from 'os'
+import { join as pathJoin } from 'path'
+import fetch from 'node-fetch'
+import { randomHex, hexToBytes } from 'web3-utils'
+
+import { AgentServer } from 'starfish/Server/AgentServer'
+import { RemoteAgent } from 'starfish/Agent/RemoteAgent'
+import { HTTPTransport } from 'starfish/Middleware/HTTPTransport'
+import { AssetBase, DataAsset, MetadataValidationError, OperationAsset } from 'starfish/Asset/Asset'
+import { BundleAsset } from 'starfish/Asset/BundleAsset'
+import { createTestAgentServer, testAgentAuthentication } from 'test/TestSetup'
+
+describe('RemoteAgent assets', () => {
+    let server: AgentServer
+    let url: string
+    before(async () => {
+        server = createTestAgentServer()
+        url = await server.start()
+    })
+    after(async () => {
+        await server.stop()
+    })
+
+    describe('data assets', () => {
+        let agent: RemoteAgent
+        before(async () => {
+            agent = await RemoteAgent.createFromAddress(url, null, testAgentAuthentication)
+        })
+        it('should register, upload and download a data asset', async () => {
+            const data = Buffer.from(hexToBytes(randomHex(1024)))
+            const asset = DataAsset.create('testAsset', data)
+            const registerAsset = <DataAsset>await agent.registerAsset(asset)
+            assert.equal(registerAsset.getAssetId(), asset.calculateAssetId())
+            const readAsset = await agent.getAsset(registerAsset.did)
+            assert.equal(readAsset.metadataText, asset.metadataText)
+            assert(await agent.uploadAsset(registerAsset))
+            const downloadAsset = await agent.downloadAsset(registerAsset.did)
+            assert(downloadAsset.data.equals(data))
+        })
+        it('should get assets as the class of the metadata type', async () => {
+            const dataAsset = await agent.registerAsset(DataAsset.create('testAsset', Buffer.from('data')))
+            assert.instanceOf(await agent.getAsset(dataAsset.did), DataAsset)
+            const bundle = await agent.registerAsset(
+                BundleAsset.create('testBundle', { data: { assetID: dataAsset.getAssetId() } })
+            )
+            const readBundle = await agent.getAsset(bundle.did)
+            assert.instanceOf(readBundle, BundleAsset)
+            assert.equal((<BundleAsset>readBundle).getAsset('data'), dataAsset.getAssetId())
+            let message
+            try {
+                await agent.downloadAsset(bundle.did)
+            } catch (error) {
+                message = error.message
+            }
+            assert.match(message, /is not a data asset/)
+        })
+        it('should stream data asset data to and from a file', async () => {
+            const data = Buffer.from(hexToBytes(randomHex(4096)))
+            const filename = '/tmp/testAgentServerUpload.dat'
+            const downloadFilename = '/tmp/testAgentServerDownload.dat'
+            await fs.writeFile(filename, data)
+            const asset = await DataAsset.createFromFileStream('testAsset', filename)
+            await agent.registerAsset(asset)
+            assert(await agent.uploadAsset(asset))
+            const downloadAsset = await agent.downloadAsset(asset.did, downloadFilename)
+            assert.isUndefined(downloadAsset.data)
+            assert((await fs.readFile(downloadFilename)).equals(data))
+            await fs.remove(filename)
+            await fs.remove(downloadFilename)
+        })
+        it('should upload a data asset in chunks with progress', async () => {
+            const data = Buffer.from(hexToBytes(randomHex(4000)))
+            const asset = DataAsset.create('testAsset', data)
+            await agent.registerAsset(asset)
+            const progressList = []
+            assert(await agent.uploadAsset(asset, { chunkSize: 1024, onProgress: (progress) => progressList.push(progress) }))
+            assert.equal(progressList.length, 4)
+            assert.equal(progressList[3].bytesSent, data.length)
+            assert.equal(progressList[3].chunkCount, 4)
+            const downloadAsset = await agent.downloadAsset(asset.did)
+            assert(downloadAsset.data.equals(data))
+        })
+        it('should resume an interrupted chunked upload', async () => {
+            const data = Buffer.from(hexToBytes(randomHex(4000)))
+            const filename = '/tmp/testAgentServerChunkUpload.dat'
+            const stateFilename = `${filename}.upload.json`
+            await fs.writeFile(filename, data)
+            const asset = await DataAsset.createFromFileStream('testAsset', filename)
+            await agent.registerAsset(asset)
+            let message
+            try {
+                await agent.uploadAsset(asset, {
+                    chunkSize: 1024,
+                    onProgress: (progress) => {
+                        if (progress.chunkIndex == 1) {
+                            throw new Error('upload interrupted')
+                        }
+                    },
+                })
+            } catch (error) {
+                message = error.message
+            }
+            assert.equal(message, 'upload interrupted')
+            assert(await fs.pathExists(stateFilename))
+            const transport = new HTTPTransport()
+            let chunkRequestCount = 0
+            transport.addRequestInterceptor((requestURL, options) => {
+                if (options.method == 'PUT') {
+                    chunkRequestCount++
+                }
+                return options
+            })
+            const resumeAgent = new RemoteAgent(agent.ddo, testAgentAuthentication, { transport: transport })
+            assert(await resumeAgent.uploadAsset(asset, { chunkSize: 1024 }))
+            assert.equal(chunkRequestCount, 2)
+            assert.isFalse(await fs.pathExists(stateFilename))
+            const downloadAsset = await agent.downloadAsset(asset.did)
+            assert(downloadAsset.data.equals(data))
+            await fs.remove(filename)
+        })
+    })
+
+    describe('asset search', () => {
+        let searchServer: AgentServer
+        let agent: RemoteAgent
+        before(async () => {
+            searchServer = new AgentServer()
+            agent = await RemoteAgent.createFromAddress(await searchServer.start(), null)
+            for (let index = 0; index < 5; index++) {
+                const metadata = { tags: [index % 2 ? 'odd' : 'even'], dateCreated: `2020-01-0${index + 1}T00:00:00Z` }
+                await agent.registerAsset(DataAsset.create(`testAsset${index}`, Buffer.from(`data ${index}`), metadata))
+            }
+            await agent.registerAsset(OperationAsset.create('testOperation'))
+        })
+        after(async () => {
+            await searchServer.stop()
+        })
+        it('should list a page of typed assets', async () => {
+            const assetList = await agent.listAssets(0, 4)
+            assert.equal(assetList.length, 4)
+            assert.instanceOf(assetList[0], DataAsset)
+            assert.equal((await agent.listAssets()).length, 6)
+        })
+        it('should search assets by type, tags and date range', async () => {
+            const operationList = await agent.searchAssets({ type: 'operation' })
+            assert.equal(operationList.length, 1)
+            assert.instanceOf(operationList[0], OperationAsset)
+            const oddList = await agent.searchAssets({ tags: ['odd'] })
+            assert.equal(oddList.length, 2)
+            const dateList = await agent.searchAssets({ dateFrom: '2020-01-02', dateTo: '2020-01-03T12:00:00Z' })
+            assert.deepEqual(
+                dateList.map((asset) => asset.metadata.name),
+                ['testAsset1', 'testAsset2']
+            )
+        })
+        it('should page the assets for an agent that does not support paging', async () => {
+            const transport = new HTTPTransport()
+            transport.addResponseInterceptor((response, requestURL) => {
+                // return all of the assets, as an agent that does not support paging
+                if (/\/meta\/index\?/.test(requestURL)) {
+                    const indexURL = new URL(requestURL)
+                    indexURL.searchParams.delete('from')
+                    indexURL.searchParams.delete('size')
+                    return fetch(indexURL.toString())
+                }
+                return response
+            })
+            const noPagingAgent = new RemoteAgent(agent.ddo, null, { transport: transport })
+            assert.equal((await noPagingAgent.listAssets(100, 100)).length, 0)
+            assert.equal((await noPagingAgent.listAssets(0, 4)).length, 4)
+            assert.deepEqual(
+                (await noPagingAgent.listAssets(4, 4)).map((asset) => asset.getAssetId()),
+                (await agent.listAssets(4, 4)).map((asset) => asset.getAssetId())
+            )
+            assert.equal((await agent.listAssets(4, 4)).length, 2)
+        })
+        it('should iterate over all of the assets a page at a time', async () => {
+            const nameList = []
+            for await (const asset of agent.iterateAssets({ type: 'dataset' }, 2)) {
+                nameList.push(asset.metadata.name)
+            }
+            assert.equal(nameList.length, 5)
+        })
+    })
+
+    describe('search results', () => {
+        it('should return the registered metadata text and check the assets', async () => {
+            const agent = await RemoteAgent.createFromAddress(url, null, testAgentAuthentication)
+            const metadataText = JSON.stringify({ type: 'dataset', name: 'searchText', tags: ['search-text'] }, null, 2)
+            const asset = await agent.registerAsset(new AssetBase(metadataText))
+            const assetList = await agent.searchAssets({ tags: ['search-text'] })
+            assert.equal(assetList.length, 1)
+            assert.equal(assetList[0].metadataText, metadataText)
+            assert.equal(assetList[0].calculateAssetId(), asset.getAssetId())
+            await agent.registerAsset(new AssetBase(JSON.stringify({ name: 'invalid', type: 'data', tags: ['search-text'] })))
+            assert.equal((await agent.searchAssets({ tags: ['search-text'] })).length, 2)
+            const validateAgent = new RemoteAgent(agent.ddo, testAgentAuthentication, { validateMetadata: true })
+            let error
+            try {
+                await validateAgent.searchAssets({ tags: ['search-text'] })
+            } catch (checkError) {
+                error = checkError
+            }
+            assert.instanceOf(error, MetadataValidationError)
+        })
+    })
+
+    describe('bundles', () => {
+        it('should register a bundle tree and download it to a directory', async () => {
+            const agent = await RemoteAgent.createFromAddress(url, null, testAgentAuthentication)
+            const dataBundle = BundleAsset.create('data')
+            dataBundle.setMemberAsset('part1.csv', DataAsset.create('part1.csv', Buffer.from('a,b\n1,2\n')))
+            const bundle = BundleAsset.create('release')
+            bundle.setMemberAsset('readme.txt', DataAsset.create('readme.txt', Buffer.from('release notes')))
+            bundle.setMemberAsset('data', dataBundle)
+            const registeredBundle = await agent.registerBundle(bundle)
+            assert(registeredBundle.did)
+            const path = await fs.mkdtemp(pathJoin(os.tmpdir(), 'bundle-'))
+            try {
+                await agent.downloadBundle(registeredBundle.did, path)
+                assert.equal(await fs.readFile(pathJoin(path, 'readme.txt'), 'utf-8'), 'release notes')
+                assert.equal(await fs.readFile(pathJoin(path, 'data', 'part1.csv'), 'utf-8'), 'a,b\n1,2\n')
+            } finally {
+                await fs.remove(path)
+            }
+        })
+    })
+})
@@ -0,0 +1,195 @@
+/*
+ *
+ *     Test RemoteAgent cache
+ *
+ *
+ */
+
+import { assert } from 'chai'
+import fs from 'fs-extra'
+import os from 'os'
+import { join as pathJoin } from 'path'
+import { randomHex } from 'web3-utils'
+
+import { AgentServer } from 'starfish/Server/AgentServer'
+import { RemoteAgent } from 'starfish/Agent/RemoteAgent'
+import { HTTPTransport } from 'starfish/Middleware/HTTPTransport'
+import { AssetIntegrityError, DataAsset } from 'starfish/Asset/Asset'
+import { Account } from 'starfish/Account'
+import { createTestAgentServer, testAgentAuthentication } from 'test/TestSetup'
+
+describe('RemoteAgent cache', () => {
+    let server: AgentServer
+    let url: string
+    before(async () => {
+        server = createTestAgentServer()
+        url = await server.start()
+    })
+    after(async () => {
+        await server.stop()
+    })
+
+    describe('cached assets', () => {
+        let path: string
+        let requestURLList: Array<string>
+        let transport: HTTPTransport
+        before(() => {
+            path = pathJoin(os.tmpdir(), `asset-cache-${randomHex(8)}`)
+            transport = new HTTPTransport()
+            transport.addRequestInterceptor((requestURL, options) => {
+                requestURLList.push(requestURL)
+                return options
+            })
+        })
+        beforeEach(() => {
+            requestURLList = []
+        })
+        after(async () => {
+            await fs.remove(path)
+        })
+        it('should read the asset metadata and data from the cache', async () => {
+            const agent = await RemoteAgent.createFromAddress(url, null, testAgentAuthentication, {
+                transport: transport,
+                cache: { path: path },
+            })
+            const asset = await agent.registerAsset(DataAsset.create('testAsset', Buffer.from('cached data')))
+            await agent.uploadAsset(<DataAsset>asset)
+            assert.equal((await agent.downloadAsset(asset.did)).data.toString(), 'cached data')
+            requestURLList = []
+            const otherAgent = new RemoteAgent(agent.ddo, testAgentAuthentication, { transport: transport, cache: { path: path } })
+            assert.equal((await otherAgent.getAsset(asset.did)).getAssetId(), asset.getAssetId())
+            assert.equal((await otherAgent.downloadAsset(asset.did)).data.toString(), 'cached data')
+            const stream = await otherAgent.downloadAssetStream(asset.did)
+            const chunkList = []
+            for await (const chunk of stream) {
+                chunkList.push(chunk)
+            }
+            assert.equal(Buffer.concat(chunkList).toString(), 'cached data')
+            const filename = pathJoin(os.tmpdir(), `cached-${randomHex(8)}.dat`)
+            const fileAsset = await otherAgent.downloadAsset(asset.did, filename)
+            assert.equal(fileAsset.dataFilename, filename)
+            assert.isUndefined(fileAsset.data)
+            assert.equal((await fs.readFile(filename)).toString(), 'cached data')
+            await fs.remove(filename)
+            assert.deepEqual(
+                requestURLList.filter((requestURL) => requestURL.includes(asset.getAssetId())),
+                []
+            )
+        })
+        it('should download the asset again if the cached data has been changed', async () => {
+            const agent = await RemoteAgent.createFromAddress(url, null, testAgentAuthentication, {
+                transport: transport,
+                cache: { path: path },
+            })
+            const asset = await agent.registerAsset(DataAsset.create('testAsset', Buffer.from('cached data')))
+            await agent.uploadAsset(<DataAsset>asset)
+            await agent.downloadAsset(asset.did)
+            await fs.writeFile(pathJoin(path, `${asset.getAssetId()}.data`), 'tampered data')
+            requestURLList = []
+            assert.equal((await agent.downloadAsset(asset.did)).data.toString(), 'cached data')
+            assert(requestURLList.some((requestURL) => /\/assets\/[0-9a-f]+$/.test(requestURL)))
+            assert.equal((await fs.readFile(pathJoin(path, `${asset.getAssetId()}.data`))).toString(), 'cached data')
+        })
+        it('should save the data downloaded to a file or as a stream in the cache', async () => {
+            const agent = await RemoteAgent.createFromAddress(url, null, testAgentAuthentication, { transport: transport })
+            const asset = await agent.registerAsset(DataAsset.create('testAsset', Buffer.from('streamed data')))
+            await agent.uploadAsset(<DataAsset>asset)
+            const cacheAgent = new RemoteAgent(agent.ddo, testAgentAuthentication, { transport: transport, cache: { path: path } })
+            const filename = pathJoin(os.tmpdir(), `cached-${randomHex(8)}.dat`)
+            await cacheAgent.downloadAsset(asset.did, filename)
+            assert.equal((await fs.readFile(filename)).toString(), 'streamed data')
+            await fs.remove(filename)
+            assert.equal((await fs.readFile(pathJoin(path, `${asset.getAssetId()}.data`))).toString(), 'streamed data')
+
+            const otherAsset = await agent.registerAsset(DataAsset.create('testAsset', Buffer.from('other streamed data')))
+            await agent.uploadAsset(<DataAsset>otherAsset)
+            const chunkList = []
+            for await (const chunk of await cacheAgent.downloadAssetStream(otherAsset.did)) {
+                chunkList.push(chunk)
+            }
+            assert.equal(Buffer.concat(chunkList).toString(), 'other streamed data')
+            assert.equal((await fs.readFile(pathJoin(path, `${otherAsset.getAssetId()}.data`))).toString(), 'other streamed data')
+        })
+        it('should not use changed cached data for a file or stream download', async () => {
+            const agent = await RemoteAgent.createFromAddress(url, null, testAgentAuthentication, {
+                transport: transport,
+                cache: { path: path },
+            })
+            const asset = await agent.registerAsset(DataAsset.create('testAsset', Buffer.from('cached data')))
+            await agent.uploadAsset(<DataAsset>asset)
+            await agent.downloadAsset(asset.did)
+            const cacheFilename = pathJoin(path, `${asset.getAssetId()}.data`)
+            await fs.writeFile(cacheFilename, 'tampered data')
+            requestURLList = []
+            const filename = pathJoin(os.tmpdir(), `cached-${randomHex(8)}.dat`)
+            await agent.downloadAsset(asset.did, filename)
+            assert.equal((await fs.readFile(filename)).toString(), 'cached data')
+            await fs.remove(filename)
+            assert(requestURLList.some((requestURL) => /\/assets\/[0-9a-f]+$/.test(requestURL)))
+            assert.equal((await fs.readFile(cacheFilename)).toString(), 'cached data')
+
+            await fs.writeFile(cacheFilename, 'tampered data')
+            const stream = await agent.downloadAssetStream(asset.did)
+            let streamError
+            try {
+                for await (const chunk of stream) {
+                    assert(chunk)
+                }
+            } catch (error) {
+                streamError = error
+            }
+            assert.instanceOf(streamError, AssetIntegrityError)
+            await new Promise((resolve) => setTimeout(resolve, 100))
+            assert.isFalse(await fs.pathExists(cacheFilename))
+        })
+        it('should stream the encrypted data from the cache for a recipient', async () => {
+            const agent = await RemoteAgent.createFromAddress(url, null, testAgentAuthentication, {
+                transport: transport,
+                cache: { path: path },
+            })
+            const recipient = Account.createNew('password')
+            const data = Buffer.from('name,value\n'.repeat(100))
+            const encryptedAsset = await DataAsset.createEncrypted(DataAsset.create('testAsset', data, { compression: 'gzip' }), [
+                recipient,
+            ])
+            const asset = <DataAsset>await agent.registerAsset(encryptedAsset)
+            await agent.uploadAsset(asset)
+            const filename = pathJoin(os.tmpdir(), `cached-${randomHex(8)}.csv`)
+            await agent.downloadAsset(asset.did, filename, recipient)
+            const storedData = await fs.readFile(pathJoin(path, `${asset.getAssetId()}.data`))
+            assert.equal(storedData.indexOf('name,value'), -1)
+            requestURLList = []
+            await fs.remove(filename)
+            await agent.downloadAsset(asset.did, filename, recipient)
+            assert((await fs.readFile(filename)).equals(data))
+            await fs.remove(filename)
+            assert.deepEqual(
+                requestURLList.filter((requestURL) => requestURL.includes(asset.getAssetId())),
+                []
+            )
+        })
+        it('should go to the agent for an assetId that the cache cannot hold', async () => {
+            const agent = await RemoteAgent.createFromAddress(url, null, testAgentAuthentication, {
+                transport: transport,
+                cache: { path: path },
+            })
+            const uncachedAgent = new RemoteAgent(agent.ddo, testAgentAuthentication, { transport: transport })
+            for (const assetId of [randomHex(32), 'abc']) {
+                let result
+                let uncachedResult
+                try {
+                    result = await agent.getAsset(assetId)
+                } catch (error) {
+                    result = error.message
+                }
+                try {
+                    uncachedResult = await uncachedAgent.getAsset(assetId)
+                } catch (error) {
+                    uncachedResult = error.message
+                }
+                assert.deepEqual(result, uncachedResult)
+                assert.notMatch(String(result), /FileAssetCache/)
+            }
+        })
+    })
+})
@@ -0,0 +1,75 @@
+/*
+ *
+ *     Test RemoteAgent compression
+ *
+ *
+ */
+
+import { assert } from 'chai'
+import fs from 'fs-extra'
+import os from 'os'
+import { join as pathJoin } from 'path'
+import { randomHex } from 'web3-utils'
+
+import { AgentServer } from 'starfish/Server/AgentServer'
+import { RemoteAgent } from 'starfish/Agent/RemoteAgent'
+import { DataAsset } from 'starfish/Asset/Asset'
+import { createTestAgentServer, testAgentAuthentication } from 'test/TestSetup'
+
+describe('RemoteAgent compression', () => {
+    let server: AgentServer
+    let url: string
+    before(async () => {
+        server = createTestAgentServer()
+        url = await server.start()
+    })
+    after(async () => {
+        await server.stop()
+    })
+
+    describe('compressed assets', () => {
+        let agent: RemoteAgent
+        const data = Buffer.from('name,value\n'.repeat(10000))
+        before(async () => {
+            agent = await RemoteAgent.createFromAddress(url, null, testAgentAuthentication)
+        })
+        it('should upload compressed data and download the raw data', async () => {
+            const asset = <DataAsset>await agent.registerAsset(DataAsset.create('testAsset', data, { compression: 'brotli' }))
+            await agent.uploadAsset(asset)
+            assert.isBelow((await server.agent.downloadAssetData(asset.did)).length, data.length / 10)
+            const downloadAsset = await agent.downloadAsset(asset.did)
+            assert.equal(downloadAsset.metadata.compression, 'brotli')
+            assert(downloadAsset.data.equals(data))
+            const filename = pathJoin(os.tmpdir(), `compressed-${randomHex(8)}.csv`)
+            await agent.downloadAsset(asset.did, filename)
+            assert((await fs.readFile(filename)).equals(data))
+            await fs.remove(filename)
+        })
+        it('should upload compressed data in chunks and download it as a stream', async () => {
+            const asset = <DataAsset>await agent.registerAsset(DataAsset.create('testAsset', data, { compression: 'gzip' }))
+            await agent.uploadAsset(asset, { chunkSize: 100 })
+            const chunks = []
+            const stream = await agent.downloadAssetStream(asset.did)
+            stream.on('data', (chunk) => chunks.push(chunk))
+            await new Promise((resolve, reject) => {
+                stream.on('end', resolve)
+                stream.on('error', reject)
+            })
+            assert(Buffer.concat(chunks).equals(data))
+        })
+        it('should compress the data of a file asset as it is uploaded', async () => {
+            const filename = pathJoin(os.tmpdir(), `upload-${randomHex(8)}.csv`)
+            await fs.writeFile(filename, data)
+            for (const options of [undefined, { chunkSize: 1000 }]) {
+                const fileAsset = await DataAsset.createFromFileStream('testAsset', filename, { compression: 'deflate' })
+                const asset = <DataAsset>await agent.registerAsset(fileAsset)
+                await agent.uploadAsset(asset, options)
+                assert.isUndefined(asset.data)
+                const storedData = await server.agent.downloadAssetData(asset.did)
+                assert.equal(await asset.getStoredDataSize(), storedData.length)
+                assert((await agent.downloadAsset(asset.did)).data.equals(data))
+            }
+            await fs.remove(filename)
+        })
+    })
+})
@@ -0,0 +1,149 @@
+/*
+ *
+ *     Test RemoteAgent connection, capabilities and authentication
+ *
+ *
+ */
+
+import { assert } from 'chai'
+import { randomHex } from 'web3-utils'
+
+import { AgentServer } from 'starfish/Server/AgentServer'
+import { RemoteAgent } from 'starfish/Agent/RemoteAgent'
+import { HTTPTransport } from 'starfish/Middleware/HTTPTransport'
+import { DataAsset } from 'starfish/Asset/Asset'
+import { DDO } from 'starfish/DDO/DDO'
+import { createTestAgentServer, testAgentAuthentication } from 'test/TestSetup'
+
+describe('RemoteAgent connection', () => {
+    let server: AgentServer
+    let url: string
+    before(async () => {
+        server = createTestAgentServer()
+        url = await server.start()
+    })
+    after(async () => {
+        await server.stop()
+    })
+
+    describe('access', () => {
+        let agent: RemoteAgent
+        before(async () => {
+            agent = await RemoteAgent.createFromAddress(url, null, testAgentAuthentication)
+        })
+        it('should resolve the agent DDO from the server url', async () => {
+            assert(agent)
+            assert.equal(agent.ddo.id, server.getDDO().id)
+        })
+        it('should not allow access with an invalid password', async () => {
+            const invalidAgent = new RemoteAgent(agent.ddo, { username: testAgentAuthentication.username, password: 'bad' })
+            let message
+            try {
+                await invalidAgent.getAsset(randomHex(32))
+            } catch (error) {
+                message = error.message
+            }
+            assert.match(message, /Unable to get access token/)
+        })
+    })
+
+    describe('capabilities', () => {
+        it('should probe all of the services in the agent DDO', async () => {
+            const agent = await RemoteAgent.createFromAddress(url, null, testAgentAuthentication)
+            const capabilities = await agent.probe()
+            assert(capabilities.isHealthy)
+            assert.equal(capabilities.did, agent.ddo.id)
+            assert.equal(Object.keys(capabilities.services).length, 6)
+            for (const name in capabilities.services) {
+                assert(capabilities.services[name].reachable)
+                assert.isAtLeast(capabilities.services[name].latency, 0)
+                assert.deepEqual(capabilities.services[name].versions, ['v1'])
+                assert.equal(capabilities.services[name].version, 'v1')
+            }
+            assert.strictEqual(await agent.getCapabilities(), capabilities)
+            assert.notStrictEqual(await agent.getCapabilities(true), capabilities)
+        })
+        it('should select the mutually supported version for a service', async () => {
+            const ddo = DDO.createFromServiceList(url, ['meta'])
+            ddo.service[0].type = 'DEP.Meta.v2'
+            const agent = new RemoteAgent(ddo, testAgentAuthentication)
+            const capabilities = await agent.probe()
+            assert.equal(capabilities.services['meta'].version, 'v1')
+            assert.equal(agent.ddo.findService('meta').type, 'DEP.Meta.v1')
+        })
+        it('should report services that are not reachable or not supported', async () => {
+            const ddo = DDO.createFromServiceList('http://localhost:1', ['meta'])
+            ddo.addService('storage', url, 'v9')
+            const agent = new RemoteAgent(ddo, testAgentAuthentication)
+            const capabilities = await agent.probe()
+            assert.isFalse(capabilities.isHealthy)
+            assert.isFalse(capabilities.services['meta'].reachable)
+            assert(capabilities.services['meta'].error)
+            assert(capabilities.services['storage'].reachable)
+            assert.isNull(capabilities.services['storage'].version)
+            assert.match(capabilities.services['storage'].error, /No supported API version/)
+        })
+    })
+
+    describe('transport', () => {
+        it('should use the transport set in the agent options', async () => {
+            const transport = new HTTPTransport({ timeout: 5000, retries: 2 })
+            let requestCount = 0
+            transport.addRequestInterceptor((requestURL, options) => {
+                requestCount++
+                return options
+            })
+            const agent = await RemoteAgent.createFromAddress(url, null, testAgentAuthentication, { transport: transport })
+            await agent.registerAsset(DataAsset.create('testAsset', Buffer.from('test data')))
+            assert(requestCount >= 3)
+        })
+    })
+
+    describe('authentication', () => {
+        let agent: RemoteAgent
+        before(async () => {
+            agent = await RemoteAgent.createFromAddress(url, null, testAgentAuthentication)
+        })
+        it('should list and revoke access tokens', async () => {
+            await agent.getAsset(randomHex(32)).catch(() => null)
+            const tokenList = await agent.getAuthorizationTokenList()
+            assert(tokenList.length > 0)
+            assert(await agent.revokeAuthorizationToken(tokenList[0]))
+            const newTokenList = await agent.getAuthorizationTokenList()
+            assert.notInclude(newTokenList, tokenList[0])
+        })
+        it('should retry with a new token after a token has been revoked', async () => {
+            const asset = await agent.registerAsset(DataAsset.create('testAsset', Buffer.from('test data')))
+            const otherAgent = new RemoteAgent(agent.ddo, testAgentAuthentication)
+            for (const token of await otherAgent.getAuthorizationTokenList()) {
+                await otherAgent.revokeAuthorizationToken(token)
+            }
+            const readAsset = await agent.getAsset(asset.did)
+            assert.equal(readAsset.metadataText, asset.metadataText)
+            assert.equal((await agent.getAuthorizationTokenList()).length, 1)
+        })
+        it('should not manage access tokens without a username', async () => {
+            const otherAgent = new RemoteAgent(agent.ddo)
+            for (const call of [() => otherAgent.getAuthorizationTokenList(), () => otherAgent.revokeAuthorizationToken('token')]) {
+                let message
+                try {
+                    await call()
+                } catch (error) {
+                    message = error.message
+                }
+                assert.match(message, /A username and password are needed/)
+            }
+        })
+        it('should clear the cached token when the authentication is changed', async () => {
+            agent.setAuthentication({ username: testAgentAuthentication.username, password: 'bad' })
+            let message
+            try {
+                await agent.getAsset(randomHex(32))
+            } catch (error) {
+                message = error.message
+            }
+            assert.match(message, /Unable to get access token/)
+            agent.setAuthentication(testAgentAuthentication)
+        })
+    })
+})
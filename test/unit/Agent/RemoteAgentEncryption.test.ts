@@ -0,0 +1,85 @@
+/*
+ *
+ *     Test RemoteAgent encryption
+ *
+ *
+ */
+
+import { assert } from 'chai'
+import fs from 'fs-extra'
+import os from 'os'
+import { join as pathJoin } from 'path'
+import { randomHex } from 'web3-utils'
+
+import { AgentServer } from 'starfish/Server/AgentServer'
+import { RemoteAgent } from 'starfish/Agent/RemoteAgent'
+import { DataAsset } from 'starfish/Asset/Asset'
+import { Account } from 'starfish/Account'
+import { calculateAssetDataHash } from 'starfish/Crypto'
+import { createTestAgentServer, testAgentAuthentication } from 'test/TestSetup'
+
+describe('RemoteAgent encryption', () => {
+    let server: AgentServer
+    let url: string
+    before(async () => {
+        server = createTestAgentServer()
+        url = await server.start()
+    })
+    after(async () => {
+        await server.stop()
+    })
+
+    describe('encrypted assets', () => {
+        let agent: RemoteAgent
+        let recipient: Account
+        let asset: DataAsset
+        const data = Buffer.from('name,value\n'.repeat(1000))
+        before(async () => {
+            agent = await RemoteAgent.createFromAddress(url, null, testAgentAuthentication)
+            recipient = Account.createNew('password')
+            const encryptedAsset = await DataAsset.createEncrypted(DataAsset.create('testAsset', data, { compression: 'gzip' }), [
+                recipient,
+            ])
+            asset = <DataAsset>await agent.registerAsset(encryptedAsset)
+            await agent.uploadAsset(asset)
+        })
+        it('should store the encrypted data and decrypt it on download for a recipient', async () => {
+            const storedData = await server.agent.downloadAssetData(asset.did)
+            assert(storedData.equals(await asset.getStoredData()))
+            assert.equal(storedData.indexOf('name,value'), -1)
+            assert.equal(calculateAssetDataHash(storedData), asset.metadata.contentHash)
+            const downloadAsset = await agent.downloadAsset(asset.did, null, recipient)
+            assert(downloadAsset.data.equals(data))
+            const filename = pathJoin(os.tmpdir(), `encrypted-${randomHex(8)}.csv`)
+            await agent.downloadAsset(asset.did, filename, recipient)
+            assert((await fs.readFile(filename)).equals(data))
+            await fs.remove(filename)
+        })
+        it('should encrypt the data of a file asset as it is uploaded in chunks', async () => {
+            const filename = pathJoin(os.tmpdir(), `upload-${randomHex(8)}.csv`)
+            await fs.writeFile(filename, data)
+            const fileAsset = await DataAsset.createFromFileStream('testAsset', filename, { compression: 'gzip' })
+            const encryptedAsset = <DataAsset>await agent.registerAsset(await DataAsset.createEncrypted(fileAsset, [recipient]))
+            await agent.uploadAsset(encryptedAsset, { chunkSize: 100 })
+            assert.isUndefined(encryptedAsset.data)
+            const storedData = await server.agent.downloadAssetData(encryptedAsset.did)
+            assert.equal(storedData.indexOf('name,value'), -1)
+            assert((await agent.downloadAsset(encryptedAsset.did, null, recipient)).data.equals(data))
+            await fs.remove(filename)
+        })
+        it('should not download the data without a recipient account', async () => {
+            try {
+                await agent.downloadAsset(asset.did)
+                assert.fail('should not download the data')
+            } catch (error) {
+                assert.match(error.message, /an account of a recipient is needed/)
+            }
+            try {
+                await agent.downloadAssetStream(asset.did, Account.createNew('password'))
+                assert.fail('should not download the data')
+            } catch (error) {
+                assert.match(error.message, /an account of a recipient is needed/)
+            }
+        })
+    })
+})
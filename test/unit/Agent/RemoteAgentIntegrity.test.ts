@@ -0,0 +1,119 @@
+/*
+ *
+ *     Test RemoteAgent integrity
+ *
+ *
+ */
+
+import { assert } from 'chai'
+import fs from 'fs-extra'
+import os from 'os'
+import { join as pathJoin } from 'path'
+import { PassThrough } from 'stream'
+import { randomHex } from 'web3-utils'
+import { Response } from 'node-fetch'
+
+import { AgentServer } from 'starfish/Server/AgentServer'
+import { RemoteAgent } from 'starfish/Agent/RemoteAgent'
+import { HTTPTransport } from 'starfish/Middleware/HTTPTransport'
+import { AssetBase, AssetIntegrityError, DataAsset, MetadataValidationError } from 'starfish/Asset/Asset'
+import { createTestAgentServer, testAgentAuthentication } from 'test/TestSetup'
+
+describe('RemoteAgent integrity', () => {
+    let server: AgentServer
+    let url: string
+    before(async () => {
+        server = createTestAgentServer()
+        url = await server.start()
+    })
+    after(async () => {
+        await server.stop()
+    })
+
+    describe('integrity checks', () => {
+        let tamperMetadata: boolean
+        let tamperData: boolean
+        let transport: HTTPTransport
+        let asset: DataAsset
+        before(async () => {
+            transport = new HTTPTransport()
+            transport.addResponseInterceptor((response, requestURL) => {
+                if (tamperMetadata && /\/meta\/data\/[0-9a-f]+$/.test(requestURL)) {
+                    return new Response(JSON.stringify({ name: 'tampered', type: 'dataset' }))
+                }
+                if (tamperData && /\/assets\/[0-9a-f]+$/.test(requestURL)) {
+                    const body = new PassThrough()
+                    body.end('tampered data')
+                    return new Response(body)
+                }
+                return response
+            })
+            const agent = await RemoteAgent.createFromAddress(url, null, testAgentAuthentication)
+            asset = <DataAsset>await agent.registerAsset(DataAsset.create('testAsset', Buffer.from('test data')))
+            await agent.uploadAsset(asset)
+        })
+        beforeEach(() => {
+            tamperMetadata = false
+            tamperData = false
+        })
+        it('should not get an asset with tampered metadata', async () => {
+            const agent = await RemoteAgent.createFromAddress(url, null, testAgentAuthentication, { transport: transport })
+            tamperMetadata = true
+            let error
+            try {
+                await agent.getAsset(asset.did)
+            } catch (checkError) {
+                error = checkError
+            }
+            assert.instanceOf(error, AssetIntegrityError)
+            assert.equal(error.field, 'assetId')
+        })
+        it('should not download tampered data', async () => {
+            const agent = await RemoteAgent.createFromAddress(url, null, testAgentAuthentication, { transport: transport })
+            tamperData = true
+            let error
+            try {
+                await agent.downloadAsset(asset.did)
+            } catch (checkError) {
+                error = checkError
+            }
+            assert.instanceOf(error, AssetIntegrityError)
+            assert.equal(error.field, 'contentHash')
+            const filename = pathJoin(os.tmpdir(), `tampered-${randomHex(8)}.dat`)
+            error = null
+            try {
+                await agent.downloadAsset(asset.did, filename)
+            } catch (checkError) {
+                error = checkError
+            }
+            assert.instanceOf(error, AssetIntegrityError)
+            assert.isFalse(await fs.pathExists(filename))
+        })
+        it('should allow tampered data if the integrity check is turned off', async () => {
+            const agent = await RemoteAgent.createFromAddress(url, null, testAgentAuthentication, {
+                transport: transport,
+                verifyIntegrity: false,
+            })
+            tamperData = true
+            const downloadAsset = await agent.downloadAsset(asset.did)
+            assert.equal(downloadAsset.data.toString(), 'tampered data')
+        })
+        it('should validate the metadata read from the agent if set in the agent options', async () => {
+            const agent = await RemoteAgent.createFromAddress(url, null, testAgentAuthentication)
+            const invalidAsset = await agent.registerAsset(new AssetBase(JSON.stringify({ name: 'invalid', type: 'data' })))
+            assert(await agent.getAsset(invalidAsset.did))
+            const validateAgent = await RemoteAgent.createFromAddress(url, null, testAgentAuthentication, {
+                validateMetadata: true,
+            })
+            assert(await validateAgent.getAsset(asset.did))
+            let error
+            try {
+                await validateAgent.getAsset(invalidAsset.did)
+            } catch (checkError) {
+                error = checkError
+            }
+            assert.instanceOf(error, MetadataValidationError)
+            assert.deepEqual(error.errors[0], { path: 'type', message: 'must be one of dataset, operation, bundle' })
+        })
+    })
+})
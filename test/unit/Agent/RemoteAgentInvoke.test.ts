@@ -0,0 +1,111 @@
+/*
+ *
+ *     Test RemoteAgent invoke
+ *
+ *
+ */
+
+import { assert } from 'chai'
+import { randomHex, hexToBytes } from 'web3-utils'
+
+import { AgentServer } from 'starfish/Server/AgentServer'
+import { RemoteAgent } from 'starfish/Agent/RemoteAgent'
+import { HTTPTransport } from 'starfish/Middleware/HTTPTransport'
+import { DataAsset, OperationAsset } from 'starfish/Asset/Asset'
+import { createTestAgentServer, testAgentAuthentication } from 'test/TestSetup'
+
+describe('RemoteAgent invoke', () => {
+    let server: AgentServer
+    let url: string
+    before(async () => {
+        server = createTestAgentServer()
+        url = await server.start()
+    })
+    after(async () => {
+        await server.stop()
+    })
+
+    describe('operations', () => {
+        let agent: RemoteAgent
+        before(async () => {
+            agent = await RemoteAgent.createFromAddress(url, null, testAgentAuthentication)
+        })
+        it('should invoke a sync and async operation', async () => {
+            const operation = await server.registerOperation(OperationAsset.create('Increment'), (inputs) => {
+                return { n: inputs['n'] + 1 }
+            })
+            const result = await agent.invoke(operation.getAssetId(), { n: 1 })
+            assert.equal(result['status'], 'succeeded')
+            assert.equal(result['outputs']['n'], 2)
+            const asyncResult = await agent.invoke(operation.getAssetId(), { n: 1 }, true)
+            assert(asyncResult['job-id'])
+            const job = await agent.getJob(asyncResult)
+            assert.equal(job['job-id'], asyncResult['job-id'])
+            const jobResult = await agent.waitForJob(asyncResult, { pollInterval: 10, timeout: 5000 })
+            assert.equal(jobResult.status, 'succeeded')
+        })
+        it('should resolve the asset outputs of an operation', async () => {
+            const data = Buffer.from(hexToBytes(randomHex(256)))
+            const operation = await server.registerOperation(
+                OperationAsset.create('Store', {
+                    operation: { inputs: {}, outputs: { result: { type: 'asset' } } },
+                }),
+                async () => {
+                    const asset = await server.agent.registerAsset(DataAsset.create('result', data))
+                    await server.agent.uploadAsset(<DataAsset>asset)
+                    return { result: asset.getAssetId() }
+                }
+            )
+            const result = await agent.invoke(operation.did, {}, false, { resolveAssets: true })
+            const asset = <DataAsset>result['outputs']['result']
+            assert.instanceOf(asset, DataAsset)
+            assert((await asset.getData()).equals(data))
+            const asyncResult = await agent.invoke(operation.did, {}, true)
+            await agent.waitForJob(asyncResult, { pollInterval: 10, timeout: 5000 })
+            const job = await agent.getJob(asyncResult, { resolveAssets: true })
+            assert.equal(typeof job['outputs']['result'], 'string')
+        })
+        it('should validate the invoke inputs before calling the agent', async () => {
+            const operation = await server.registerOperation(
+                OperationAsset.create('Square', {
+                    operation: { inputs: { n: { type: 'number', required: true } }, outputs: { n: { type: 'number' } } },
+                }),
+                (inputs) => {
+                    return { n: inputs['n'] * inputs['n'] }
+                }
+            )
+            const result = await agent.invoke(operation.did, { n: 3 }, false, { validate: true })
+            assert.equal(result['outputs']['n'], 9)
+            let message
+            try {
+                await agent.invoke(operation.did, {}, false, { validate: true })
+            } catch (error) {
+                message = error.message
+            }
+            assert.match(message, /n: is required/)
+            message = null
+            try {
+                await agent.invoke(<OperationAsset>await agent.getAsset(operation.did), {})
+            } catch (error) {
+                message = error.message
+            }
+            assert.match(message, /n: is required/)
+        })
+        it('should only read the operation from the agent when it is needed', async () => {
+            const operation = await server.registerOperation(OperationAsset.create('Double'), (inputs) => {
+                return { n: inputs['n'] * 2 }
+            })
+            const transport = new HTTPTransport()
+            const requestURLList = []
+            transport.addRequestInterceptor((requestURL, options) => {
+                requestURLList.push(requestURL)
+                return options
+            })
+            const otherAgent = new RemoteAgent(agent.ddo, testAgentAuthentication, { transport: transport })
+            assert.equal((await otherAgent.invoke(operation.did, { n: 2 }))['outputs']['n'], 4)
+            assert.isFalse(requestURLList.some((requestURL) => requestURL.includes('/meta/')))
+            await otherAgent.invoke(operation.did, { n: 2 }, false, { validate: true })
+            assert.isTrue(requestURLList.some((requestURL) => requestURL.includes('/meta/')))
+        })
+    })
+})
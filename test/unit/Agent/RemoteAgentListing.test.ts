@@ -0,0 +1,204 @@
+/*
+ *
+ *     Test RemoteAgent listings, purchases and trust
+ *
+ *
+ */
+
+import { assert } from 'chai'
+import { randomHex } from 'web3-utils'
+
+import { AgentServer } from 'starfish/Server/AgentServer'
+import { RemoteAgent } from 'starfish/Agent/RemoteAgent'
+import { DataAsset } from 'starfish/Asset/Asset'
+import { Account } from 'starfish/Account'
+import { Network } from 'starfish/Network'
+import { createTestAgentServer, testAgentAuthentication } from 'test/TestSetup'
+
+describe('RemoteAgent listings', () => {
+    let server: AgentServer
+    let url: string
+    before(async () => {
+        server = createTestAgentServer()
+        url = await server.start()
+    })
+    after(async () => {
+        await server.stop()
+    })
+
+    describe('listings', () => {
+        let agent: RemoteAgent
+        before(async () => {
+            agent = await RemoteAgent.createFromAddress(url, null, testAgentAuthentication)
+        })
+        it('should create, update, get and list listings', async () => {
+            const asset = await agent.registerAsset(DataAsset.create('testAsset', Buffer.from('test data')))
+            const listingSaved = await agent.createListing({ price: 100 }, asset.did)
+            assert.equal(listingSaved.userid, testAgentAuthentication.username)
+            assert.equal(listingSaved.status, 'unpublished')
+            listingSaved.status = 'published'
+            const listingUpdated = await agent.updateListing(listingSaved)
+            assert.equal(listingUpdated.status, 'published')
+            const listingRead = await agent.getListing(listingSaved.id)
+            assert.equal(listingRead.id, listingSaved.id)
+            const listingList = await agent.getListingList({ userid: testAgentAuthentication.username, size: 10 })
+            assert(listingList.find((item) => item.id == listingSaved.id))
+        })
+        it('should manage the listing lifecycle and history', async () => {
+            const asset = await agent.registerAsset(DataAsset.create('testAsset', Buffer.from('test data')))
+            const listingData = await agent.createListing({ price: 100 }, asset.did)
+            assert.equal((await agent.publishListing(listingData)).status, 'published')
+            assert.equal((await agent.unpublishListing(listingData)).status, 'unpublished')
+            listingData.status = 'sold'
+            let message
+            try {
+                await agent.updateListing(listingData)
+            } catch (error) {
+                message = error.message
+            }
+            assert.match(message, /Unable to change listing .* status from 'unpublished' to 'sold'/)
+            const historyList = await agent.getListingHistory(listingData.id)
+            assert.equal(historyList.length, 3)
+            assert(await agent.deleteListing(listingData.id))
+        })
+        it('should not make an illegal listing status change', async () => {
+            const asset = await agent.registerAsset(DataAsset.create('testAsset', Buffer.from('test data')))
+            const listingData = await agent.createListing({ price: 100 }, asset.did)
+            const archivedListingData = await agent.archiveListing(listingData)
+            archivedListingData.status = 'published'
+            let message
+            try {
+                await agent.updateListing(archivedListingData)
+            } catch (error) {
+                message = error.message
+            }
+            assert.match(message, /status from 'archived' to 'published'/)
+            assert.equal((await agent.getListing(listingData.id)).status, 'archived')
+            const historyList = await agent.getListingHistory(listingData.id)
+            assert.equal(historyList.length, 2)
+        })
+        it('should change the status of a listing without checking the saved listing info', async () => {
+            const asset = await agent.registerAsset(DataAsset.create('testAsset', Buffer.from('test data')))
+            const listingData = await agent.createListing({ price: 100 }, asset.did)
+            const savedListingData = await server.agent.storage.readListing(listingData.id)
+            savedListingData.info = { price: 'free' }
+            await server.agent.storage.saveListing(savedListingData)
+            assert.equal((await agent.publishListing(listingData.id)).status, 'published')
+            const listingRead = await agent.getListing(listingData.id)
+            listingRead.info = { price: -1 }
+            let message
+            try {
+                await agent.updateListing(listingRead)
+            } catch (error) {
+                message = error.message
+            }
+            assert.match(message, /Invalid listing info/)
+        })
+        it('should create and update a listing that has no price', async () => {
+            const asset = await agent.registerAsset(DataAsset.create('testAsset', Buffer.from('test data')))
+            const listingData = await agent.createListing({ title: 'no price' }, asset.did)
+            listingData.info = { title: 'still no price', description: 'updated listing' }
+            const listingUpdated = await agent.updateListing(listingData)
+            assert.deepEqual(listingUpdated.info, listingData.info)
+            assert.equal((await agent.publishListing(listingData.id)).status, 'published')
+        })
+    })
+
+    describe('purchases', () => {
+        it('should purchase a listed asset and send the payment proof to the agent', async () => {
+            const paymentList = []
+            const network = <Network>(<unknown>{
+                sendTokenWithLogReceipt: async (account, toAddress, amount, reference1) => {
+                    paymentList.push(reference1)
+                    return { status: true, transactionHash: reference1 }
+                },
+                getTokenEventLogs: async (fromAddress, toAddress, amount, reference1) => {
+                    return paymentList.filter((item) => item == reference1).map((item) => ({ transactionHash: item }))
+                },
+            })
+            const purchaseServer = new AgentServer({ network: network })
+            const agent = await RemoteAgent.createFromAddress(await purchaseServer.start(), null)
+            const data = Buffer.from('purchased data')
+            const asset = await agent.registerAsset(DataAsset.create('testAsset', data))
+            await agent.uploadAsset(<DataAsset>asset)
+            const listing = await agent.createListing({ price: 2, paymentAddress: randomHex(20) }, asset.did)
+            await agent.publishListing(listing)
+            const result = await agent.purchaseAsset(network, Account.createNew('password'), listing)
+            assert.equal(result.purchase.listingid, listing.id)
+            assert.equal((await agent.getPurchase(result.purchase.id)).status, 'paid')
+            assert((<DataAsset>result.asset).data.equals(data))
+            await purchaseServer.stop()
+        })
+        it('should purchase an encrypted asset and decrypt it with the buyer account', async () => {
+            const paymentList = []
+            const network = <Network>(<unknown>{
+                sendTokenWithLogReceipt: async (account, toAddress, amount, reference1) => {
+                    paymentList.push(reference1)
+                    return { status: true, transactionHash: reference1 }
+                },
+                getTokenEventLogs: async (fromAddress, toAddress, amount, reference1) => {
+                    return paymentList.filter((item) => item == reference1).map((item) => ({ transactionHash: item }))
+                },
+            })
+            const purchaseServer = createTestAgentServer({ network: network })
+            try {
+                const agent = await RemoteAgent.createFromAddress(await purchaseServer.start(), null, testAgentAuthentication)
+                const buyer = Account.createNew('password')
+                const data = Buffer.from('encrypted purchased data')
+                const encryptedAsset = await DataAsset.createEncrypted(DataAsset.create('testAsset', data), [buyer])
+                const asset = await agent.registerAsset(encryptedAsset)
+                await agent.uploadAsset(<DataAsset>asset)
+                const listing = await agent.createListing({ price: 2, paymentAddress: randomHex(20) }, asset.did)
+                await agent.publishListing(listing)
+                const result = await agent.purchaseAsset(network, buyer, listing)
+                assert.equal((await agent.getPurchase(result.purchase.id)).status, 'paid')
+                assert((<DataAsset>result.asset).data.equals(data))
+            } finally {
+                await purchaseServer.stop()
+            }
+        })
+    })
+
+    describe('trust', () => {
+        let agent: RemoteAgent
+        before(async () => {
+            agent = await RemoteAgent.createFromAddress(url, null, testAgentAuthentication)
+        })
+        it('should get the trust policy', async () => {
+            const policy = await agent.getTrustPolicy()
+            assert.equal(policy.minLevel, 0)
+            assert.equal(policy.maxLevel, 10)
+        })
+        it('should set and get the trust level of a user and an asset', async () => {
+            const userId = randomHex(16)
+            assert.equal((await agent.getUserTrustLevel(userId)).level, 0)
+            assert.equal((await agent.setUserTrustLevel(userId, 5)).level, 5)
+            assert.equal((await agent.getUserTrustLevel(userId)).level, 5)
+            const asset = await agent.registerAsset(DataAsset.create('testAsset', Buffer.from('trusted data')))
+            await agent.setAssetTrustLevel(asset.did, 7)
+            const trustLevel = await agent.getAssetTrustLevel(asset.did)
+            assert.equal(trustLevel.subject, asset.getAssetId())
+            assert.equal(trustLevel.level, 7)
+        })
+        it('should not set a trust level outside of the trust policy', async () => {
+            let message
+            try {
+                await agent.setUserTrustLevel(randomHex(16), 11)
+            } catch (error) {
+                message = error.message
+            }
+            assert.match(message, /error 400/)
+        })
+        it('should filter listings by the minimum trust level', async () => {
+            const asset = await agent.registerAsset(DataAsset.create('testAsset', Buffer.from('listed data')))
+            const listing = await agent.createListing({ price: 1 }, asset.did)
+            await agent.setAssetTrustLevel(asset.did, 9)
+            const listingList = await agent.getListingList({ minTrustLevel: 9 })
+            assert.include(
+                listingList.map((item) => item.id),
+                listing.id
+            )
+            assert(listingList.every((item) => item.trust_level >= 9))
+        })
+    })
+})
@@ -0,0 +1,120 @@
+/*
+ *
+ *     Test Version functions
+ *
+ *
+ */
+
+import chai, { assert } from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+chai.use(chaiAsPromised)
+import { randomHex } from 'web3-utils'
+
+import { createAssetVersion, getPreviousVersionId, verifyAssetVersionList } from 'starfish/Agent/Version'
+import { LocalAgent } from 'starfish/Agent/LocalAgent'
+import { AssetBase, DataAsset } from 'starfish/Asset/Asset'
+import { Account } from 'starfish/Account'
+import { Network } from 'starfish/Network'
+
+/**
+ * Network test double that records the provenance registrations in memory, one registration per block.
+ */
+function createProvenanceNetwork(): Network {
+    const eventList = []
+    const provenance = {
+        registerProvenance: async (account, assetId) => {
+            eventList.push({ assetId: assetId, blockNumber: eventList.length + 1, logIndex: 0 })
+            return true
+        },
+        getProvenanceEventLogs: async (assetId) => eventList.filter((event) => event.assetId == assetId),
+    }
+    return <Network>(<unknown>provenance)
+}
+
+describe('Version functions', () => {
+    let agent: LocalAgent
+    beforeEach(() => {
+        agent = LocalAgent.create()
+    })
+
+    describe('createAssetVersion', () => {
+        it('should add a previous-version link and keep the data', () => {
+            const previousAssetId = randomHex(32).substring(2)
+            const asset = DataAsset.create('data', Buffer.from('data'), { links: [{ type: 'source', url: 'http://example.com' }] })
+            const newAsset = <DataAsset>createAssetVersion(asset, previousAssetId)
+            assert.instanceOf(newAsset, DataAsset)
+            assert(newAsset.data.equals(asset.data))
+            assert.equal(getPreviousVersionId(newAsset), previousAssetId)
+            assert.equal(newAsset.metadata.links.length, 2)
+            assert.notEqual(newAsset.calculateAssetId(), asset.calculateAssetId())
+            const nextAsset = createAssetVersion(newAsset, randomHex(32))
+            assert.equal(nextAsset.metadata.links.length, 2)
+            assert.isNull(getPreviousVersionId(asset))
+        })
+    })
+    describe('registerAssetVersion, getAssetVersionList', () => {
+        it('should walk the version chain', async () => {
+            const firstAsset = await agent.registerAsset(DataAsset.create('data', Buffer.from('version 1')))
+            const secondAsset = await agent.registerAssetVersion(DataAsset.create('data', Buffer.from('version 2')), firstAsset.did)
+            const thirdAsset = await agent.registerAssetVersion(DataAsset.create('data', Buffer.from('version 3')), secondAsset.did)
+            const versionList = await agent.getAssetVersionList(thirdAsset.did)
+            assert.deepEqual(
+                versionList.map((asset) => asset.getAssetId()),
+                [thirdAsset.getAssetId(), secondAsset.getAssetId(), firstAsset.getAssetId()]
+            )
+            assert.instanceOf(versionList[2], DataAsset)
+            await assert.isRejected(
+                agent.registerAssetVersion(DataAsset.create('data', Buffer.from('data')), randomHex(32)),
+                /Unable to find the previous version/
+            )
+            await assert.isRejected(agent.getAssetVersionList(randomHex(32)), /Unable to find asset/)
+        })
+    })
+    describe('getLatestAssetVersion', () => {
+        it('should find the latest version of an asset', async () => {
+            const firstAsset = await agent.registerAsset(DataAsset.create('data', Buffer.from('version 1')))
+            const secondAsset = await agent.registerAssetVersion(
+                DataAsset.create('data', Buffer.from('version 2'), { dateCreated: '2020-01-01T00:00:00Z' }),
+                firstAsset.did
+            )
+            const branchAsset = await agent.registerAssetVersion(
+                DataAsset.create('data', Buffer.from('branch'), { dateCreated: '2020-02-01T00:00:00Z' }),
+                firstAsset.did
+            )
+            await agent.registerAssetVersion(DataAsset.create('data', Buffer.from('version 3')), secondAsset.did)
+            await agent.registerAsset(DataAsset.create('other', Buffer.from('other')))
+            assert.equal((await agent.getLatestAssetVersion(firstAsset.did)).getAssetId(), branchAsset.getAssetId())
+            assert.equal((await agent.getLatestAssetVersion(branchAsset.getAssetId())).getAssetId(), branchAsset.getAssetId())
+        })
+    })
+    describe('verifyAssetVersionList', () => {
+        it('should anchor the versions and verify the order', async () => {
+            const network = createProvenanceNetwork()
+            const account = new Account(randomHex(20))
+            const firstAsset = await agent.registerAsset(DataAsset.create('data', Buffer.from('version 1')))
+            await network.registerProvenance(account, `0x${firstAsset.getAssetId()}`)
+            const secondAsset = await agent.registerAssetVersion(
+                DataAsset.create('data', Buffer.from('version 2')),
+                firstAsset.did,
+                network,
+                account
+            )
+            const versionList = await agent.getAssetVersionList(secondAsset.did)
+            assert.isTrue(await verifyAssetVersionList(network, versionList))
+            assert.isFalse(await verifyAssetVersionList(network, [...versionList].reverse()))
+            const unanchoredAsset = await agent.registerAssetVersion(
+                DataAsset.create('data', Buffer.from('version 3')),
+                secondAsset.did
+            )
+            assert.isFalse(await verifyAssetVersionList(network, await agent.getAssetVersionList(unanchoredAsset.did)))
+            await assert.isRejected(
+                agent.registerAssetVersion(
+                    new AssetBase(JSON.stringify({ name: 'data', type: 'dataset' })),
+                    secondAsset.did,
+                    network
+                ),
+                /An account is needed/
+            )
+        })
+    })
+})
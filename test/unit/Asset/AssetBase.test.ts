@@ -6,9 +6,10 @@
 
 import { assert } from 'chai'
 
-import { AssetBase } from 'starfish/Asset/AssetBase'
+import { AssetBase, AssetIntegrityError } from 'starfish/Asset/AssetBase'
 import { didRandom } from 'starfish/Utils'
 import { calculateAssetId } from 'starfish/Crypto'
+import { DataAsset } from 'starfish/Asset/DataAsset'
 
 describe('AssetBase Class', () => {
     describe('AssetBase constructor', () => {
@@ -31,6 +32,36 @@ describe('AssetBase Class', () => {
             assert.equal(metadata['name'], name)
             assert.equal(metadata['type'], metadataType)
         })
+        it('should use the fields of a metadata string or object', async () => {
+            const metadata = AssetBase.generateMetadata('test', 'dataset', JSON.stringify({ description: 'text' }))
+            assert.equal(metadata.description, 'text')
+            const metadataObject = { description: 'object' }
+            assert.equal(AssetBase.generateMetadata('test', 'dataset', metadataObject).description, 'object')
+            assert.isUndefined(metadataObject['name'])
+        })
+    })
+
+    describe('isCanonical', () => {
+        it('should test if the metadata text is canonical JSON', async () => {
+            assert(AssetBase.isCanonical('{"name":"test","type":"dataset"}'))
+            assert.isFalse(AssetBase.isCanonical(JSON.stringify({ type: 'dataset', name: 'test' })))
+        })
+        it('should give the same assetId for the same metadata', async () => {
+            const asset = DataAsset.create('test', Buffer.from('data'), { tags: ['test'], description: 'text' })
+            const otherAsset = new DataAsset({ ...asset.metadata, type: 'dataset', name: 'test' })
+            assert(AssetBase.isCanonical(asset.metadataText))
+            assert.equal(otherAsset.calculateAssetId(), asset.calculateAssetId())
+        })
+    })
+
+    describe('checkAssetId', () => {
+        it('should check that the metadata matches the assetId', async () => {
+            const metadataText = JSON.stringify({ name: 'dataset' })
+            const asset = new AssetBase(metadataText, `${didRandom()}/${calculateAssetId(metadataText)}`)
+            asset.checkAssetId()
+            asset.checkAssetId(calculateAssetId(metadataText))
+            assert.throws(() => asset.checkAssetId(calculateAssetId('tampered')), AssetIntegrityError)
+        })
     })
 
     describe('AssetBase Methods', () => {
@@ -0,0 +1,95 @@
+/*
+ *
+ *     Test Asset Factory functions
+ *
+ *
+ */
+
+import { assert } from 'chai'
+import { randomHex } from 'web3-utils'
+
+import { createAsset, getAssetTypeList, registerAssetType, unregisterAssetType } from 'starfish/Asset/AssetFactory'
+import { AssetBase, DataAsset, OperationAsset } from 'starfish/Asset/Asset'
+import { BundleAsset } from 'starfish/Asset/BundleAsset'
+import { validateMetadata } from 'starfish/Asset/MetadataValidator'
+
+class ModelAsset extends AssetBase {
+    public getFramework(): string {
+        return this.metadata.additionalInformation['framework']
+    }
+}
+
+describe('Asset Factory functions', () => {
+    describe('createAsset', () => {
+        it('should create an asset object using the metadata type', () => {
+            const dataAsset = DataAsset.create('data', Buffer.from('data'))
+            assert.instanceOf(createAsset(dataAsset.metadataText), DataAsset)
+            const operationAsset = createAsset(OperationAsset.create('operation').metadataText, 'did:dep:1234')
+            assert.instanceOf(operationAsset, OperationAsset)
+            assert.equal(operationAsset.did, 'did:dep:1234')
+            const unknownAsset = createAsset(JSON.stringify({ name: 'unknown', type: 'toString' }))
+            assert.equal(unknownAsset.constructor, AssetBase)
+        })
+        it('should create a bundle with the asset list set from the contents', () => {
+            const assetId = randomHex(32)
+            const bundle = createAsset(BundleAsset.create('bundle', { data: { assetID: assetId } }).metadataText)
+            assert.instanceOf(bundle, BundleAsset)
+            assert.equal((<BundleAsset>bundle).getAsset('data'), assetId)
+            assert.deepEqual((<BundleAsset>createAsset(BundleAsset.create('empty').metadataText)).assetList, {})
+        })
+        it('should keep the metadata text so the assetId does not change', () => {
+            const metadataText = '{ "type": "dataset", "name": "data" }'
+            assert.equal(createAsset(metadataText).metadataText, metadataText)
+        })
+    })
+    describe('registerAssetType', () => {
+        afterEach(() => {
+            unregisterAssetType('model')
+            unregisterAssetType('dataset')
+        })
+        it('should create an asset of a registered type', () => {
+            registerAssetType('model', (metadataText, did) => new ModelAsset(metadataText, did))
+            assert.include(getAssetTypeList(), 'model')
+            const metadataText = JSON.stringify({ name: 'model', type: 'model', additionalInformation: { framework: 'onnx' } })
+            const asset = createAsset(metadataText)
+            assert.instanceOf(asset, ModelAsset)
+            assert.equal((<ModelAsset>asset).getFramework(), 'onnx')
+            unregisterAssetType('model')
+            assert.notInclude(getAssetTypeList(), 'model')
+            assert.notInstanceOf(createAsset(metadataText), ModelAsset)
+        })
+        it('should validate the metadata of a registered type', () => {
+            const metadata = { name: 'model', type: 'model', additionalInformation: {} }
+            assert.deepEqual(
+                validateMetadata(metadata).map((error) => error.path),
+                ['type']
+            )
+            registerAssetType(
+                'model',
+                (metadataText, did) => new ModelAsset(metadataText, did),
+                (metadata, errors) => {
+                    if (!metadata.additionalInformation || !metadata.additionalInformation['framework']) {
+                        errors.push({ path: 'additionalInformation.framework', message: 'is required' })
+                    }
+                }
+            )
+            assert.deepEqual(validateMetadata(metadata), [{ path: 'additionalInformation.framework', message: 'is required' }])
+            assert.deepEqual(validateMetadata({ ...metadata, additionalInformation: { framework: 'onnx' } }), [])
+            unregisterAssetType('model')
+            assert.match(validateMetadata(metadata)[0].message, /must be one of dataset, operation, bundle/)
+        })
+        it('should replace and restore a standard asset type', () => {
+            class CustomDataAsset extends DataAsset {}
+            registerAssetType('dataset', (metadataText, did) => new CustomDataAsset(metadataText, did))
+            const metadataText = DataAsset.create('data', Buffer.from('data')).metadataText
+            assert.instanceOf(createAsset(metadataText), CustomDataAsset)
+            assert.deepEqual(
+                validateMetadata({ name: 'data', type: 'dataset', contentType: 'csv' }).map((error) => error.path),
+                ['contentType']
+            )
+            unregisterAssetType('dataset')
+            assert.notInstanceOf(createAsset(metadataText), CustomDataAsset)
+            assert.instanceOf(createAsset(metadataText), DataAsset)
+        })
+    })
+})
@@ -0,0 +1,37 @@
+/*
+
+    Test AssetFilter
+
+*/
+
+import { assert } from 'chai'
+
+import { isMetadataMatch, filterMetadataList } from 'starfish/Asset/AssetFilter'
+
+const metadataList = {
+    '01': { name: 'Weather data', type: 'dataset', tags: ['weather', 'uk'], creator: 'alice', dateCreated: '2020-01-10T00:00:00Z' },
+    '02': { name: 'Traffic data', type: 'dataset', tags: ['traffic', 'uk'], creator: 'bob', dateCreated: '2020-02-10T00:00:00Z' },
+    '03': { name: 'Increment', type: 'operation', creator: 'alice', dateCreated: '2020-03-10T00:00:00Z' },
+}
+
+describe('AssetFilter', () => {
+    describe('isMetadataMatch', () => {
+        it('should match the metadata fields', () => {
+            const metadata = metadataList['01']
+            assert.isTrue(isMetadataMatch(metadata, null))
+            assert.isTrue(isMetadataMatch(metadata, { type: 'dataset', tags: ['uk'], creator: 'alice' }))
+            assert.isFalse(isMetadataMatch(metadata, { tags: ['uk', 'traffic'] }))
+            assert.isTrue(isMetadataMatch(metadata, { dateFrom: '2020-01-01', dateTo: '2020-01-31' }))
+            assert.isFalse(isMetadataMatch(metadata, { dateFrom: '2020-02-01' }))
+            assert.isTrue(isMetadataMatch(metadata, { text: 'WEATHER' }))
+            assert.isFalse(isMetadataMatch(metadata, { text: 'rain' }))
+        })
+    })
+    describe('filterMetadataList', () => {
+        it('should filter and page the metadata list', () => {
+            assert.deepEqual(Object.keys(filterMetadataList(metadataList, { type: 'dataset' })), ['01', '02'])
+            assert.deepEqual(Object.keys(filterMetadataList(metadataList, { creator: 'alice', from: 1, size: 1 })), ['03'])
+            assert.equal(Object.keys(filterMetadataList(metadataList)).length, 3)
+        })
+    })
+})
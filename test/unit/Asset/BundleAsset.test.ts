@@ -8,6 +8,7 @@ import { assert } from 'chai'
 import { randomHex } from 'web3-utils'
 
 import { BundleAsset } from 'starfish/Asset/BundleAsset'
+import { DataAsset } from 'starfish/Asset/DataAsset'
 import { IBundleMap, IBundleContent } from 'starfish/Interfaces/IMetadata'
 
 describe('BundleAsset Class', () => {
@@ -50,4 +51,18 @@ describe('BundleAsset Class', () => {
             assert(asset.metadata.contents.testAsset_10.assetID)
         })
     })
+    describe('setMemberAsset', () => {
+        it('should set a member asset and the assetId of a registered member', async () => {
+            const asset = BundleAsset.create('newBundleAsset')
+            const member = DataAsset.create('member', Buffer.from('member data'))
+            asset.setMemberAsset('member', member)
+            assert.equal(asset.getMemberAsset('member'), member)
+            assert.isUndefined(asset.assetList['member'])
+            member.did = `did:dep:${randomHex(32).substring(2)}/${member.calculateAssetId()}`
+            asset.setMemberAsset('member', member)
+            assert.equal(asset.getAsset('member'), member.calculateAssetId())
+            asset.deleteAsset('member')
+            assert.isUndefined(asset.getMemberAsset('member'))
+        })
+    })
 })
@@ -0,0 +1,59 @@
+/*
+ *
+ *     Test Compression functions
+ *
+ *
+ */
+
+import chai, { assert } from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+chai.use(chaiAsPromised)
+import { PassThrough } from 'stream'
+
+import {
+    checkCompression,
+    compressData,
+    createCompressStream,
+    createDecompressStream,
+    decompressData,
+    getCompressionList,
+    isCompressionSupported,
+} from 'starfish/Asset/Compression'
+
+const data = Buffer.from('name,value\n'.repeat(1000))
+
+describe('Compression functions', () => {
+    describe('isCompressionSupported', () => {
+        it('should support gzip, brotli and deflate', () => {
+            assert.deepEqual(getCompressionList(), ['gzip', 'brotli', 'deflate'])
+            assert(isCompressionSupported('brotli'))
+            assert.isFalse(isCompressionSupported('zip'))
+            checkCompression(undefined)
+            assert.throws(() => checkCompression('zip'), /'zip' is not supported/)
+        })
+    })
+    describe('compressData, decompressData', () => {
+        for (const compression of getCompressionList()) {
+            it(`should compress and decompress data using ${compression}`, async () => {
+                const compressedData = await compressData(data, compression)
+                assert.isBelow(compressedData.length, data.length)
+                assert((await decompressData(compressedData, compression)).equals(data))
+            })
+        }
+        it('should not compress using an unsupported compression', async () => {
+            await assert.isRejected(compressData(data, 'zip'), /not supported/)
+        })
+    })
+    describe('createCompressStream, createDecompressStream', () => {
+        it('should compress and decompress a stream of data', async () => {
+            const stream = new PassThrough()
+            const decompressStream = stream.pipe(createCompressStream('gzip')).pipe(createDecompressStream('gzip'))
+            const chunks = []
+            decompressStream.on('data', (chunk) => chunks.push(chunk))
+            const ended = new Promise((resolve) => decompressStream.on('end', resolve))
+            stream.end(data)
+            await ended
+            assert(Buffer.concat(chunks).equals(data))
+        })
+    })
+})
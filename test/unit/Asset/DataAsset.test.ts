@@ -11,6 +11,9 @@ import fs from 'fs-extra'
 import { randomHex, hexToBytes } from 'web3-utils'
 
 import { DataAsset } from 'starfish/Asset/DataAsset'
+import { AssetIntegrityError } from 'starfish/Asset/AssetBase'
+import { calculateAssetDataHash } from 'starfish/Crypto'
+import { Account } from 'starfish/Account'
 
 describe('DataAsset Class', () => {
     describe('create', () => {
@@ -48,6 +51,120 @@ describe('DataAsset Class', () => {
             fs.remove(filename)
         })
     })
+    describe('createFromFileStream', () => {
+        const filename = '/tmp/testAssetStreamFile.dat'
+        let data
+        before(async () => {
+            data = Buffer.from(hexToBytes(randomHex(1024)))
+            await fs.writeFile(filename, data)
+        })
+        it('should create a new DataAsset object without reading the file data', async () => {
+            const asset = await DataAsset.createFromFileStream('newDataAsset', filename)
+            assert(asset)
+            assert.isUndefined(asset.data)
+            assert.equal(asset.dataFilename, filename)
+            assert.equal(asset.metadata['contentHash'], calculateAssetDataHash(data))
+            assert((await asset.getData()).equals(data))
+        })
+        it('should save the streamed data to a file', async () => {
+            const asset = await DataAsset.createFromFileStream('newDataAsset', filename)
+            const saveFilename = '/tmp/testAssetStreamSaveFile.dat'
+            await asset.saveToFile(saveFilename)
+            assert((await fs.readFile(saveFilename)).equals(data))
+            await fs.remove(saveFilename)
+        })
+        after(async () => {
+            await fs.remove(filename)
+        })
+    })
+    describe('getStoredData, setStoredData', () => {
+        it('should compress the stored data and keep the contentHash of the raw data', async () => {
+            const data = Buffer.from('name,value\n'.repeat(1000))
+            const asset = DataAsset.create('newDataAsset', data, { compression: 'gzip' })
+            assert(asset.isCompressed())
+            assert.equal(asset.metadata.contentHash, calculateAssetDataHash(data))
+            const storedData = await asset.getStoredData()
+            assert.isBelow(storedData.length, data.length)
+            assert.equal(await asset.getStoredDataSize(), storedData.length)
+            assert((await asset.readStoredDataChunk(0, 10)).equals(storedData.slice(0, 10)))
+            const newAsset = new DataAsset(asset.metadataText)
+            await newAsset.setStoredData(storedData)
+            assert(newAsset.data.equals(data))
+        })
+        it('should stream the stored data of a file in chunks', async () => {
+            const data = Buffer.from('name,value\n'.repeat(1000))
+            const filename = '/tmp/testAssetStoredFile.csv'
+            await fs.writeFile(filename, data)
+            const asset = await DataAsset.createFromFileStream('newDataAsset', filename, { compression: 'gzip' })
+            assert(asset.isStoredDataStreamed())
+            const readChunk = DataAsset.createStreamChunkReader(await asset.getStoredDataStream(), 100)
+            const chunks = []
+            let chunk = await readChunk()
+            while (chunk) {
+                chunks.push(chunk)
+                chunk = await readChunk()
+            }
+            assert.isUndefined(asset.data)
+            assert.deepEqual(chunks.slice(0, -1).map((item) => item.length), new Array(chunks.length - 1).fill(100))
+            assert.equal(await asset.getStoredDataSize(), Buffer.concat(chunks).length)
+            const newAsset = new DataAsset(asset.metadataText)
+            await newAsset.setStoredData(Buffer.concat(chunks))
+            assert(newAsset.data.equals(data))
+            await fs.remove(filename)
+        })
+        it('should not create an asset with an unsupported compression', async () => {
+            assert.throws(() => DataAsset.create('newDataAsset', Buffer.from('data'), { compression: 'zip' }), /not supported/)
+        })
+    })
+    describe('createEncrypted', () => {
+        it('should encrypt the stored data for the recipients', async () => {
+            const data = Buffer.from('name,value\n'.repeat(1000))
+            const recipient = Account.createNew('password')
+            const otherAccount = Account.createNew('password')
+            const asset = DataAsset.create('newDataAsset', data, { compression: 'gzip' })
+            const encryptedAsset = await DataAsset.createEncrypted(asset, [recipient, await otherAccount.getPublicKey()])
+            assert(encryptedAsset.isEncrypted())
+            assert.notEqual(encryptedAsset.calculateAssetId(), asset.calculateAssetId())
+            assert.deepEqual(encryptedAsset.metadata.encryption.recipients.map((item) => item.address), [recipient.address, otherAccount.address])
+            const storedData = await encryptedAsset.getStoredData()
+            assert.isBelow(storedData.length, data.length)
+            assert.equal(encryptedAsset.metadata.contentHash, calculateAssetDataHash(storedData))
+            assert.equal(encryptedAsset.metadataText.indexOf(asset.metadata.contentHash), -1)
+
+            const newAsset = new DataAsset(encryptedAsset.metadataText)
+            await newAsset.setStoredData(storedData, otherAccount)
+            assert(newAsset.data.equals(data))
+            newAsset.checkContentHash(asset.metadata.contentHash)
+            assert.throws(() => newAsset.checkContentHash(encryptedAsset.metadata.contentHash), AssetIntegrityError)
+            try {
+                await new DataAsset(encryptedAsset.metadataText).setStoredData(storedData, Account.createNew('password'))
+                assert.fail('should not decrypt the data')
+            } catch (error) {
+                assert.match(error.message, /an account of a recipient is needed/)
+            }
+        })
+        it('should check the decrypted data when the asset has no contentHash', async () => {
+            const data = Buffer.from('data without a content hash')
+            const recipient = Account.createNew('password')
+            const asset = new DataAsset(JSON.stringify({ name: 'newDataAsset', type: 'dataset' }), null, data)
+            const encryptedAsset = await DataAsset.createEncrypted(asset, [recipient])
+            const storedData = await encryptedAsset.getStoredData()
+            assert.equal(encryptedAsset.metadata.contentHash, calculateAssetDataHash(storedData))
+
+            const newAsset = new DataAsset(encryptedAsset.metadataText)
+            await newAsset.setStoredData(storedData, recipient)
+            newAsset.checkContentHash(calculateAssetDataHash(newAsset.data))
+            assert.throws(() => newAsset.checkContentHash(calculateAssetDataHash(Buffer.from('tampered'))), AssetIntegrityError)
+        })
+    })
+    describe('checkContentHash', () => {
+        it('should check the data hash against the contentHash', async () => {
+            const data = Buffer.from(hexToBytes(randomHex(1024)))
+            const asset = DataAsset.create('newDataAsset', data)
+            asset.checkContentHash(calculateAssetDataHash(data))
+            assert.throws(() => asset.checkContentHash(calculateAssetDataHash(Buffer.from('tampered'))), AssetIntegrityError)
+        })
+    })
     describe('saveToFile', () => {
         const filename = '/tmp/testAssetDataFile.dat'
         it('should save the data to a file', async () => {
@@ -0,0 +1,119 @@
+/*
+ *
+ *     Test Encryption functions
+ *
+ *
+ */
+
+import { assert } from 'chai'
+import { PassThrough } from 'stream'
+
+import {
+    createDataEncryption,
+    createDataKey,
+    createDecryptStream,
+    createEncryptStream,
+    decryptData,
+    encryptData,
+    findEncryptionRecipient,
+    parseRecipientKey,
+} from 'starfish/Asset/Encryption'
+import { Account } from 'starfish/Account'
+import { calculateAssetDataHash, eciesDecrypt } from 'starfish/Crypto'
+
+const data = Buffer.from('name,value\n'.repeat(1000))
+
+describe('Encryption functions', () => {
+    let account: Account
+    let publicKey: string
+    before(async () => {
+        account = Account.createNew('password')
+        publicKey = await account.getPublicKey()
+    })
+    describe('createDataEncryption', () => {
+        it('should encrypt the data key for each recipient', async () => {
+            const key = createDataKey()
+            const encryption = createDataEncryption(key, [publicKey])
+            const recipient = findEncryptionRecipient(encryption, account.address)
+            assert.equal(recipient.address, account.checksumAddress)
+            assert((await account.decrypt(recipient)).equals(key))
+            assert.isNull(findEncryptionRecipient(encryption, Account.createNew('password').address))
+            assert.throws(() => createDataEncryption(key, []), /At least one recipient/)
+        })
+        it('should encrypt the data hash with the data key', async () => {
+            const key = createDataKey()
+            const dataHash = calculateAssetDataHash(data)
+            const encryption = createDataEncryption(key, [publicKey], dataHash)
+            const recipientKey = parseRecipientKey(await account.decrypt(encryption.recipients[0]))
+            assert(recipientKey.key.equals(key))
+            assert.equal(recipientKey.dataHash, dataHash)
+            assert.isNull(parseRecipientKey(key).dataHash)
+        })
+        it('should not decrypt the data key with a different account', async () => {
+            const encryption = createDataEncryption(createDataKey(), [publicKey])
+            const otherAccount = Account.createNew('password')
+            try {
+                await otherAccount.decrypt(encryption.recipients[0])
+                assert.fail('should not decrypt the key')
+            } catch (error) {
+                assert.match(error.message, /Unable to decrypt the data/)
+            }
+        })
+    })
+    describe('encryptData, decryptData', () => {
+        it('should encrypt and decrypt data', async () => {
+            const key = createDataKey()
+            const encryption = createDataEncryption(key, [publicKey])
+            const encryptedData = encryptData(data, key, encryption)
+            assert.isFalse(encryptedData.slice(0, data.length).equals(data))
+            assert(decryptData(encryptedData, key, encryption).equals(data))
+            encryptedData[0] ^= 1
+            assert.throws(() => decryptData(encryptedData, key, encryption), /data has been changed/)
+            assert.throws(() => decryptData(data, createDataKey(), encryption), /key does not match/)
+        })
+        it('should not use an unsupported algorithm', async () => {
+            const key = createDataKey()
+            const encryption = { ...createDataEncryption(key, [publicKey]), algorithm: 'des' }
+            assert.throws(() => encryptData(data, key, encryption), /'des' is not supported/)
+        })
+    })
+    describe('createDecryptStream', () => {
+        it('should decrypt data as a stream', async () => {
+            const key = createDataKey()
+            const encryption = createDataEncryption(key, [publicKey])
+            const stream = new PassThrough()
+            const decryptStream = stream.pipe(createDecryptStream(key, encryption))
+            const encryptedData = encryptData(data, key, encryption)
+            stream.write(encryptedData.slice(0, 1000))
+            stream.write(encryptedData.slice(1000, encryptedData.length - 5))
+            stream.end(encryptedData.slice(encryptedData.length - 5))
+            const chunks = []
+            for await (const chunk of decryptStream) {
+                chunks.push(chunk)
+            }
+            assert(Buffer.concat(chunks).equals(data))
+        })
+    })
+    describe('createEncryptStream', () => {
+        it('should encrypt data as a stream', async () => {
+            const key = createDataKey()
+            const encryption = createDataEncryption(key, [publicKey])
+            const stream = new PassThrough()
+            const encryptStream = stream.pipe(createEncryptStream(key, encryption))
+            stream.write(data.slice(0, 1000))
+            stream.end(data.slice(1000))
+            const chunks = []
+            for await (const chunk of encryptStream) {
+                chunks.push(chunk)
+            }
+            assert(Buffer.concat(chunks).equals(encryptData(data, key, encryption)))
+        })
+    })
+    describe('eciesDecrypt', () => {
+        it('should not decrypt changed data', async () => {
+            const recipient = createDataEncryption(createDataKey(), [publicKey]).recipients[0]
+            const privateKey = '0x' + '1'.repeat(64)
+            assert.throws(() => eciesDecrypt(privateKey, recipient), /Unable to decrypt/)
+        })
+    })
+})
@@ -0,0 +1,110 @@
+/*
+ *
+ *     Test Metadata validation functions
+ *
+ *
+ */
+
+import { assert } from 'chai'
+import { randomHex } from 'web3-utils'
+
+import { checkMetadata, isAssetIdOrDID, isISODateTime, validateMetadata } from 'starfish/Asset/MetadataValidator'
+import { DataAsset, MetadataValidationError, OperationAsset } from 'starfish/Asset/Asset'
+import { BundleAsset } from 'starfish/Asset/BundleAsset'
+
+describe('Metadata validation functions', () => {
+    describe('validateMetadata', () => {
+        it('should accept valid metadata for each asset type', () => {
+            const base = {
+                name: 'test',
+                description: 'test asset',
+                dateCreated: '2020-01-10T00:00:00Z',
+                tags: ['test'],
+                links: [{ name: 'source', type: 'previous-version', assetID: randomHex(32) }],
+            }
+            assert.deepEqual(
+                validateMetadata({ ...base, type: 'dataset', contentType: 'text/csv', contentHash: randomHex(32) }),
+                []
+            )
+            assert.deepEqual(
+                validateMetadata({
+                    ...base,
+                    type: 'operation',
+                    operation: { modes: ['sync'], inputs: { n: { type: 'number' } }, outputs: {} },
+                }),
+                []
+            )
+            assert.deepEqual(
+                validateMetadata(JSON.stringify({ ...base, type: 'bundle', contents: { data: { assetID: randomHex(32) } } })),
+                []
+            )
+        })
+        it('should return the path of each invalid field', () => {
+            const errors = validateMetadata({
+                name: '',
+                type: 'dataset',
+                dateCreated: '10/01/2020',
+                tags: ['test', 1],
+                links: [{ name: 'source' }, 'link'],
+                contentType: 'csv',
+                compression: 'zip',
+                contentHash: 'hash',
+            })
+            assert.deepEqual(
+                errors.map((error) => error.path),
+                ['name', 'dateCreated', 'tags[1]', 'links[0].type', 'links[1]', 'contentType', 'compression', 'contentHash']
+            )
+        })
+        it('should validate the type specific fields', () => {
+            assert.deepEqual(validateMetadata({ name: 'test', type: 'data' }), [
+                { path: 'type', message: 'must be one of dataset, operation, bundle' },
+            ])
+            const operationErrors = validateMetadata({
+                name: 'test',
+                type: 'operation',
+                operation: { modes: ['batch'], inputs: { n: { type: 'integer', required: 'yes' } }, outputs: [] },
+            })
+            assert.deepEqual(
+                operationErrors.map((error) => error.path),
+                ['operation.modes[0]', 'operation.inputs.n.type', 'operation.inputs.n.required', 'operation.outputs']
+            )
+            const bundleErrors = validateMetadata({ name: 'test', type: 'bundle', contents: { data: { assetID: 'data' } } })
+            assert.deepEqual(bundleErrors, [{ path: 'contents.data.assetID', message: 'must be an assetId or asset DID' }])
+            assert.deepEqual(validateMetadata('{'), [{ path: '', message: 'must be valid JSON' }])
+        })
+    })
+    describe('checkMetadata', () => {
+        it('should throw a MetadataValidationError with the list of errors', () => {
+            try {
+                checkMetadata({ name: 'test', type: 'dataset', tags: 'test' })
+                assert.fail('should throw an error')
+            } catch (error) {
+                assert(error instanceof MetadataValidationError)
+                assert.equal(error.message, 'Metadata: Invalid metadata: tags: must be an array of strings')
+                assert.deepEqual(error.errors, [{ path: 'tags', message: 'must be an array of strings' }])
+            }
+        })
+        it('should validate the metadata on asset creation', () => {
+            assert.throws(
+                () => DataAsset.create('test', Buffer.from('data'), { dateCreated: 'today' }),
+                /dateCreated: must be an ISO 8601/
+            )
+            assert.throws(
+                () => OperationAsset.create('test', { operation: { inputs: { n: { type: 'int' } }, outputs: {} } }),
+                /operation.inputs.n.type/
+            )
+            assert.throws(() => BundleAsset.create('test', { data: { assetID: 'data' } }), /contents.data.assetID/)
+        })
+    })
+    describe('isISODateTime, isAssetIdOrDID', () => {
+        it('should test the date and asset id formats', () => {
+            assert(isISODateTime('2020-01-10'))
+            assert(isISODateTime('2020-01-10T10:20:30.123+01:00'))
+            assert.isFalse(isISODateTime('2020-13-45T00:00:00Z'))
+            const assetId = randomHex(32).substring(2)
+            assert(isAssetIdOrDID(assetId))
+            assert(isAssetIdOrDID(`did:dep:${randomHex(32).substring(2)}/${assetId}`))
+            assert.isFalse(isAssetIdOrDID(`did:dep:${randomHex(32).substring(2)}`))
+        })
+    })
+})
@@ -6,7 +6,7 @@
 
 import { assert } from 'chai'
 
-import { OperationAsset } from 'starfish/Asset/OperationAsset'
+import { OperationAsset, OperationValidationError } from 'starfish/Asset/OperationAsset'
 
 describe('OperationAsset Class', () => {
     describe('create', () => {
@@ -20,4 +20,37 @@ describe('OperationAsset Class', () => {
             assert.equal(asset.metadata['type'], 'operation')
         })
     })
+    describe('validate', () => {
+        const asset = OperationAsset.create('Increment', {
+            operation: {
+                modes: ['sync'],
+                inputs: { n: { type: 'number', required: true }, data: { type: 'asset' } },
+                outputs: { n: { type: 'number', required: true } },
+            },
+        })
+        it('should validate the inputs and outputs', async () => {
+            assert.deepEqual(asset.validateInputs({ n: 1, data: 'did:dep:1234' }), [])
+            assert.deepEqual(asset.validateOutputs({ n: 2 }), [])
+            const errors = asset.validateInputs({ data: 10, other: 'test' })
+            // the metadata is canonical JSON, so the parameters are in key order
+            assert.deepEqual(errors, [
+                { name: 'data', message: "must be of type 'asset'" },
+                { name: 'n', message: 'is required' },
+                { name: 'other', message: 'is not a declared parameter' },
+            ])
+            assert.equal(asset.validateOutputs({ n: 'text' }).length, 1)
+        })
+        it('should check the invoke mode and inputs', async () => {
+            assert.isTrue(asset.isModeAllowed(false))
+            assert.isFalse(asset.isModeAllowed(true))
+            assert.throws(() => asset.checkInvoke({ n: 1 }, true), OperationValidationError, /async/)
+            assert.throws(() => asset.checkInvoke({}), OperationValidationError, /n: is required/)
+            asset.checkInvoke({ n: 1 })
+        })
+        it('should allow any inputs if no operation is declared', async () => {
+            const otherAsset = OperationAsset.create('Other')
+            assert.deepEqual(otherAsset.validateInputs({ n: 1 }), [])
+            assert.isTrue(otherAsset.isModeAllowed(true))
+        })
+    })
 })
@@ -104,5 +104,18 @@ describe('DDO Class', () => {
             assert(service)
         })
     })
+    describe('selectVersion', () => {
+        it('should select the highest mutually supported version', async () => {
+            assert.equal(DDO.selectVersion(['v1', 'v3', 'v2'], ['v1', 'v2']), 'v2')
+            assert.equal(DDO.selectVersion(['v1']), 'v1')
+            assert.isNull(DDO.selectVersion(['v9'], ['v1', 'v2']))
+        })
+    })
+    describe('getServiceTypeVersion', () => {
+        it('should return the version of a service type', async () => {
+            assert.equal(DDO.getServiceTypeVersion('DEP.Meta.v1'), 'v1')
+            assert.isNull(DDO.getServiceTypeVersion('DEP.Meta'))
+        })
+    })
 
 })
@@ -0,0 +1,125 @@
+/*
+ *
+ *     Test HTTPTransport Class
+ *
+ *
+ */
+
+import chai, { assert } from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+chai.use(chaiAsPromised)
+
+import http from 'http'
+import { AddressInfo } from 'net'
+
+import { HTTPTransport } from 'starfish/Middleware/HTTPTransport'
+
+describe('HTTPTransport Class', () => {
+    let server: http.Server
+    let url: string
+    let requestCount: number
+    let failCount: number
+    let lastHeaders: http.IncomingHttpHeaders
+
+    before(async () => {
+        server = http.createServer((request, response) => {
+            requestCount++
+            lastHeaders = request.headers
+            if (request.url == '/slow') {
+                setTimeout(() => response.end('slow'), 500)
+                return
+            }
+            if (failCount > 0) {
+                failCount--
+                response.writeHead(503)
+                response.end(request.url == '/large' ? Buffer.alloc(1024 * 1024) : 'busy')
+                return
+            }
+            response.end('ok')
+        })
+        await new Promise((resolve) => server.listen(0, 'localhost', () => resolve()))
+        url = `http://localhost:${(<AddressInfo>server.address()).port}`
+    })
+    beforeEach(() => {
+        requestCount = 0
+        failCount = 0
+    })
+    after(async () => {
+        await new Promise((resolve) => server.close(() => resolve()))
+    })
+
+    describe('fetch', () => {
+        it('should send a request', async () => {
+            const transport = new HTTPTransport()
+            const response = await transport.fetch(url)
+            assert(response.ok)
+            assert.equal(await response.text(), 'ok')
+        })
+        it('should retry an idempotent request', async () => {
+            const transport = new HTTPTransport({ retries: 3, retryDelay: 1 })
+            failCount = 2
+            const response = await transport.fetch(url, { method: 'GET' })
+            assert(response.ok)
+            assert.equal(requestCount, 3)
+        })
+        it('should release the socket of each failed response before retrying', async () => {
+            // with a single socket, the retry would wait forever if the failed response held the socket
+            const agent = new http.Agent({ keepAlive: true, maxSockets: 1 })
+            const transport = new HTTPTransport({ retries: 3, retryDelay: 1, agent: agent })
+            failCount = 3
+            const response = await transport.fetch(`${url}/large`)
+            assert(response.ok)
+            assert.equal(requestCount, 4)
+            agent.destroy()
+        })
+        it('should return the last response after all retries have failed', async () => {
+            const transport = new HTTPTransport({ retries: 1, retryDelay: 1 })
+            failCount = 5
+            const response = await transport.fetch(url)
+            assert.equal(response.status, 503)
+            assert.equal(requestCount, 2)
+        })
+        it('should not retry a POST request', async () => {
+            const transport = new HTTPTransport({ retries: 3, retryDelay: 1 })
+            failCount = 1
+            const response = await transport.fetch(url, { method: 'POST', body: 'data' })
+            assert.equal(response.status, 503)
+            assert.equal(requestCount, 1)
+        })
+        it('should timeout a slow request', async () => {
+            const transport = new HTTPTransport({ timeout: 50 })
+            await assert.isRejected(transport.fetch(`${url}/slow`), /timeout/)
+        })
+    })
+    describe('interceptors', () => {
+        it('should call the request and response interceptors', async () => {
+            const transport = new HTTPTransport()
+            let interceptURL
+            transport.addRequestInterceptor((requestURL, options) => {
+                options.headers = { 'x-test-header': 'test' }
+                return options
+            })
+            transport.addResponseInterceptor((response, requestURL) => {
+                interceptURL = requestURL
+                return response
+            })
+            const response = await transport.fetch(url)
+            assert(response.ok)
+            assert.equal(lastHeaders['x-test-header'], 'test')
+            assert.equal(interceptURL, url)
+        })
+        it('should pass a copy of the request options to the request interceptors', async () => {
+            const transport = new HTTPTransport()
+            transport.addRequestInterceptor((requestURL, options) => {
+                options.method = 'POST'
+                options.headers['x-test-header'] = 'test'
+                return options
+            })
+            const options = { method: 'GET', headers: { 'x-other-header': 'other' } }
+            const response = await transport.fetch(url, options)
+            assert(response.ok)
+            assert.equal(lastHeaders['x-test-header'], 'test')
+            assert.deepEqual(options, { method: 'GET', headers: { 'x-other-header': 'other' } })
+        })
+    })
+})
@@ -0,0 +1,88 @@
+/*
+ *
+ *     Test AgentServer Class
+ *
+ *
+ */
+
+import { assert } from 'chai'
+import fetch from 'node-fetch'
+import urljoin from 'url-join'
+import { Base64 } from 'js-base64'
+
+import { AgentServer } from 'starfish/Server/AgentServer'
+import { DataAsset } from 'starfish/Asset/Asset'
+import { createTestAgentServer, testAgentAuthentication } from 'test/TestSetup'
+
+const authorization = `Basic ${Base64.encode(`${testAgentAuthentication.username}:${testAgentAuthentication.password}`)}`
+
+describe('AgentServer Class', () => {
+    let server: AgentServer
+    let url: string
+    before(async () => {
+        server = createTestAgentServer()
+        url = await server.start()
+    })
+    after(async () => {
+        await server.stop()
+    })
+
+    describe('start', () => {
+        it('should start the server and create a DDO for all services', async () => {
+            assert(url)
+            const ddo = server.getDDO()
+            assert(ddo.findService('meta'))
+            assert(ddo.findService('storage'))
+            assert(ddo.findService('invoke'))
+            assert(ddo.findService('market'))
+            assert(ddo.findService('auth'))
+        })
+    })
+
+    describe('routing', () => {
+        it('should return the DDO without authentication', async () => {
+            const response = await fetch(urljoin(url, '/api/ddo'))
+            assert.equal(response.status, 200)
+            assert.equal((await response.json()).id, server.getDDO().id)
+        })
+        it('should return the service status without authentication', async () => {
+            const response = await fetch(urljoin(url, '/api/v1/meta/status'))
+            assert.equal(response.status, 200)
+            assert.deepEqual(await response.json(), { name: 'meta', version: 'v1', versions: ['v1'] })
+            assert.equal((await fetch(urljoin(url, '/api/v1/unknown/status'))).status, 404)
+        })
+        it('should not allow a service request without authentication', async () => {
+            const assetURL = urljoin(url, '/api/v1/meta/index')
+            assert.equal((await fetch(assetURL)).status, 401)
+            assert.equal((await fetch(assetURL, { headers: { Authorization: authorization } })).status, 200)
+        })
+        it('should return not found for an unknown path', async () => {
+            assert.equal((await fetch(urljoin(url, '/api/v2/meta/data'))).status, 404)
+            assert.equal((await fetch(urljoin(url, '/api/v1/unknown'), { headers: { Authorization: authorization } })).status, 404)
+        })
+    })
+
+    describe('handlers', () => {
+        it('should register and read the metadata of an asset', async () => {
+            const asset = DataAsset.create('testAsset', Buffer.from('test data'))
+            const response = await fetch(urljoin(url, '/api/v1/meta/data'), {
+                method: 'POST',
+                headers: { Authorization: authorization, 'Content-Type': 'application/json' },
+                body: asset.metadataText,
+            })
+            assert.equal(response.status, 200)
+            const assetId = await response.json()
+            assert.equal(assetId, asset.calculateAssetId())
+            const readResponse = await fetch(urljoin(url, '/api/v1/meta/data', assetId), {
+                headers: { Authorization: authorization },
+            })
+            assert.equal(await readResponse.text(), asset.metadataText)
+        })
+        it('should return not found for an unknown asset', async () => {
+            const response = await fetch(urljoin(url, '/api/v1/meta/data', '0'.repeat(64)), {
+                headers: { Authorization: authorization },
+            })
+            assert.equal(response.status, 404)
+        })
+    })
+})
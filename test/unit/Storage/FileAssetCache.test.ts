@@ -0,0 +1,136 @@
+/*
+ *
+ *     Test FileAssetCache Class
+ *
+ *
+ */
+
+import { assert } from 'chai'
+import fs from 'fs-extra'
+import os from 'os'
+import { join as pathJoin } from 'path'
+import { randomHex } from 'web3-utils'
+
+import { FileAssetCache } from 'starfish/Storage/FileAssetCache'
+import { calculateAssetId } from 'starfish/Crypto'
+
+function createMetadataText(): string {
+    return JSON.stringify({ name: `test ${randomHex(8)}`, type: 'dataset' })
+}
+
+describe('FileAssetCache Class', () => {
+    let path: string
+    let cache: FileAssetCache
+    beforeEach(async () => {
+        path = pathJoin(os.tmpdir(), `asset-cache-${randomHex(8)}`)
+        cache = new FileAssetCache({ path: path, maxSize: 1000 })
+    })
+    afterEach(async () => {
+        await fs.remove(path)
+    })
+
+    it('should save and read the asset metadata and data', async () => {
+        const metadataText = createMetadataText()
+        const assetId = calculateAssetId(metadataText)
+        assert.isNull(await cache.readMetadata(assetId))
+        assert.isNull(await cache.readData(assetId))
+        await cache.saveMetadata(assetId, metadataText)
+        await cache.saveData(assetId, Buffer.from('test data'))
+        assert.equal(await cache.readMetadata(`0x${assetId}`), metadataText)
+        assert.equal((await cache.readData(assetId)).toString(), 'test data')
+        assert.equal(await cache.getSize(), metadataText.length + 9)
+        await cache.delete(assetId)
+        assert.isNull(await cache.readMetadata(assetId))
+        assert.isNull(await cache.readData(assetId))
+    })
+    it('should only cache metadata that matches the assetId', async () => {
+        const metadataText = createMetadataText()
+        const assetId = calculateAssetId(metadataText)
+        let message
+        try {
+            await cache.saveMetadata(calculateAssetId(createMetadataText()), metadataText)
+        } catch (error) {
+            message = error.message
+        }
+        assert.match(message, /does not match the assetId/)
+        await cache.saveMetadata(assetId, metadataText)
+        await cache.saveData(assetId, Buffer.from('test data'))
+        await fs.writeFile(pathJoin(path, `${assetId}.json`), createMetadataText())
+        assert.isNull(await cache.readMetadata(assetId))
+        assert.isNull(await cache.readData(assetId))
+    })
+    it('should not find an invalid assetId, and reject saving it', async () => {
+        assert.isNull(await cache.readMetadata('../test'))
+        assert.isNull(await cache.readData('../test'))
+        assert.isNull(await cache.readDataStream('unknown'))
+        await cache.delete('../test')
+        let message
+        try {
+            await cache.saveData('../test', Buffer.from('test data'))
+        } catch (error) {
+            message = error.message
+        }
+        assert.match(message, /Invalid assetId/)
+    })
+    it('should remove the least recently used assets when the size limit is exceeded', async () => {
+        const assetIdList = [randomHex(32), randomHex(32), randomHex(32)].map((assetId) => assetId.substring(2))
+        await cache.saveData(assetIdList[0], Buffer.alloc(400))
+        await cache.saveData(assetIdList[1], Buffer.alloc(400))
+        // set the first asset as the oldest, reading the asset marks it as used
+        const time = new Date(Date.now() - 10000)
+        await fs.utimes(pathJoin(path, `${assetIdList[0]}.data`), time, time)
+        await fs.utimes(pathJoin(path, `${assetIdList[1]}.data`), time, time)
+        assert(await cache.readData(assetIdList[0]))
+        await cache.saveData(assetIdList[2], Buffer.alloc(400))
+        assert(await cache.readData(assetIdList[0]))
+        assert.isNull(await cache.readData(assetIdList[1]))
+        assert(await cache.readData(assetIdList[2]))
+        assert.equal(await cache.getSize(), 800)
+        await cache.saveData(randomHex(32).substring(2), Buffer.alloc(2000))
+        assert.equal(await cache.getSize(), 800)
+        await cache.clear()
+        assert.equal(await cache.getSize(), 0)
+    })
+    it('should save and read the asset data as a stream', async () => {
+        const assetId = randomHex(32).substring(2)
+        assert.isNull(await cache.readDataStream(assetId))
+        const saveStream = await cache.createSaveDataStream(assetId)
+        saveStream.end(Buffer.from('test data'))
+        const chunkList = []
+        for await (const chunk of saveStream) {
+            chunkList.push(chunk)
+        }
+        assert.equal(Buffer.concat(chunkList).toString(), 'test data')
+        chunkList.splice(0)
+        for await (const chunk of await cache.readDataStream(assetId)) {
+            chunkList.push(chunk)
+        }
+        assert.equal(Buffer.concat(chunkList).toString(), 'test data')
+
+        const largeStream = await cache.createSaveDataStream(randomHex(32).substring(2))
+        largeStream.end(Buffer.alloc(2000))
+        for await (const chunk of largeStream) {
+            assert.equal(chunk.length, 2000)
+        }
+        const destroyedStream = await cache.createSaveDataStream(randomHex(32).substring(2))
+        destroyedStream.write(Buffer.from('partial data'))
+        destroyedStream.destroy()
+        await new Promise((resolve) => setTimeout(resolve, 100))
+        assert.deepEqual(await fs.readdir(path), [`${assetId}.data`])
+    })
+    it('should remove the stale temporary files', async () => {
+        const assetId = randomHex(32).substring(2)
+        await cache.saveData(assetId, Buffer.from('test data'))
+        const staleFilename = pathJoin(path, `${assetId}.data.${randomHex(8).substring(2)}.tmp`)
+        const newFilename = pathJoin(path, `${assetId}.data.${randomHex(8).substring(2)}.tmp`)
+        await fs.writeFile(staleFilename, Buffer.alloc(100))
+        await fs.writeFile(newFilename, Buffer.alloc(100))
+        const time = new Date(Date.now() - 2 * 60 * 60 * 1000)
+        await fs.utimes(staleFilename, time, time)
+        assert.equal(await cache.getSize(), 109)
+        await cache.saveData(randomHex(32).substring(2), Buffer.from('other data'))
+        assert.isFalse(await fs.pathExists(staleFilename))
+        assert(await fs.pathExists(newFilename))
+        assert.equal(await cache.getSize(), 19)
+    })
+})
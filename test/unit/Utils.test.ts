@@ -14,7 +14,9 @@ import {
     didToId,
     idToDID,
     extractAssetId,
-    didCreate
+    didCreate,
+    toCanonicalJSON,
+    isCanonicalJSON
 } from 'starfish/Utils'
 
 
@@ -96,4 +98,19 @@ describe('Utils', () => {
             assert.equal(testAssetId, extractAssetId(testAssetId))
         })
     })
+
+    describe('JSON Helpers', () => {
+        it('should serialize a value as canonical JSON', async () => {
+            const value = { b: [1, 'two', null, { z: true, a: 1e21 }], a: { d: 0.000001, c: -0 }, '\u20ac': 'euro', '\r': 1, u: undefined }
+            assert.equal(toCanonicalJSON(value), '{"\\r":1,"a":{"c":0,"d":0.000001},"b":[1,"two",null,{"a":1e+21,"z":true}],"\u20ac":"euro"}')
+            assert.equal(toCanonicalJSON({ y: 1, x: 2 }), toCanonicalJSON(JSON.parse('{ "x": 2.0, "y": 1 }')))
+            expect(() => toCanonicalJSON({ a: NaN })).to.throw(/cannot be serialized/)
+        })
+        it('should test if a JSON text is canonical', async () => {
+            assert(isCanonicalJSON('{"a":1,"b":[2,3]}'))
+            assert.isFalse(isCanonicalJSON('{"b":[2,3],"a":1}'))
+            assert.isFalse(isCanonicalJSON('{"a": 1}'))
+            assert.isFalse(isCanonicalJSON('{'))
+        })
+    })
 })